@@ -0,0 +1,9 @@
+﻿/**
+ * Error thrown when an operation is cancelled through its abort signal.
+ */
+export class AbortError extends Error {
+    public constructor(message: string = 'Operation was aborted') {
+        super(message);
+        this.name = 'AbortError';
+    }
+}
@@ -0,0 +1,104 @@
+﻿import { ICommandOption, ICommandArguments } from "../interfaces";
+import { UsageError } from "./UsageError";
+
+/**
+ * Minimal command-line argument parser (--name value, --name=value, -a value, boolean --flag).
+ */
+export class ArgumentParser {
+    /**
+     * Parse arguments against option definitions.
+     * @param argv      Arguments (without node executable, script and sub-command).
+     * @param options   Accepted options.
+     * @returns         Parsed arguments keyed by option name, with default values applied.
+     * @throws          UsageError if an option is unknown, has no/invalid value, or a required option is missing.
+     */
+    public static parse(argv: string[], options: ICommandOption[]): ICommandArguments {
+        let result: ICommandArguments = {};
+        for (let i = 0; i < argv.length; i++) {
+            let token = argv[i];
+            let inlineValue: string = null;
+            let option: ICommandOption;
+            if (token.startsWith('--')) {
+                let name = token.slice(2);
+                let equalIndex = name.indexOf('=');
+                if (equalIndex >= 0) {
+                    inlineValue = name.slice(equalIndex + 1);
+                    name = name.slice(0, equalIndex);
+                }
+                option = options.find(o => o.name === name);
+            } else if (token.startsWith('-') && token.length === 2) {
+                option = options.find(o => o.alias === token.slice(1));
+            } else {
+                throw new UsageError(`Unexpected argument: ${token}`);
+            }
+            if (!option) {
+                throw new UsageError(`Unknown option: ${token}`);
+            }
+            if (option.type === 'boolean') {
+                result[option.name] = inlineValue === null ? true : ArgumentParser.toBoolean(option, inlineValue);
+                continue;
+            }
+            let value = inlineValue;
+            if (value === null) {
+                if (i + 1 >= argv.length) {
+                    throw new UsageError(`Option --${option.name} requires a value`);
+                }
+                value = argv[++i];
+            }
+            result[option.name] = option.type === 'number' ? ArgumentParser.toNumber(option, value) : value;
+        }
+        options.forEach(option => {
+            if (result[option.name] === undefined) {
+                if (option.required) {
+                    throw new UsageError(`Missing required option: --${option.name}`);
+                }
+                if (option.defaultValue !== undefined) {
+                    result[option.name] = option.defaultValue;
+                }
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Format option definitions as help text.
+     * @param options   Option definitions.
+     * @returns         Help text, one line per option.
+     */
+    public static formatOptions(options: ICommandOption[]): string {
+        const signatures = options.map(option => {
+            let signature = `${option.alias ? `-${option.alias}, ` : '    '}--${option.name}`;
+            return option.type === 'boolean' ? signature : `${signature} <${option.valueName || option.type}>`;
+        });
+        const width = Math.max(...signatures.map(s => s.length)) + 2;
+        return options
+            .map((option, i) => {
+                let notes = new Array<string>();
+                if (option.required) {
+                    notes.push('required');
+                }
+                if (option.defaultValue !== undefined) {
+                    notes.push(`default: ${option.defaultValue}`);
+                }
+                return `  ${signatures[i].padEnd(width)}${option.description}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+            })
+            .join('\n');
+    }
+
+    private static toNumber(option: ICommandOption, value: string): number {
+        let result = Number(value);
+        if (value.trim() === '' || isNaN(result)) {
+            throw new UsageError(`Option --${option.name} expects a number, got: ${value}`);
+        }
+        return result;
+    }
+
+    private static toBoolean(option: ICommandOption, value: string): boolean {
+        if (['true', '1', 'yes'].indexOf(value.toLowerCase()) >= 0) {
+            return true;
+        } else if (['false', '0', 'no'].indexOf(value.toLowerCase()) >= 0) {
+            return false;
+        }
+        throw new UsageError(`Option --${option.name} expects true or false, got: ${value}`);
+    }
+}
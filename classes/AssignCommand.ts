@@ -0,0 +1,80 @@
+﻿import { ICommandOption, ICommandArguments, IImportIssue } from "../interfaces";
+import { Command } from "./Command";
+import { UsageError } from "./UsageError";
+import { AttributeSchema } from "./AttributeSchema";
+import { DatasetLoader } from "./DatasetLoader";
+import { DatasetError } from "./DatasetError";
+import { GroupExporter } from "./GroupExporter";
+import { ModelSerializer } from "./ModelSerializer";
+
+/**
+ * Place late joiners into groups of a saved model, without retraining or moving existing members.
+ */
+export class AssignCommand extends Command {
+    get name(): string {
+        return 'assign';
+    }
+
+    get description(): string {
+        return 'Place late joiners into groups of a saved model (see form --save-model)';
+    }
+
+    get options(): ICommandOption[] {
+        return [
+            { name: 'model', description: 'Saved model JSON file, with formed groups', type: 'string', valueName: 'file', required: true },
+            { name: 'input', alias: 'i', description: 'Dataset CSV file the model was trained on', type: 'string', valueName: 'file', required: true },
+            { name: 'newcomers', alias: 'n', description: 'Dataset CSV file of late joiners', type: 'string', valueName: 'file', required: true },
+            { name: 'schema', description: 'Attribute schema JSON file (default: Felder-Silverman learning styles)', type: 'string', valueName: 'file' },
+            { name: 'max-size', description: 'Maximum members per group (default: size of the largest group)', type: 'number', valueName: 'n' },
+            { name: 'format', alias: 'f', description: `Output format (${GroupExporter.FORMATS.join(', ')})`, type: 'string', defaultValue: 'text' },
+            { name: 'save-model', description: 'Save model with updated groups into JSON file', type: 'string', valueName: 'file' },
+            { name: 'output', alias: 'o', description: 'Write result to file instead of standard output', type: 'string', valueName: 'file' },
+        ];
+    }
+
+    public async run(args: ICommandArguments): Promise<number> {
+        if (GroupExporter.FORMATS.indexOf(args['format'] as string) < 0) {
+            throw new UsageError(`Unknown output format: ${args['format']}`);
+        }
+        const maxSize = args['max-size'] as number;
+        if (maxSize !== undefined && (!Number.isInteger(maxSize) || maxSize < 1)) {
+            throw new UsageError('--max-size must be a positive integer');
+        }
+        const schema = args['schema'] ? AttributeSchema.fromFile(args['schema'] as string) : AttributeSchema.FELDER_SILVERMAN;
+        const loader = new DatasetLoader(schema);
+        const population = await loader.load(args['input'] as string);
+        const { population: newcomers, lines } = await loader.loadWithReport(args['newcomers'] as string);
+        const known = new Set(population.map(person => person.id));
+        const reused = newcomers
+            .map((person, i) => ({ person, line: lines[i] }))
+            .filter(({ person }) => known.has(person.id))
+            .map(({ person, line }) => ({ line, column: 'Num', value: String(person.id), message: `Person id ${person.id} is already used in ${args['input']}`, action: 'rejected' } as IImportIssue));
+        if (reused.length > 0) {
+            throw new DatasetError(args['newcomers'] as string, reused);
+        }
+        const { model, groups } = ModelSerializer.load(args['model'] as string, population.concat(newcomers));
+        if (!groups) {
+            throw new Error(`Model file ${args['model']} has no groups (save it with form --save-model)`);
+        }
+        const placed = new Set<number>();
+        groups.forEach(group => group.members.forEach(member => placed.add(member.person.id)));
+        const maxSizes = maxSize !== undefined ? groups.map(() => maxSize) : null;
+        newcomers.forEach(person => {
+            if (placed.has(person.id)) {
+                console.error(`Warning: person ${person.id} is already in a group, skipped`);
+                return;
+            }
+            const { group, overCapacity } = model.assignLateJoiner(person, groups, maxSizes);
+            if (overCapacity) {
+                console.error(`Warning: no group has room for person ${person.id} (best fit: group ${group.id}), left unassigned`);
+            } else {
+                placed.add(person.id);
+            }
+        });
+        if (args['save-model']) {
+            ModelSerializer.save(args['save-model'] as string, model, groups);
+        }
+        this.write(args, GroupExporter.fromModel(model, groups).export(args['format'] as string));
+        return 0;
+    }
+}
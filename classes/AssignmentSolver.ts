@@ -0,0 +1,198 @@
+﻿/**
+ * Capacity-constrained assignment of persons to groups, maximising total membership under per-group size bounds.
+ * Solved as min-cost flow by successive shortest paths: each person is added through the cheapest chain of moves between groups,
+ * so the assignment stays optimal after every step and the final one is optimal for the given bounds.
+ */
+export class AssignmentSolver {
+    private static EPSILON = 1e-12;
+
+    private _memberships: number[][];
+    private _minSizes: number[];
+    private _maxSizes: number[];
+
+    /**
+     * Construct a new assignment solver.
+     * @param memberships   Membership degree of each person (row) to each group (column).
+     * @param minSizes      Minimum size of each group (best effort when the bounds cannot all be met).
+     * @param maxSizes      Maximum size of each group.
+     * @throws              Error if bounds do not match number of groups, or groups cannot hold every person.
+     */
+    public constructor(memberships: number[][], minSizes: number[], maxSizes: number[]) {
+        if (minSizes.length !== maxSizes.length || memberships.some(row => row.length !== maxSizes.length)) {
+            throw new Error(`Membership rows and size bounds must all have ${maxSizes.length} groups`);
+        }
+        const capacity = maxSizes.reduce((p, c) => p + c, 0);
+        if (capacity < memberships.length) {
+            throw new Error(`Groups can hold ${capacity} persons, population has ${memberships.length} persons`);
+        }
+        this._memberships = memberships;
+        this._minSizes = minSizes;
+        this._maxSizes = maxSizes;
+    }
+
+    /**
+     * Create solver with balanced bounds: every group gets floor(n / groupNum) or ceil(n / groupNum) persons.
+     * @param memberships   Membership degree of each person (row) to each group (column).
+     * @param groupNum      Number of groups.
+     */
+    public static balanced(memberships: number[][], groupNum: number): AssignmentSolver {
+        const n = memberships.length;
+        return new AssignmentSolver(
+            memberships,
+            new Array<number>(groupNum).fill(Math.floor(n / groupNum)),
+            new Array<number>(groupNum).fill(Math.ceil(n / groupNum)));
+    }
+
+    /**
+     * Total membership given up by an assignment, compared to putting everyone in its highest-membership group.
+     * @param memberships   Membership degree of each person (row) to each group (column).
+     * @param assignment    Group index of each person.
+     */
+    public static membershipLoss(memberships: number[][], assignment: number[]): number {
+        return memberships.reduce((p, u, i) => p + Math.max(...u) - u[assignment[i]], 0);
+    }
+
+    /**
+     * Solve the assignment.
+     * @returns Group index of each person.
+     */
+    public solve(): number[] {
+        const groupNum = this._maxSizes.length;
+        const assignment = new Array<number>(this._memberships.length).fill(-1);
+        const sizes = new Array<number>(groupNum).fill(0);
+
+        // Strongest persons first, so most of them end up directly in their best group (any order is optimal, this one is fastest)
+        const order = this._memberships
+            .map((u, i) => ({ i, strength: Math.max(...u) }))
+            .sort((a, b) => b.strength - a.strength || a.i - b.i)
+            .map(entry => entry.i);
+        // Candidate moves of members from group g to group h, cheapest first (cost = membership lost by the move)
+        // Members which already left g are discarded lazily when they reach the top
+        const moves = sizes.map(() => sizes.map(() => new MoveHeap()));
+        const join = (q: number, g: number) => {
+            sizes[g] += 1;
+            assignment[q] = g;
+            this._memberships[q].forEach((v, h) => {
+                if (h !== g) {
+                    moves[g][h].push(this._memberships[q][g] - v, q);
+                }
+            });
+        };
+        order.forEach(person => {
+            const moveCost = sizes.map(() => new Array<number>(groupNum).fill(Infinity));
+            const moveMember = sizes.map(() => new Array<number>(groupNum).fill(-1));
+            moves.forEach((row, g) => row.forEach((heap, h) => {
+                while (heap.size > 0 && assignment[heap.topValue] !== g) {
+                    heap.pop();
+                }
+                if (heap.size > 0) {
+                    moveCost[g][h] = heap.topKey;
+                    moveMember[g][h] = heap.topValue;
+                }
+            }));
+
+            // Shortest path (Bellman-Ford with a queue, costs can be negative but there is no negative cycle)
+            const distance = this._memberships[person].map(v => -v);
+            const previous = new Array<number>(groupNum).fill(-1);
+            const queue = distance.map((_, g) => g);
+            const queued = distance.map(() => true);
+            let relaxations = 0;
+            while (queue.length > 0 && relaxations <= groupNum * groupNum * groupNum) {
+                const g = queue.shift();
+                queued[g] = false;
+                for (let h = 0; h < groupNum; h++) {
+                    if (moveMember[g][h] >= 0 && distance[g] + moveCost[g][h] < distance[h] - AssignmentSolver.EPSILON) {
+                        distance[h] = distance[g] + moveCost[g][h];
+                        previous[h] = g;
+                        relaxations += 1;
+                        if (!queued[h]) {
+                            queue.push(h);
+                            queued[h] = true;
+                        }
+                    }
+                }
+            }
+
+            // End at a group below its minimum size if any, otherwise at a group below its maximum size
+            const belowMin = sizes.map((size, g) => g).filter(g => sizes[g] < this._minSizes[g]);
+            const candidates = belowMin.length > 0 ? belowMin : sizes.map((size, g) => g).filter(g => sizes[g] < this._maxSizes[g]);
+            let target = candidates.reduce((best, g) => best < 0 || distance[g] < distance[best] ? g : best, -1);
+
+            // Apply the chain of moves backward, then put the person in the first group of the chain
+            const visited = new Set<number>();
+            while (previous[target] >= 0 && !visited.has(target)) {
+                visited.add(target);
+                const from = previous[target];
+                const q = moveMember[from][target];
+                sizes[from] -= 1;
+                join(q, target);
+                target = from;
+            }
+            join(person, target);
+        });
+        return assignment;
+    }
+}
+
+/**
+ * Binary min-heap of (key, value) pairs.
+ */
+class MoveHeap {
+    private _keys = new Array<number>();
+    private _values = new Array<number>();
+
+    get size(): number {
+        return this._keys.length;
+    }
+
+    get topKey(): number {
+        return this._keys[0];
+    }
+
+    get topValue(): number {
+        return this._values[0];
+    }
+
+    public push(key: number, value: number) {
+        let i = this._keys.length;
+        this._keys.push(key);
+        this._values.push(value);
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this._keys[parent] <= this._keys[i]) {
+                break;
+            }
+            this.swap(i, parent);
+            i = parent;
+        }
+    }
+
+    public pop() {
+        const last = this._keys.length - 1;
+        this.swap(0, last);
+        this._keys.pop();
+        this._values.pop();
+        let i = 0;
+        while (true) {
+            const left = 2 * i + 1;
+            const right = left + 1;
+            let smallest = i;
+            if (left < this._keys.length && this._keys[left] < this._keys[smallest]) {
+                smallest = left;
+            }
+            if (right < this._keys.length && this._keys[right] < this._keys[smallest]) {
+                smallest = right;
+            }
+            if (smallest === i) {
+                break;
+            }
+            this.swap(i, smallest);
+            i = smallest;
+        }
+    }
+
+    private swap(i: number, j: number) {
+        [this._keys[i], this._keys[j]] = [this._keys[j], this._keys[i]];
+        [this._values[i], this._values[j]] = [this._values[j], this._values[i]];
+    }
+}
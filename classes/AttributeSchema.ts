@@ -0,0 +1,168 @@
+﻿import { readFileSync } from "fs";
+import Decimal from "decimal.js";
+import { IAttributeDimension, IPersonScore } from "../interfaces";
+
+/**
+ * Declarative schema of person attributes. Determine which scores are read from dataset and how they are turned into vector.
+ */
+export class AttributeSchema {
+    /**
+     * Felder-Silverman Index of Learning Styles (the original four dimensions).
+     */
+    public static FELDER_SILVERMAN = new AttributeSchema([
+        { name: 'active_reflective', label: 'Active/Reflective', column: 'Active_Reflective', min: -11, max: 11, step: 2 },
+        { name: 'sensing_intuitive', label: 'Sensing/Intuitive', column: 'Sensing_Intuitive', min: -11, max: 11, step: 2 },
+        { name: 'visual_verbal', label: 'Visual/Verbal', column: 'Visual_Verbal', min: -11, max: 11, step: 2 },
+        { name: 'sequential_global', label: 'Sequential/Global', column: 'Sequential_Global', min: -11, max: 11, step: 2 },
+    ]);
+
+    private _dimensions: IAttributeDimension[];
+
+    /**
+     * Get dimensions defined by this schema.
+     */
+    get dimensions(): IAttributeDimension[] {
+        return this._dimensions;
+    }
+
+    /**
+     * Get vector length produced by this schema (categorical dimension expands into one element per category).
+     */
+    get vectorLength(): number {
+        return this._dimensions.map(d => this.isCategorical(d) ? d.categories.length : 1).reduce((p, c) => p + c, 0);
+    }
+
+    /**
+     * Get name of each vector element (categorical element is named "dimension=category").
+     */
+    get featureNames(): string[] {
+        return this._dimensions
+            .map(d => this.isCategorical(d) ? d.categories.map(category => `${d.name}=${category}`) : [d.name])
+            .reduce((p, c) => p.concat(c), new Array<string>());
+    }
+
+    /**
+     * Get readable name of each vector element, to be used on reports.
+     */
+    get featureLabels(): string[] {
+        return this._dimensions
+            .map(d => this.isCategorical(d) ? d.categories.map(category => `${d.label || d.name}: ${category}`) : [d.label || d.name])
+            .reduce((p, c) => p.concat(c), new Array<string>());
+    }
+
+    /**
+     * Construct a new attribute schema.
+     * @param dimensions    Dimensions of the schema.
+     * @throws              Error if schema has no dimension.
+     * @throws              Error if dimension name is duplicated.
+     * @throws              Error if categorical dimension has no category.
+     * @throws              Error if numeric bounds are not numbers, min is greater than max, or step is not positive.
+     */
+    public constructor(dimensions: IAttributeDimension[]) {
+        if (dimensions.length === 0) {
+            throw new Error('Schema must have at least one dimension');
+        }
+        dimensions.forEach((d, i) => {
+            if (dimensions.findIndex(other => other.name === d.name) !== i) {
+                throw new Error(`Duplicated dimension name: ${d.name}`);
+            }
+            if (this.isCategorical(d) && (!d.categories || d.categories.length === 0)) {
+                throw new Error(`Categorical dimension ${d.name} must have at least one category`);
+            }
+            if ([d.min, d.max, d.step].some(v => v !== undefined && !Number.isFinite(v)) || d.min > d.max || d.step <= 0) {
+                throw new Error(`Dimension ${d.name} must have numeric min not greater than max, and positive step`);
+            }
+        });
+        this._dimensions = dimensions.map(d => ({ ...d, type: d.type || 'numeric', column: d.column || d.name }));
+    }
+
+    /**
+     * Build schema from plain object (e.g. parsed JSON file).
+     * @param json  Plain object with dimensions array.
+     * @returns     Attribute schema.
+     * @throws      Error if object has no dimensions array.
+     */
+    public static fromJSON(json: { dimensions: IAttributeDimension[] }): AttributeSchema {
+        if (!json || !Array.isArray(json.dimensions)) {
+            throw new Error('Schema must have dimensions array');
+        }
+        return new AttributeSchema(json.dimensions);
+    }
+
+    /**
+     * Load schema from JSON file.
+     * @param path  JSON file path.
+     * @returns     Attribute schema.
+     */
+    public static fromFile(path: string): AttributeSchema {
+        return AttributeSchema.fromJSON(JSON.parse(readFileSync(path, 'utf8').replace(/^\uFEFF/, '')));
+    }
+
+    /**
+     * Convert schema into plain object.
+     */
+    public toJSON(): { dimensions: IAttributeDimension[] } {
+        return { dimensions: this._dimensions.map(d => ({ ...d })) };
+    }
+
+    /**
+     * Check whether dimension is categorical.
+     * @param dimension Dimension to check.
+     */
+    public isCategorical(dimension: IAttributeDimension): boolean {
+        return dimension.type === 'categorical';
+    }
+
+    /**
+     * Parse a raw dataset value of a dimension, checking it against the dimension domain.
+     * @param dimension Dimension of the value.
+     * @param raw       Raw value (e.g. CSV cell).
+     * @returns         Category (categorical dimension) or score (numeric dimension).
+     * @throws          Error if value is missing, not a number, not a listed category, out of range or off the step scale.
+     */
+    public parseValue(dimension: IAttributeDimension, raw: string): number | string {
+        const value = raw === undefined || raw === null ? '' : String(raw).trim();
+        if (value === '') {
+            throw new Error('Missing value');
+        }
+        if (this.isCategorical(dimension)) {
+            if (dimension.categories.indexOf(value) < 0) {
+                throw new Error(`Unknown category ${value} (allowed: ${dimension.categories.join()})`);
+            }
+            return value;
+        }
+        const score = Number(value);
+        if (!Number.isFinite(score)) {
+            throw new Error(`Not a number: ${value}`);
+        }
+        if ((dimension.min !== undefined && score < dimension.min) || (dimension.max !== undefined && score > dimension.max)) {
+            throw new Error(`Out of range ${dimension.min !== undefined ? dimension.min : ''}..${dimension.max !== undefined ? dimension.max : ''}: ${value}`);
+        }
+        if (dimension.step !== undefined && !new Decimal(score).minus(dimension.min || 0).mod(dimension.step).isZero()) {
+            throw new Error(`Not on the scale (step ${dimension.step} from ${dimension.min || 0}): ${value}`);
+        }
+        return score;
+    }
+
+    /**
+     * Encode a score into vector (numeric dimension as is, categorical dimension one-hot encoded).
+     * @param score Score to encode.
+     * @returns     Encoded vector.
+     * @throws      Error if a categorical value is not listed in its dimension categories.
+     */
+    public encode(score: IPersonScore): Decimal[] {
+        return this._dimensions
+            .map(d => {
+                if (this.isCategorical(d)) {
+                    let value = String(score[d.name]);
+                    if (d.categories.indexOf(value) < 0) {
+                        throw new Error(`Unknown category ${value} for dimension ${d.name} (allowed: ${d.categories.join()})`);
+                    }
+                    return d.categories.map(category => new Decimal(category === value ? 1 : 0));
+                } else {
+                    return [new Decimal(score[d.name])];
+                }
+            })
+            .reduce((p, c) => p.concat(c), new Array<Decimal>());
+    }
+}
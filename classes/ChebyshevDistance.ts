@@ -0,0 +1,25 @@
+﻿import Decimal from "decimal.js";
+import { DistanceMetric } from "./DistanceMetric";
+
+/**
+ * Chebyshev (L∞ / maximum) distance.
+ */
+export class ChebyshevDistance extends DistanceMetric {
+    get name(): string {
+        return 'chebyshev';
+    }
+
+    public distance(leftVector: Decimal[], rightVector: Decimal[]): Decimal {
+        this.assertSameLength(leftVector, rightVector);
+        return Decimal.max(...leftVector.map((v, i) => Decimal.abs(v.minus(rightVector[i]))));
+    }
+
+    public fastDistance(leftVector: ArrayLike<number>, rightVector: ArrayLike<number>): number {
+        this.assertSameLength(leftVector, rightVector);
+        let max = 0;
+        for (let i = 0; i < leftVector.length; i++) {
+            max = Math.max(max, Math.abs(leftVector[i] - rightVector[i]));
+        }
+        return max;
+    }
+}
@@ -0,0 +1,155 @@
+﻿import Decimal from "decimal.js";
+import { IClusteringOptions, ISweepRow } from "../interfaces";
+import { ClusteringModelFactory } from "./ClusteringModelFactory";
+import { ClusterValidity } from "./ClusterValidity";
+import { Person } from "./Person";
+
+/**
+ * Train clustering models for a range of group numbers and recommend the best one using cluster validity indices.
+ */
+export class ClusterSweep {
+    /**
+     * Whether a higher value is better, for each validity index used on recommendation.
+     */
+    private static INDICES: { key: keyof ISweepRow, label: string, higherIsBetter: boolean }[] = [
+        { key: 'partitionCoefficient', label: 'PC', higherIsBetter: true },
+        { key: 'partitionEntropy', label: 'PE', higherIsBetter: false },
+        { key: 'xieBeni', label: 'XB', higherIsBetter: false },
+        { key: 'fukuyamaSugeno', label: 'FS', higherIsBetter: false },
+        { key: 'fuzzySilhouette', label: 'FSil', higherIsBetter: true },
+    ];
+
+    private _population: Person[];
+    private _maxIteration: number;
+    private _minImprovement: Decimal;
+    private _mass: number;
+    private _options: IClusteringOptions;
+    private _algorithm: string;
+    private _rows: ISweepRow[];
+
+    /**
+     * Get result of last run.
+     */
+    get rows(): ISweepRow[] {
+        return this._rows;
+    }
+
+    /**
+     * Construct a new sweep.
+     * @param population        The population to process.
+     * @param maxIteration      Maximmum iteration of each model.
+     * @param minImprovement    Minimum improvement to stop each model.
+     * @param mass              Mass (m) to be used. Default to 2.
+     * @param options           Additional model options, shared by every model.
+     * @param algorithm         Clustering algorithm (see ClusteringModelFactory.NAMES). Default to fcm.
+     */
+    public constructor(population: Person[], maxIteration: number, minImprovement: Decimal, mass: number = 2, options: IClusteringOptions = {}, algorithm: string = 'fcm') {
+        this._population = population;
+        this._maxIteration = maxIteration;
+        this._minImprovement = minImprovement;
+        this._mass = mass;
+        this._options = options;
+        this._algorithm = algorithm;
+        this._rows = new Array<ISweepRow>();
+    }
+
+    /**
+     * List group numbers that produce groups of given size range.
+     * @param populationSize    Number of person in population.
+     * @param minSize           Minimum group size.
+     * @param maxSize           Maximum group size.
+     * @returns                 Distinct group numbers (at least 2), ascending.
+     */
+    public static groupNumsFromSizes(populationSize: number, minSize: number, maxSize: number): number[] {
+        let result = new Array<number>();
+        for (let size = Math.max(1, minSize); size <= maxSize; size++) {
+            let groupNum = Math.round(populationSize / size);
+            if (groupNum >= 2 && groupNum <= populationSize && result.indexOf(groupNum) < 0) {
+                result.push(groupNum);
+            }
+        }
+        return result.sort((a, b) => a - b);
+    }
+
+    /**
+     * Train and score one model for each group number.
+     * @param groupNums Group numbers to try (each must be between 2 and population size).
+     * @returns         One row per group number.
+     * @throws          Error if a group number is out of range.
+     */
+    public run(groupNums: number[]): ISweepRow[] {
+        const invalid = groupNums.filter(c => !Number.isInteger(c) || c < 2 || c > this._population.length);
+        if (invalid.length > 0) {
+            throw new Error(`Group number must be an integer between 2 and ${this._population.length}: ${invalid.join()}`);
+        }
+        this._rows = groupNums.map(groupNum => {
+            const model = ClusteringModelFactory.create(this._algorithm, this._population, groupNum, null, this._options);
+            model.buildModel(this._maxIteration, this._minImprovement, this._mass);
+            const scores = new ClusterValidity(model).scores();
+            return {
+                groupNum,
+                averageGroupSize: this._population.length / groupNum,
+                objectiveValue: model.objectiveValue.toNumber(),
+                partitionCoefficient: scores.partitionCoefficient.toNumber(),
+                partitionEntropy: scores.partitionEntropy.toNumber(),
+                xieBeni: scores.xieBeni.toNumber(),
+                fukuyamaSugeno: scores.fukuyamaSugeno.toNumber(),
+                fuzzySilhouette: scores.fuzzySilhouette.toNumber(),
+            };
+        });
+        return this._rows;
+    }
+
+    /**
+     * Recommend a row by rank aggregation (Borda count): each index ranks every row, the row with the lowest rank sum wins.
+     * Tie is broken by fuzzy silhouette.
+     * @param rows  Rows to choose from. Default to result of last run.
+     * @returns     Recommended row, or null if there is no row.
+     */
+    public recommend(rows: ISweepRow[] = this._rows): ISweepRow {
+        if (rows.length === 0) {
+            return null;
+        }
+        const rankSums = rows.map(() => 0);
+        ClusterSweep.INDICES.forEach(index => {
+            const order = rows
+                .map((row, i) => ({ value: row[index.key], i }))
+                .sort((a, b) => index.higherIsBetter ? b.value - a.value : a.value - b.value);
+            order.forEach((entry, rank) => rankSums[entry.i] += rank);
+        });
+        return rows
+            .map((row, i) => ({ row, rankSum: rankSums[i] }))
+            .sort((a, b) => a.rankSum - b.rankSum || b.row.fuzzySilhouette - a.row.fuzzySilhouette)[0].row;
+    }
+
+    /**
+     * Format rows as table, recommended row is marked with "*".
+     * @param markdown  Format as Markdown table instead of plain text.
+     * @param rows      Rows to format. Default to result of last run.
+     * @returns         Formatted table.
+     */
+    public formatTable(markdown: boolean = false, rows: ISweepRow[] = this._rows): string {
+        const recommended = this.recommend(rows);
+        const header = ['', 'Groups', 'Avg size', 'J', ...ClusterSweep.INDICES.map(index => index.label)];
+        const body = rows.map(row => [
+            row === recommended ? '*' : '',
+            row.groupNum.toString(),
+            row.averageGroupSize.toFixed(1),
+            row.objectiveValue.toFixed(3),
+            ...ClusterSweep.INDICES.map(index => (row[index.key] as number).toFixed(4)),
+        ]);
+        const legend = 'PC: partition coefficient (higher is better), PE: partition entropy (lower), XB: Xie-Beni (lower), FS: Fukuyama-Sugeno (lower), FSil: fuzzy silhouette (higher). * recommended.';
+        if (markdown) {
+            return [
+                `| ${header.join(' | ')} |`,
+                `| ${header.map((_, i) => i === 0 ? '---' : '---:').join(' | ')} |`,
+                ...body.map(cells => `| ${cells.join(' | ')} |`),
+                '',
+                legend,
+            ].join('\n');
+        }
+        const widths = header.map((title, i) => Math.max(title.length, ...body.map(cells => cells[i].length)));
+        const line = (cells: string[]) => cells.map((cell, i) => i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])).join('  ');
+        return [line(header), ...body.map(line), '', legend].join('\n');
+    }
+}
@@ -0,0 +1,260 @@
+﻿import Decimal from "decimal.js";
+import { IClusteringModel, IAbortSignal } from "../interfaces";
+import { AbortError } from "./AbortError";
+
+/**
+ * Cluster validity indices of a trained clustering model.
+ */
+export class ClusterValidity {
+    /**
+     * Above this population size, fuzzy silhouette is computed in floating point even on the decimal backend.
+     */
+    public static EXACT_LIMIT = 1000;
+
+    private static ZERO = new Decimal(0);
+
+    private _model: IClusteringModel;
+    private _vectors: Decimal[][];
+    private _distanceToCenter: Decimal[][]; // [person][center]
+
+    get model(): IClusteringModel {
+        return this._model;
+    }
+
+    /**
+     * Construct a new validity scorer.
+     * @param model Trained clustering model (buildModel must have been called).
+     * @throws      Error if model has not been trained.
+     */
+    public constructor(model: IClusteringModel) {
+        if (model.clusterCenters.length === 0 || Array.from(model.clusterCenters).some(center => !center)) {
+            throw new Error('Model must be trained before it can be evaluated');
+        }
+        this._model = model;
+        this._vectors = model.dataMatrix;
+        this._distanceToCenter = this._vectors.map(vector => model.clusterCenters.map(center => model.distanceMetric.distance(center.vector, vector)));
+    }
+
+    /**
+     * Bezdek partition coefficient, PC = 1/n ∑∑ u². Range [1/c, 1], higher is better.
+     */
+    public partitionCoefficient(): Decimal {
+        return this.sumOverMatrix(u => u.pow(2)).div(this._vectors.length);
+    }
+
+    /**
+     * Partition entropy, PE = -1/n ∑∑ u log(u). Range [0, log c], lower is better.
+     */
+    public partitionEntropy(): Decimal {
+        return this.sumOverMatrix(u => u.isZero() ? ClusterValidity.ZERO : u.times(Decimal.ln(u))).neg().div(this._vectors.length);
+    }
+
+    /**
+     * Xie-Beni index, XB = ∑∑ uᵐ d(x, v)² / (n min d(vᵢ, vⱼ)²). Lower is better.
+     * Infinity when there is less than 2 centers or two centers coincide.
+     */
+    public xieBeni(): Decimal {
+        const centers = this._model.clusterCenters;
+        let minCenterDistance: Decimal = null;
+        for (let i = 0; i < centers.length; i++) {
+            for (let j = i + 1; j < centers.length; j++) {
+                let d = this._model.distanceMetric.distance(centers[i].vector, centers[j].vector).pow(2);
+                minCenterDistance = minCenterDistance === null || d.lessThan(minCenterDistance) ? d : minCenterDistance;
+            }
+        }
+        if (minCenterDistance === null || minCenterDistance.isZero()) {
+            return new Decimal(Infinity);
+        }
+        return this.compactness().div(minCenterDistance.times(this._vectors.length));
+    }
+
+    /**
+     * Fukuyama-Sugeno index, FS = ∑∑ uᵐ (d(x, v)² - d(v, v̄)²) where v̄ is the population mean. Lower is better.
+     */
+    public fukuyamaSugeno(): Decimal {
+        const mass = this._model.mass;
+        const mean = this._vectors
+            .reduce((p, c) => p === null ? c.slice() : p.map((v, i) => v.plus(c[i])), null)
+            .map(v => v.div(this._vectors.length));
+        const centerSeparation = this._model.clusterCenters.map(center => this._model.distanceMetric.distance(center.vector, mean).pow(2));
+        return this._model.partitionMatrix
+            .map((row, k) => row.vector
+                .map((u, i) => u.pow(mass).times(this._distanceToCenter[k][i].pow(2).minus(centerSeparation[i])))
+                .reduce((p, c) => p.plus(c)))
+            .reduce((p, c) => p.plus(c), ClusterValidity.ZERO);
+    }
+
+    /**
+     * Fuzzy silhouette (Campello and Hruschka), crisp silhouette of each person weighted by the difference of its two highest memberships.
+     * Range [-1, 1], higher is better. Require O(n²) distance computation (but only O(n) memory).
+     * @param alpha Weighting exponent. Default to 1.
+     * @param fast  Whether pairwise distances are computed in floating point. Default to true with a floating-point backend or above EXACT_LIMIT persons.
+     */
+    public fuzzySilhouette(alpha: number = 1, fast: boolean = this.isFastByDefault()): Decimal {
+        const run = this.silhouetteSteps(alpha, fast);
+        let step = run.next();
+        while (!step.done) {
+            step = run.next();
+        }
+        return step.value as Decimal;
+    }
+
+    /**
+     * Calculate every index.
+     */
+    public scores(): { partitionCoefficient: Decimal, partitionEntropy: Decimal, xieBeni: Decimal, fukuyamaSugeno: Decimal, fuzzySilhouette: Decimal } {
+        return {
+            partitionCoefficient: this.partitionCoefficient(),
+            partitionEntropy: this.partitionEntropy(),
+            xieBeni: this.xieBeni(),
+            fukuyamaSugeno: this.fukuyamaSugeno(),
+            fuzzySilhouette: this.fuzzySilhouette(),
+        };
+    }
+
+    /**
+     * Calculate every index, yielding to the event loop while computing fuzzy silhouette so that timers, I/O and abort requests are served during a long run.
+     * @param signal    Abort signal, checked between persons.
+     * @returns         Promise of every index (see scores), rejected with AbortError if signal is aborted.
+     */
+    public async scoresAsync(signal: IAbortSignal = null): Promise<{ partitionCoefficient: Decimal, partitionEntropy: Decimal, xieBeni: Decimal, fukuyamaSugeno: Decimal, fuzzySilhouette: Decimal }> {
+        const run = this.silhouetteSteps(1, this.isFastByDefault());
+        let step = run.next();
+        while (!step.done) {
+            await new Promise(resolve => setImmediate(resolve));
+            if (signal && signal.aborted) {
+                throw new AbortError(signal.reason !== undefined ? `Evaluation was aborted: ${signal.reason}` : 'Evaluation was aborted');
+            }
+            step = run.next();
+        }
+        return {
+            partitionCoefficient: this.partitionCoefficient(),
+            partitionEntropy: this.partitionEntropy(),
+            xieBeni: this.xieBeni(),
+            fukuyamaSugeno: this.fukuyamaSugeno(),
+            fuzzySilhouette: step.value as Decimal,
+        };
+    }
+
+    /**
+     * ∑∑ uᵐ d(x, v)², the numerator of Xie-Beni index.
+     */
+    private compactness(): Decimal {
+        const mass = this._model.mass;
+        return this._model.partitionMatrix
+            .map((row, k) => row.vector.map((u, i) => u.pow(mass).times(this._distanceToCenter[k][i].pow(2))).reduce((p, c) => p.plus(c)))
+            .reduce((p, c) => p.plus(c), ClusterValidity.ZERO);
+    }
+
+    /**
+     * Whether fuzzy silhouette is computed in floating point by default: with a floating-point backend or above EXACT_LIMIT persons.
+     */
+    private isFastByDefault(): boolean {
+        return this._model.backend.name !== 'decimal' || this._vectors.length > ClusterValidity.EXACT_LIMIT;
+    }
+
+    /**
+     * Compute fuzzy silhouette, yielding after the distances of each person are summed up.
+     * See fuzzySilhouette for parameters.
+     * @returns Fuzzy silhouette, once every person is done.
+     */
+    private *silhouetteSteps(alpha: number, fast: boolean): Generator<number, Decimal, undefined> {
+        const rows = this._model.partitionMatrix;
+        const groupNum = this._model.groupNum;
+        if (groupNum < 2 || rows.length < 2) {
+            return ClusterValidity.ZERO;
+        }
+        const labels = rows.map(row => this.argMax(row.vector));
+        const silhouettes = fast ? yield* this.fastSilhouettes(labels) : yield* this.exactSilhouettes(labels);
+        let weightedSum = ClusterValidity.ZERO;
+        let weightSum = ClusterValidity.ZERO;
+        rows.forEach((row, i) => {
+            let sorted = row.vector.slice().sort((p, q) => q.comparedTo(p));
+            let weight = sorted[0].minus(sorted[1]).pow(alpha);
+            weightedSum = weightedSum.plus(weight.times(silhouettes[i]));
+            weightSum = weightSum.plus(weight);
+        });
+        return weightSum.isZero() ? ClusterValidity.ZERO : weightedSum.div(weightSum);
+    }
+
+    /**
+     * Crisp silhouette of each person, s = (b - a) / max(a, b), with pairwise distances in Decimal. Yield index of each person done.
+     * @param labels    Cluster index of each person.
+     */
+    private *exactSilhouettes(labels: number[]): Generator<number, Decimal[], undefined> {
+        const groupNum = this._model.groupNum;
+        const silhouettes = new Array<Decimal>(labels.length);
+        for (let i = 0; i < labels.length; i++) {
+            let sums = new Array<Decimal>(groupNum).fill(ClusterValidity.ZERO);
+            let counts = new Array<number>(groupNum).fill(0);
+            labels.forEach((other, j) => {
+                if (i !== j) {
+                    sums[other] = sums[other].plus(this._model.distanceMetric.distance(this._vectors[i], this._vectors[j]));
+                    counts[other] += 1;
+                }
+            });
+            silhouettes[i] = this.silhouette(sums.map((sum, c) => counts[c] > 0 ? sum.div(counts[c]).toNumber() : null), labels[i]);
+            yield i;
+        }
+        return silhouettes;
+    }
+
+    /**
+     * Crisp silhouette of each person, with pairwise distances in floating point on a Float64Array data matrix (see IDistanceMetric.fastDistance).
+     * Yield index of each person done.
+     * @param labels    Cluster index of each person.
+     */
+    private *fastSilhouettes(labels: number[]): Generator<number, Decimal[], undefined> {
+        const n = this._vectors.length;
+        const groupNum = this._model.groupNum;
+        const dimension = n > 0 ? this._vectors[0].length : 0;
+        const data = new Float64Array(n * dimension);
+        this._vectors.forEach((vector, i) => vector.forEach((v, k) => data[i * dimension + k] = v.toNumber()));
+        const rows = this._vectors.map((_, i) => data.subarray(i * dimension, (i + 1) * dimension));
+        const metric = this._model.distanceMetric;
+        const distance = metric.fastDistance
+            ? (left: Float64Array, right: Float64Array) => metric.fastDistance(left, right)
+            : (left: Float64Array, right: Float64Array) => metric.distance(Array.from(left, v => new Decimal(v)), Array.from(right, v => new Decimal(v))).toNumber();
+        const counts = new Array<number>(groupNum).fill(0);
+        labels.forEach(label => counts[label] += 1);
+        const sums = new Float64Array(n * groupNum); // [person][cluster], sum of distances to the members of each cluster
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) {
+                const d = distance(rows[i], rows[j]);
+                sums[i * groupNum + labels[j]] += d;
+                sums[j * groupNum + labels[i]] += d;
+            }
+            yield i;
+        }
+        return labels.map((label, i) => this.silhouette(counts.map((count, c) => {
+            const others = c === label ? count - 1 : count;
+            return others > 0 ? sums[i * groupNum + c] / others : null;
+        }), label));
+    }
+
+    /**
+     * Crisp silhouette of a person from its average distance to the members of each cluster (0 if alone in its cluster).
+     * @param averages  Average distance to the other members of each cluster (null if there is none).
+     * @param label     Cluster index of the person.
+     */
+    private silhouette(averages: number[], label: number): Decimal {
+        const a = averages[label];
+        const others = averages.filter((v, c) => c !== label && v !== null);
+        if (a === null || others.length === 0) {
+            return ClusterValidity.ZERO;
+        }
+        const b = Math.min(...others);
+        const denominator = Math.max(a, b);
+        return denominator === 0 ? ClusterValidity.ZERO : new Decimal((b - a) / denominator);
+    }
+
+    private sumOverMatrix(fn: (u: Decimal) => Decimal): Decimal {
+        return this._model.partitionMatrix
+            .map(row => row.vector.map(fn).reduce((p, c) => p.plus(c)))
+            .reduce((p, c) => p.plus(c), ClusterValidity.ZERO);
+    }
+
+    private argMax(vector: Decimal[]): number {
+        return vector.reduce((best, v, i) => v.greaterThan(vector[best]) ? i : best, 0);
+    }
+}
@@ -0,0 +1,891 @@
+﻿import { EventEmitter } from "events";
+import { IClusteringModel, IMember, IDistanceMetric, IClusteringOptions, IRandomGenerator, IFormationOptions, IFormationResult, INumericBackend, ILateJoinerAssignment, ILogger, IAbortSignal, IIterationEvent, IOrphanEvent, ITrainingResult } from "../interfaces";
+import { Person } from "./Person";
+import Decimal from 'decimal.js';
+import { ClusterCenter } from "./ClusterCenter";
+import { Group } from "./Group";
+import { EuclideanDistance } from "./EuclideanDistance";
+import { SeededRandom } from "./SeededRandom";
+import { PartitionInitializer } from "./PartitionInitializer";
+import { HeterogeneousFormation } from "./HeterogeneousFormation";
+import { ConstraintSet } from "./ConstraintSet";
+import { AssignmentSolver } from "./AssignmentSolver";
+import { GroupSizing } from "./GroupSizing";
+import { DecimalBackend } from "./DecimalBackend";
+import { SilentLogger } from "./SilentLogger";
+import { AbortError } from "./AbortError";
+import { Preprocessor } from "./Preprocessor";
+import { MatrixHelper } from "./MatrixHelper";
+import { ModelInputError } from "./ModelInputError";
+import { RepeatPenalty } from "./RepeatPenalty";
+
+/**
+ * Base class of clustering model. Holds the population, partition matrix and centers, drives the iterations
+ * (events, logging, abort and history) and forms groups; subclasses only implement one iteration and membership prediction.
+ * Emits iterationStart and iterationEnd (IIterationEvent) on every iteration, converged or maxIterationReached (IIterationEvent) at the end of buildModel,
+ * and orphan (IOrphanEvent) when a member cannot be put into any group.
+ */
+export abstract class ClusteringModel extends EventEmitter implements IClusteringModel {
+    /**
+     * Event names.
+     */
+    public static EVENTS = { ITERATION_START: 'iterationStart', ITERATION_END: 'iterationEnd', CONVERGED: 'converged', MAX_ITERATION: 'maxIterationReached', ORPHAN: 'orphan' };
+
+    /**
+     * Available stopping rules of buildModel.
+     */
+    public static STOP_RULES = ['objective', 'relative', 'partition', 'centers'];
+
+    protected static ZERO = new Decimal(0);
+    protected static ONE = new Decimal(1);
+
+    private _mat: IMember[]; // U/u
+    private _data: Decimal[][]; // X/x, vector of each person (after preprocessing)
+    private _groupNum: number;
+    private _objectiveValue: Decimal; // J
+    private _history: Decimal[]; // J of every iteration
+    private _mass: number; // m
+    private _clusterCenter: ClusterCenter[]; // C/c
+    private _distanceMetric: IDistanceMetric; // d
+    private _random: IRandomGenerator;
+    private _logger: ILogger;
+    private _constraints: ConstraintSet;
+    private _backend: INumericBackend;
+    private _preprocessor: Preprocessor;
+    private _stopRule: string;
+    private _seedCenters: Decimal[][]; // centers the initial partition was derived from (null if it was not)
+
+    /**
+     * Working partition matrix during buildModel (one row per person), committed to the model when the run ends.
+     */
+    protected _memberships: Decimal[][];
+    /**
+     * Working cluster centers during buildModel (one row per cluster), committed to the model when the run ends.
+     */
+    protected _centers: Decimal[][];
+
+    /**
+     * Get algorithm name (see ClusteringModelFactory.NAMES).
+     */
+    public abstract get name(): string;
+
+    /**
+     * Get current partition matrix.
+     */
+    get partitionMatrix(): IMember[] {
+        return this._mat;
+    }
+
+    /**
+     * Get data matrix (vector of each person after preprocessing, in population order).
+     */
+    get dataMatrix(): Decimal[][] {
+        return this._data;
+    }
+
+    /**
+     * Get number of groups modelled by this model.
+     */
+    get groupNum(): number {
+        return this._groupNum;
+    }
+
+    /**
+     * Get current objective value (J) from last iteration.
+     */
+    get objectiveValue(): Decimal {
+        return this._objectiveValue;
+    }
+
+    /**
+     * Get objective value (J) of every iteration run so far (across buildModel calls).
+     */
+    get history(): Decimal[] {
+        return this._history;
+    }
+
+    /**
+     * Get masses (m) set for this model.
+     */
+    get mass(): number {
+        return this._mass;
+    }
+
+    /**
+     * Get distance metric used by this model.
+     */
+    get distanceMetric(): IDistanceMetric {
+        return this._distanceMetric;
+    }
+
+    /**
+     * Get cluster centers from last iteration.
+     */
+    get clusterCenters(): ClusterCenter[] {
+        return this._clusterCenter;
+    }
+
+    /**
+     * Get seed of the random generator used to initialize partition matrix (undefined if a custom generator has no seed).
+     */
+    get seed(): number {
+        return this._random.seed;
+    }
+
+    /**
+     * Get constraints applied to this model (null if there is none).
+     */
+    get constraints(): ConstraintSet {
+        return this._constraints;
+    }
+
+    /**
+     * Get numeric backend used to build this model.
+     */
+    get backend(): INumericBackend {
+        return this._backend;
+    }
+
+    /**
+     * Get preprocessor mapping person vectors into model space (null if vectors are used as is).
+     */
+    get preprocessor(): Preprocessor {
+        return this._preprocessor;
+    }
+
+    /**
+     * Get logger of this model.
+     */
+    get logger(): ILogger {
+        return this._logger;
+    }
+
+    /**
+     * Get stopping rule of buildModel (see STOP_RULES).
+     */
+    get stopRule(): string {
+        return this._stopRule;
+    }
+
+    /**
+     * Set distance metric and fit it against current population (if the metric needs fitting).
+     * @param distanceMetric    Distance metric to use.
+     */
+    private useDistanceMetric(distanceMetric: IDistanceMetric) {
+        this._distanceMetric = distanceMetric;
+        if (this._distanceMetric.fit && this._data.length > 0) {
+            this._distanceMetric.fit(this._data);
+        }
+    }
+
+    /**
+     * Build initial partition matrix from initial vectors, initial centers or initialization strategy (in that order of precedence).
+     * Memberships derived from centers use the default mass, they are derived again with the mass of the first run (see iterate).
+     * @param initialVectors    Initial partition matrix (if set).
+     * @param options           Model options.
+     * @returns                 Partition matrix.
+     */
+    private initialPartition(initialVectors: Decimal[][], options: IClusteringOptions): Decimal[][] {
+        const initializer = new PartitionInitializer(this._data, this._groupNum, this._distanceMetric, this._random, this._mass);
+        if (initialVectors) {
+            this._seedCenters = null;
+            return initializer.validatePartition(initialVectors);
+        } else if (options.initialCenters) {
+            this._seedCenters = this._preprocessor ? options.initialCenters.map(center => this._preprocessor.transform(center)) : options.initialCenters;
+        } else {
+            this._seedCenters = initializer.seedCenters(options.initialization || 'random');
+        }
+        return this._seedCenters ? initializer.fromCenters(this._seedCenters) : initializer.random();
+    }
+
+    /**
+     * Construct a new clustering model.
+     * @param population        The population to process (every person must have a distinct id and produce a finite vector of the same length).
+     * @param groupNum          Number of desired groups (between 1 and population size).
+     * @param initialVectors    Initial vector (if set), one row per person and one column per group. Set null to use initialization options.
+     * @param options           Additional model options.
+     * @throws                  ModelInputError if population is empty, number of groups is invalid, or a person is duplicated or has an inconsistent or non-finite vector.
+     * @throws                  Error if preprocessor cannot be fitted on population vectors.
+     * @throws                  Error if initial vectors or initial centers do not match population size, number of groups or vector length.
+     * @throws                  Error if a constraint refers to an unknown person id or group id.
+     * @throws                  Error if stopping rule is unknown.
+     */
+    public constructor(population: Person[], groupNum: number, initialVectors: Decimal[][] = null, options: IClusteringOptions = {}) {
+        super();
+        if (options.stopRule !== undefined && ClusteringModel.STOP_RULES.indexOf(options.stopRule) < 0) {
+            throw new Error(`Unknown stopping rule: ${options.stopRule} (available: ${ClusteringModel.STOP_RULES.join(', ')})`);
+        }
+        this._stopRule = options.stopRule || 'objective';
+        const vectors = ClusteringModel.validateInput(population, groupNum);
+        this._preprocessor = options.preprocessor || null;
+        if (this._preprocessor && !this._preprocessor.isFitted) {
+            this._preprocessor.fit(vectors);
+        }
+        this._data = this._preprocessor ? vectors.map(vector => this._preprocessor.transform(vector)) : vectors;
+        this._groupNum = groupNum;
+        this._random = options.random || new SeededRandom(options.seed);
+        this._mat = population.map(p => ({ person: p, vector: null }));
+        this._mass = 2;
+        this._clusterCenter = new Array<ClusterCenter>(this._groupNum);
+        this._objectiveValue = ClusteringModel.ZERO;
+        this._history = new Array<Decimal>();
+        this.useDistanceMetric(options.distanceMetric || new EuclideanDistance());
+        this._logger = options.logger || new SilentLogger();
+        this._backend = options.backend || new DecimalBackend();
+        this._constraints = options.constraints ? new ConstraintSet(options.constraints, population, groupNum) : null;
+        this._memberships = null;
+        this._centers = null;
+        this.initialPartition(initialVectors, options).forEach((vector, i) => this._mat[i].vector = vector);
+        this.applyConstraints();
+    }
+
+    /**
+     * Check that a model can be built from population and number of groups.
+     * @param population    The population to process.
+     * @param groupNum      Number of desired groups.
+     * @returns             Vector of each person.
+     * @throws              ModelInputError describing the first problem found.
+     */
+    private static validateInput(population: Person[], groupNum: number): Decimal[][] {
+        if (population.length === 0) {
+            throw new ModelInputError(ModelInputError.CODES.EMPTY_POPULATION, 'Population is empty');
+        }
+        if (!Number.isInteger(groupNum) || groupNum < 1) {
+            throw new ModelInputError(ModelInputError.CODES.INVALID_GROUP_NUM, `Number of groups must be a positive integer: ${groupNum}`);
+        }
+        if (groupNum > population.length) {
+            throw new ModelInputError(ModelInputError.CODES.TOO_MANY_GROUPS, `Cannot form ${groupNum} groups from ${population.length} persons`);
+        }
+        const ids = new Set<number>();
+        for (const person of population) {
+            if (ids.has(person.id)) {
+                throw new ModelInputError(ModelInputError.CODES.DUPLICATED_PERSON, `Person id ${person.id} appears more than once in population`);
+            }
+            ids.add(person.id);
+        }
+        const vectors = population.map(p => p.toVector());
+        if (vectors.some(vector => vector.length !== vectors[0].length)) {
+            throw new ModelInputError(ModelInputError.CODES.VECTOR_SIZE, `Vector size is not equal across population: ${Array.from(new Set(vectors.map(vector => vector.length))).join()}`);
+        }
+        const invalid = vectors.findIndex(vector => vector.some(v => !v.isFinite()));
+        if (invalid >= 0) {
+            throw new ModelInputError(ModelInputError.CODES.NON_FINITE_VALUE, `Vector of person ${population[invalid].id} has a non-finite value`);
+        }
+        return vectors;
+    }
+
+    /**
+     * Build the model.
+     * Iterating stops when the change measured by the stopping rule (see stopRule) falls below minimum improvement, or after maximum iteration.
+     * Progress is reported by events (see EVENTS) and logged on debug level.
+     * @param maxIteration      Maximmum iteration that this model should run.
+     * @param minImprovement    Minimum improvement to stop this model, in the unit of the stopping rule.
+     * @param mass              Mass (m) to be used. Default to 2.
+     * @param distanceMetric    Distance metric to be used (if set). Default to the metric set on construction.
+     * @param signal            Abort signal, checked before every iteration (if set).
+     * @returns                 Training result: iterations run, stop reason, final objective value and history of the run.
+     * @throws                  Error if mass is less than 2.
+     * @throws                  Error if minimum improvement value is less than or equal to 0.
+     * @throws                  AbortError if signal is aborted. On any error thrown during the run, model is left as it was before the call.
+     */
+    public buildModel(maxIteration: number, minImprovement: Decimal, mass: number = 2, distanceMetric: IDistanceMetric = null, signal: IAbortSignal = null): ITrainingResult {
+        const run = this.iterate(maxIteration, minImprovement, mass, distanceMetric, signal);
+        let step = run.next();
+        while (!step.done) {
+            step = run.next();
+        }
+        return step.value as ITrainingResult;
+    }
+
+    /**
+     * Build the model, yielding to the event loop between iterations so that timers, I/O and abort requests are served during a long run.
+     * See buildModel for parameters.
+     * @returns Promise of training result, rejected with AbortError if signal is aborted.
+     */
+    public async buildModelAsync(maxIteration: number, minImprovement: Decimal, mass: number = 2, distanceMetric: IDistanceMetric = null, signal: IAbortSignal = null): Promise<ITrainingResult> {
+        const run = this.iterate(maxIteration, minImprovement, mass, distanceMetric, signal);
+        let step = run.next();
+        while (!step.done) {
+            await new Promise(resolve => setImmediate(resolve));
+            step = run.next();
+        }
+        return step.value as ITrainingResult;
+    }
+
+    /**
+     * Run iterations, yielding after each one.
+     * See buildModel for parameters.
+     * @returns Training result, once iterating is over.
+     */
+    private *iterate(maxIteration: number, minImprovement: Decimal, mass: number, distanceMetric: IDistanceMetric, signal: IAbortSignal): Generator<number, ITrainingResult, undefined> {
+        if (minImprovement.greaterThan(ClusteringModel.ZERO)) {
+            if (mass > 1) {
+                const previous = {
+                    mass: this._mass,
+                    distanceMetric: this._distanceMetric,
+                    objectiveValue: this._objectiveValue,
+                    historyLength: this._history.length,
+                    vectors: this._mat.map(row => row.vector),
+                    clusterCenter: this._clusterCenter,
+                };
+                const checkAborted = () => {
+                    if (signal && signal.aborted) {
+                        throw new AbortError(signal.reason !== undefined ? `Model building was aborted: ${signal.reason}` : 'Model building was aborted');
+                    }
+                };
+                checkAborted();
+
+                let stop = false;
+                let iteration = 1;
+                let last: IIterationEvent = null;
+                const events: IIterationEvent[] = [];
+                try {
+                    this._mass = mass;
+                    if (distanceMetric) {
+                        this.useDistanceMetric(distanceMetric);
+                    }
+                    if (this._seedCenters && !this.isTrained()) {
+                        // Memberships seeded from centers follow the mass of the run
+                        new PartitionInitializer(this._data, this._groupNum, this._distanceMetric, this._random, mass).fromCenters(this._seedCenters).forEach((vector, i) => this._mat[i].vector = vector);
+                        this.applyConstraints();
+                    }
+                    this.startIterations();
+                    let state = this.iterationState(null);
+                    while (iteration <= maxIteration && !stop) {
+                        checkAborted();
+                        this.emit(ClusteringModel.EVENTS.ITERATION_START, { iteration, maxIteration } as IIterationEvent);
+                        const objectiveValue = this.iterateOnce();
+                        const next = this.iterationState(objectiveValue);
+                        const improvement = state.objectiveValue ? Decimal.abs(objectiveValue.minus(state.objectiveValue)) : undefined;
+                        const change = this.measureChange(state, next);
+                        this._history.push(objectiveValue);
+                        this._objectiveValue = objectiveValue;
+                        this._logger.debug(`Iteration ${iteration.toString().padStart(8)} of ${maxIteration.toString().padStart(8)} (Min Improvement: ${minImprovement}, Stop Rule: ${this._stopRule}):`, { prev: state.objectiveValue, new: objectiveValue, improvement, change });
+                        last = { iteration, maxIteration, objectiveValue, improvement, change };
+                        events.push(last);
+                        this.emit(ClusteringModel.EVENTS.ITERATION_END, last);
+                        if (change !== undefined && change.lessThan(minImprovement)) {
+                            stop = true;
+                        } else {
+                            iteration += 1;
+                        }
+                        state = next;
+                        yield last.iteration;
+                    }
+                    if (maxIteration >= 1) {
+                        this.finishIterations().forEach((vector, i) => this._mat[i].vector = vector);
+                        this._clusterCenter = this._centers.map((vector, i) => new ClusterCenter(i + 1, vector));
+                        this.refresh();
+                    }
+                } catch (error) {
+                    // Leave the model as it was before the call, whether the run was aborted or failed
+                    this._mass = previous.mass;
+                    this._distanceMetric = previous.distanceMetric;
+                    this._objectiveValue = previous.objectiveValue;
+                    this._history.length = previous.historyLength;
+                    previous.vectors.forEach((vector, i) => this._mat[i].vector = vector);
+                    this._clusterCenter = previous.clusterCenter;
+                    this._logger.info(error instanceof AbortError ? 'Iteration aborted' : `Iteration failed: ${error.message}`);
+                    throw error;
+                } finally {
+                    this.releaseIterations();
+                }
+                if (stop) {
+                    this._logger.info(`Iteration stopped: converged after ${last.iteration} iterations (objective value: ${last.objectiveValue})`);
+                    this.emit(ClusteringModel.EVENTS.CONVERGED, last);
+                } else if (last) {
+                    this._logger.info(`Iteration stopped: maximum iteration reached (objective value: ${last.objectiveValue})`);
+                    this.emit(ClusteringModel.EVENTS.MAX_ITERATION, last);
+                }
+                const result: ITrainingResult = {
+                    iterations: events.length,
+                    stopReason: stop ? 'converged' : 'maxIterationReached',
+                    stopRule: this._stopRule,
+                    objectiveValue: this._objectiveValue,
+                    history: events,
+                };
+                return result;
+
+            } else {
+                throw new Error('Mass must be greater than 1');
+            }
+        } else {
+            throw new Error('Minimum improvement must be greater than 0');
+        }
+    }
+
+    /**
+     * Snapshot of the working state compared by the stopping rule (only what the rule needs is copied).
+     * @param objectiveValue    Objective value (J) of the state (null before the first iteration).
+     */
+    private iterationState(objectiveValue: Decimal): { objectiveValue: Decimal, memberships: Decimal[][], centers: Decimal[][] } {
+        return {
+            objectiveValue,
+            memberships: this._stopRule === 'partition' ? this.workingMemberships().map(row => row.slice()) : null,
+            centers: this._stopRule === 'centers' && objectiveValue ? this.workingCenters().map(center => center.slice()) : null,
+        };
+    }
+
+    /**
+     * Measure the change between two consecutive working states according to the stopping rule:
+     * |ΔJ| (objective), |ΔJ| / |J| (relative), max |Δu| (partition) or largest distance a center moved (centers).
+     * @param previous  State before the iteration.
+     * @param current   State after the iteration.
+     * @returns         Measured change, undefined if previous state holds nothing to compare with.
+     */
+    private measureChange(previous: { objectiveValue: Decimal, memberships: Decimal[][], centers: Decimal[][] }, current: { objectiveValue: Decimal, memberships: Decimal[][], centers: Decimal[][] }): Decimal {
+        switch (this._stopRule) {
+            case 'partition':
+                return Decimal.max(...current.memberships.map((row, k) => Decimal.max(...row.map((u, i) => u.minus(previous.memberships[k][i]).abs()))));
+            case 'centers':
+                return previous.centers ? Decimal.max(...current.centers.map((center, i) => this._distanceMetric.distance(previous.centers[i], center))) : undefined;
+            case 'relative':
+                if (!previous.objectiveValue) {
+                    return undefined;
+                }
+                const improvement = current.objectiveValue.minus(previous.objectiveValue).abs();
+                return previous.objectiveValue.isZero() ? improvement : improvement.div(previous.objectiveValue.abs());
+            default:
+                return previous.objectiveValue ? current.objectiveValue.minus(previous.objectiveValue).abs() : undefined;
+        }
+    }
+
+    /**
+     * Prepare working state before the first iteration of a run. Default to a copy of the partition matrix, without centers.
+     */
+    protected startIterations() {
+        this._memberships = this._mat.map(row => row.vector.slice());
+        this._centers = null;
+    }
+
+    /**
+     * Run one iteration on working state: update centers, then memberships (keeping them consistent with constraints).
+     * @returns Objective value (J) reached by the iteration.
+     */
+    protected abstract iterateOnce(): Decimal;
+
+    /**
+     * Get the working partition matrix during a run (one row per person). Default to _memberships.
+     */
+    protected workingMemberships(): Decimal[][] {
+        return this._memberships;
+    }
+
+    /**
+     * Get the working cluster centers after an iteration (one row per cluster). Default to _centers.
+     */
+    protected workingCenters(): Decimal[][] {
+        return this._centers;
+    }
+
+    /**
+     * Get the final working partition matrix once the run has ended (working centers must be set in _centers).
+     * @returns Partition matrix, one row per person.
+     */
+    protected finishIterations(): Decimal[][] {
+        return this._memberships;
+    }
+
+    /**
+     * Release resources held during a run (called even if the run fails or is aborted).
+     */
+    protected releaseIterations() {
+        this._memberships = null;
+        this._centers = null;
+    }
+
+    /**
+     * Derive algorithm state which is not saved with the model (e.g. cluster shape) from partition matrix and centers.
+     * Called after buildModel and restore, so a restored model predicts exactly as the trained one.
+     */
+    protected refresh() {
+    }
+
+    /**
+     * Membership of a model-space vector to each trained cluster (see predict).
+     * @param vector    Vector after preprocessing.
+     * @returns         Membership degree to each cluster.
+     */
+    protected abstract membershipOf(vector: Decimal[]): Decimal[];
+
+    /**
+     * Restore trained state (used when loading a saved model). Partition matrix is given on construction, where its rows are normalized to sum 1.0.
+     * @param mass              Mass (m).
+     * @param centers           Cluster centers, one per group.
+     * @param objectiveValue    Objective value (J) of last iteration.
+     * @param history           Objective value (J) of every iteration.
+     * @param memberships       Trained partition matrix kept as is (if set), for models whose memberships do not sum to 1.0 (e.g. possibilistic).
+     * @throws                  Error if mass is not greater than 1, or centers or memberships do not match number of groups, vector length or population size.
+     */
+    public restore(mass: number, centers: Decimal[][], objectiveValue: Decimal, history: Decimal[] = [], memberships: Decimal[][] = null) {
+        if (!(mass > 1)) {
+            throw new Error('Mass must be greater than 1');
+        }
+        new PartitionInitializer(this._data, this._groupNum, this._distanceMetric, this._random, mass).validateCenters(centers);
+        if (memberships) {
+            if (memberships.length !== this._mat.length || memberships.some(row => row.length !== this._groupNum)) {
+                throw new Error(`Partition matrix must have ${this._mat.length} rows of ${this._groupNum} values`);
+            }
+            memberships.forEach((vector, i) => this._mat[i].vector = vector);
+        }
+        this._mass = mass;
+        this._clusterCenter = centers.map((vector, i) => new ClusterCenter(i + 1, vector));
+        this._objectiveValue = objectiveValue;
+        this._history = history.slice();
+        this.refresh();
+    }
+
+    /**
+     * Predict membership vector of a person against the trained cluster centers, without retraining.
+     * @param person    Person to predict (may not be part of the population).
+     * @returns         Membership degree to each cluster.
+     * @throws          Error if model has not been trained, or person vector length does not match population.
+     */
+    public predict(person: Person): Decimal[] {
+        this.checkTrained('predict');
+        const original = person.toVector();
+        const expected = this._preprocessor ? this._preprocessor.inputLength : this._data.length > 0 ? this._data[0].length : original.length;
+        if (original.length !== expected) {
+            throw new Error(`Vector size of person ${person.id} is ${original.length}, expected ${expected}`);
+        }
+        return this.membershipOf(this._preprocessor ? this._preprocessor.transform(original) : original);
+    }
+
+    /**
+     * Place a newcomer into already formed groups without moving existing members.
+     * Group tied to a cluster is scored by the newcomer membership to that cluster, group mixing several clusters is scored by how few of its members share the newcomer dominant cluster.
+     * The best scoring group with spare capacity gets the newcomer, if every group is full the best scoring group is reported instead (and orphan event is emitted).
+     * @param person    Newcomer.
+     * @param groups    Formed groups (the chosen group is modified in place).
+     * @param maxSizes  Maximum size of each group. Default to the size of the largest group.
+     * @returns         Assignment of the newcomer.
+     * @throws          Error if model has not been trained, there is no group, or maximum sizes do not match the groups.
+     */
+    public assignLateJoiner(person: Person, groups: Group[], maxSizes: number[] = null): ILateJoinerAssignment {
+        if (groups.length === 0) {
+            throw new Error('There is no group to join');
+        }
+        if (maxSizes && maxSizes.length !== groups.length) {
+            throw new Error(`Got ${maxSizes.length} maximum sizes for ${groups.length} groups`);
+        }
+        const member: IMember = { person, vector: this.predict(person) };
+        const dominant = member.vector.reduce((best, v, i) => v.greaterThan(member.vector[best]) ? i : best, 0);
+        const largest = Math.max(...groups.map(group => group.members.length));
+        const score = (group: Group): number => group.clusterId === null
+            ? -group.members.filter(other => other.vector.reduce((best, v, i) => v.greaterThan(other.vector[best]) ? i : best, 0) === dominant).length
+            : member.vector[group.clusterId - 1].toNumber();
+        const ranked = groups
+            .map((group, g) => ({ group, g, score: score(group) }))
+            .sort((a, b) => b.score - a.score || a.group.members.length - b.group.members.length || a.g - b.g);
+        const open = ranked.filter(entry => entry.group.members.length < (maxSizes ? maxSizes[entry.g] : largest));
+        if (open.length === 0) {
+            this.reportOrphan(member, `No group has room for person ${person.id} (best fit: group ${ranked[0].group.id})`);
+            return { member, group: ranked[0].group, overCapacity: true };
+        }
+        open[0].group.members.push(member);
+        return { member, group: open[0].group, overCapacity: false };
+    }
+
+    /**
+     * Initiate group from current model.
+     * @param options   Formation options.
+     * @throws          Error if model has not been trained.
+     * @throws          Error if formation mode is unknown.
+     * @throws          Error if requested group sizes do not match number of groups or population size.
+     */
+    public formGroups(options: IFormationOptions = {}): Group[] {
+        return this.formGroupsWithReport(options).groups;
+    }
+
+    /**
+     * Initiate group from current model, and report constraints which could not be satisfied, membership given up to balance group sizes and repeated pairs.
+     * @param options   Formation options.
+     * @throws          Error if model has not been trained.
+     * @throws          Error if formation mode is unknown.
+     * @throws          Error if requested group sizes do not match number of groups or population size.
+     * @throws          Error if history weight is negative.
+     */
+    public formGroupsWithReport(options: IFormationOptions = {}): IFormationResult {
+        this.checkTrained('form groups');
+        const sizing = options.sizes ? GroupSizing.fromSpec(options.sizes, this._mat.length) : GroupSizing.balanced(this._mat.length, this._groupNum);
+        if (sizing.groupNum !== this._groupNum) {
+            throw new Error(`Requested group sizes give ${sizing.groupNum} groups, model has ${this._groupNum} groups`);
+        }
+        sizing.validate(this._mat.length);
+        const historyWeight = options.historyWeight !== undefined ? options.historyWeight : 1;
+        const random = this.formationRandom();
+        let groups: Group[];
+        switch (options.mode || 'homogeneous') {
+            case 'homogeneous':
+                groups = this.formHomogeneousGroups(sizing, random, options.history ? (assignment: number[]) => new RepeatPenalty(options.history, this._mat.map(row => row.person.id), assignment, this._groupNum, historyWeight) : null);
+                break;
+            case 'heterogeneous':
+                groups = new HeterogeneousFormation(this._mat, this._groupNum, random, this._constraints, sizing.targetSizes(this._mat.length), options.history || null, historyWeight).form();
+                break;
+            default:
+                throw new Error(`Unknown formation mode: ${options.mode}`);
+        }
+        const grouped = new Set<IMember>();
+        groups.forEach(group => group.members.forEach(member => grouped.add(member)));
+        this._mat
+            .filter(member => !grouped.has(member))
+            .forEach(member => this.reportOrphan(member, `Person ${member.person.id} was not put into any group`));
+        const membershipLoss = groups
+            .map(group => group.members
+                .map(member => Decimal.max(...member.vector).minus(group.membership(member)))
+                .reduce((p, c) => p.plus(c), ClusteringModel.ZERO))
+            .reduce((p, c) => p.plus(c), ClusteringModel.ZERO)
+            .toNumber();
+        const repeatedPairs = options.history ? options.history.repeatedPairs(groups) : 0;
+        if (!this._constraints) {
+            return { groups, violations: [], membershipLoss, repeatedPairs };
+        }
+        const index = new Map<IMember, number>();
+        this._mat.forEach((row, i) => index.set(row, i));
+        const assignment = new Array<number>(this._mat.length).fill(-1);
+        groups.forEach((group, g) => group.members.forEach(member => assignment[index.get(member)] = g));
+        return { groups, violations: this._constraints.violations(assignment), membershipLoss, repeatedPairs };
+    }
+
+    /**
+     * Put members sharing the same highest-membership cluster together, with group sizes within the requested bounds.
+     * Sizes are balanced by an optimal assignment (maximum total membership under the size bounds).
+     * With history, members are then swapped while the membership given up costs less than the previous teammates separated (see RepeatPenalty).
+     * With constraints, pinned and must-linked members are placed first, then remaining cannot-link violations are repaired by swapping members.
+     * @param sizing    Size bounds of each group.
+     * @param random    Random generator used to sample swap candidates on large population.
+     * @param penalty   Create the repeat penalty of an assignment (null without history).
+     * @throws          Error if model has not been trained.
+     */
+    private formHomogeneousGroups(sizing: GroupSizing, random: IRandomGenerator, penalty: (assignment: number[]) => RepeatPenalty = null): Group[] {
+        this.checkTrained('form groups');
+        const n = this._mat.length;
+        const memberships = this._mat.map(row => row.vector.map(v => v.toNumber()));
+        const assignment = new Array<number>(n).fill(-1);
+        const locked = new Array<number>(this._groupNum).fill(0);
+        if (this._constraints) {
+            this._constraints.components
+                .filter(component => !this._constraints.isFree(component[0]))
+                .forEach(component => {
+                    let group = this._constraints.pinnedGroup(component[0]);
+                    if (group < 0) {
+                        const total = memberships[0].map((_, k) => component.reduce((p, i) => p + memberships[i][k], 0));
+                        const room = total.map((_, k) => locked[k] + component.length <= sizing.maxSizes[k]);
+                        group = total.reduce((best, v, k) => best < 0 || (room[k] && !room[best]) || (room[k] === room[best] && v > total[best]) ? k : best, -1);
+                    }
+                    component.forEach(i => assignment[i] = group);
+                    locked[group] += component.length;
+                });
+        }
+
+        const free = assignment.map((group, i) => i).filter(i => assignment[i] < 0);
+        const solver = new AssignmentSolver(
+            free.map(i => memberships[i]),
+            locked.map((count, g) => Math.max(0, sizing.minSizes[g] - count)),
+            locked.map((count, g) => Math.max(0, sizing.maxSizes[g] - count)));
+        solver.solve().forEach((group, k) => assignment[free[k]] = group);
+        if (penalty) {
+            this.avoidRepeats(assignment, memberships, penalty(assignment), random);
+        }
+        if (this._constraints) {
+            this._constraints.repair(assignment, (i, g) => -memberships[i][g]);
+        }
+
+        return this._clusterCenter
+            .map(center => new Group(center.id, this.originalCenter(center), this._mat.filter((_, i) => assignment[i] === center.id - 1)))
+            .sort((a, b) => a.id - b.id);
+    }
+
+    /**
+     * Random generator of a formation call, started afresh from the model seed so that forming groups again gives the same groups.
+     * A custom generator without seed is used as is.
+     */
+    private formationRandom(): IRandomGenerator {
+        return this._random.seed !== undefined ? new SeededRandom(this._random.seed) : this._random;
+    }
+
+    /**
+     * Check every cluster center is set, which is the case once the model is trained or restored.
+     * @param action    What cannot be done on an untrained model (for the error message).
+     * @throws          Error if model has not been trained.
+     */
+    private checkTrained(action: string) {
+        if (!this.isTrained()) {
+            throw new Error(`Model must be trained before it can ${action}`);
+        }
+    }
+
+    /**
+     * Tell whether every cluster center is set (model trained or restored).
+     */
+    private isTrained(): boolean {
+        return this._clusterCenter.length > 0 && Array.from(this._clusterCenter).every(center => !!center);
+    }
+
+    /**
+     * Swap members of different groups while the membership they give up is less than the penalty of the previous teammates they leave.
+     * Only members sharing their group with previous teammates are moved. Group sizes are preserved, pinned and must-linked members are never moved.
+     * @param assignment    Group index of each member, modified in place.
+     * @param memberships   Membership of each member to each group.
+     * @param penalty       Repeat penalty tracking the assignment.
+     * @param random        Random generator used to sample swap candidates on large population.
+     */
+    private avoidRepeats(assignment: number[], memberships: number[][], penalty: RepeatPenalty, random: IRandomGenerator) {
+        const n = assignment.length;
+        const candidates = (a: number) => n <= HeterogeneousFormation.FULL_SEARCH_LIMIT
+            ? assignment.map((_, b) => b)
+            : new Array<number>(HeterogeneousFormation.SAMPLE_SIZE).fill(0).map(() => Math.floor(random.next() * n));
+        for (let pass = 0; pass < HeterogeneousFormation.MAX_PASSES; pass++) {
+            let improved = false;
+            for (let a = 0; a < n; a++) {
+                if (penalty.current(a) === 0) {
+                    continue;
+                }
+                let bestGain = 1e-12;
+                let best = -1;
+                candidates(a).forEach(b => {
+                    const ga = assignment[a];
+                    const gb = assignment[b];
+                    if (ga === gb || (this._constraints && !this._constraints.canSwap(a, b, assignment))) {
+                        return;
+                    }
+                    const gain = memberships[a][gb] + memberships[b][ga] - memberships[a][ga] - memberships[b][gb] - penalty.swapDelta(a, b);
+                    if (gain > bestGain) {
+                        bestGain = gain;
+                        best = b;
+                    }
+                });
+                if (best >= 0) {
+                    penalty.swap(a, best);
+                    [assignment[a], assignment[best]] = [assignment[best], assignment[a]];
+                    improved = true;
+                }
+            }
+            if (!improved) {
+                break;
+            }
+        }
+    }
+
+    /**
+     * Get a cluster center in original units (before preprocessing).
+     * @param center    Cluster center.
+     */
+    public originalCenter(center: ClusterCenter): Decimal[] {
+        return this._preprocessor ? this._preprocessor.inverseTransform(center.vector) : center.vector;
+    }
+
+    /**
+     * Weighted mean of the data matrix for each cluster, center = ∑ w x / ∑ w.
+     * A cluster without weight (e.g. no member left on hard clustering) is re-seeded (see DecimalBackend.reseedCenters).
+     * @param weights   Weight of each person (row) for each cluster (column), e.g. uᵐ.
+     * @returns         One center per cluster.
+     */
+    protected weightedCenters(weights: Decimal[][]): Decimal[][] {
+        const centers = new Array<Decimal[]>(this._groupNum);
+        for (let i = 0; i < this._groupNum; i++) {
+            const sum = weights.map(row => row[i]).reduce((p, c) => p.plus(c), ClusteringModel.ZERO);
+            if (sum.isZero()) {
+                continue;
+            }
+            centers[i] = this._data
+                .map((vector, k) => vector.map(v => v.times(weights[k][i])))
+                .reduce((p, c) => p.map((v, j) => v.plus(c[j])))
+                .map(v => v.div(sum));
+        }
+        return DecimalBackend.reseedCenters(this._data, centers, this._distanceMetric);
+    }
+
+    /**
+     * Fuzzy covariance matrix of each cluster, F = ∑ w (x - v)(x - v)ᵀ / ∑ w.
+     * A singular matrix (cluster lying in a subspace) gets MatrixHelper.RIDGE added to its diagonal, a cluster without weight gets identity matrix.
+     * @param weights   Weight of each person (row) for each cluster (column), e.g. uᵐ.
+     * @param centers   Cluster centers.
+     * @returns         One covariance matrix per cluster.
+     */
+    protected clusterCovariances(weights: Decimal[][], centers: Decimal[][]): Decimal[][][] {
+        return centers.map((center, i) => {
+            if (weights.every(row => row[i].isZero())) {
+                return center.map((_, r) => center.map((_, c) => r === c ? ClusteringModel.ONE : ClusteringModel.ZERO));
+            }
+            const covariance = MatrixHelper.weightedCovariance(this._data, weights.map(row => row[i]), center);
+            return MatrixHelper.determinant(covariance).greaterThan(MatrixHelper.RIDGE)
+                ? covariance
+                : covariance.map((row, r) => row.map((v, c) => r === c ? v.plus(MatrixHelper.RIDGE) : v));
+        });
+    }
+
+    /**
+     * Fuzzy memberships from squared distances, u = 1 / ∑ (dᵢ² / dⱼ²)^(1/(m-1)).
+     * A vector sitting on one or more centers gets crisp membership split among them.
+     * @param squaredDistances  Squared distance to each cluster.
+     * @returns                 Membership degree to each cluster (sum 1.0).
+     */
+    protected inverseDistanceMemberships(squaredDistances: Decimal[]): Decimal[] {
+        const zeroes = squaredDistances.filter(d => d.isZero()).length;
+        if (zeroes > 0) {
+            return squaredDistances.map(d => d.isZero() ? ClusteringModel.ONE.div(zeroes) : ClusteringModel.ZERO);
+        }
+        const exponent = ClusteringModel.ONE.div(this._mass - 1);
+        return squaredDistances.map(di => ClusteringModel.ONE.div(squaredDistances.map(dj => di.div(dj).pow(exponent)).reduce((p, c) => p.plus(c))));
+    }
+
+    /**
+     * Keep memberships consistent with constraints (if any).
+     * @param memberships   Partition matrix, modified in place.
+     */
+    protected constrain(memberships: Decimal[][]) {
+        if (this._constraints) {
+            this._constraints.applyToMemberships(memberships);
+        }
+    }
+
+    /**
+     * Check that the model runs on the decimal backend (only FuzzyCMeans runs on the other backends).
+     * @throws  Error if another backend is set.
+     */
+    protected requireDecimalBackend() {
+        if (this._backend.name !== 'decimal') {
+            throw new Error(`The ${this.name} model only runs on the decimal backend, got ${this._backend.name}`);
+        }
+    }
+
+    /**
+     * Log and emit a member which cannot be put into any group.
+     * @param member    Orphan member.
+     * @param message   Why the member was left out.
+     */
+    private reportOrphan(member: IMember, message: string) {
+        this._logger.warn(message);
+        this.emit(ClusteringModel.EVENTS.ORPHAN, { member, message } as IOrphanEvent);
+    }
+
+    /**
+     * Apply constraints (if any) to current partition matrix.
+     */
+    private applyConstraints() {
+        if (this._constraints) {
+            const vectors = this._mat.map(row => row.vector);
+            this._constraints.applyToMemberships(vectors);
+            vectors.forEach((vector, i) => this._mat[i].vector = vector);
+        }
+    }
+
+    /**
+     * [DEBUG ONLY] Print formatted partition matrix
+     */
+    public showPartitionMatrix() {
+        const memberFunction = (member: IMember): string => {
+            let maxId = 0;
+            let maxValue = ClusteringModel.ZERO;
+            member.vector.forEach((v, i) => {
+                if (maxValue.lessThan(v)) {
+                    maxValue = v;
+                    maxId = i;
+                }
+            });
+            return [member.person.id.toString().padStart(2).padEnd(8), member.vector.map((v, i) => i === maxId ? `[ ${v.toString()} ]`.padEnd(32) : v.toString().padEnd(32)).join(' ')].join(' ');
+        };
+        console.log('Partition Matrix', this._mat.map(row => memberFunction(row)));
+    }
+}
@@ -0,0 +1,46 @@
+﻿import Decimal from "decimal.js";
+import { IClusteringOptions } from "../interfaces";
+import { Person } from "./Person";
+import { ClusteringModel } from "./ClusteringModel";
+import { FuzzyCMeans } from "./FuzzyCMeans";
+import { KMeans } from "./KMeans";
+import { PossibilisticCMeans } from "./PossibilisticCMeans";
+import { GustafsonKessel } from "./GustafsonKessel";
+import { GathGeva } from "./GathGeva";
+
+/**
+ * Create clustering model by its algorithm name.
+ */
+export class ClusteringModelFactory {
+    /**
+     * Available algorithm names: fcm (fuzzy c-means), kmeans (hard k-means), pcm (possibilistic c-means), gk (Gustafson-Kessel) and gg (Gath-Geva).
+     */
+    public static NAMES = ['fcm', 'kmeans', 'pcm', 'gk', 'gg'];
+
+    /**
+     * Create clustering model.
+     * @param name              Algorithm name (see NAMES).
+     * @param population        The population to process.
+     * @param groupNum          Number of desired groups.
+     * @param initialVectors    Initial partition matrix (if set). Set null to use initialization options.
+     * @param options           Additional model options.
+     * @returns                 Untrained model.
+     * @throws                  Error if algorithm name is unknown, or the model cannot be set up (see ClusteringModel constructor).
+     */
+    public static create(name: string, population: Person[], groupNum: number, initialVectors: Decimal[][] = null, options: IClusteringOptions = {}): ClusteringModel {
+        switch (name) {
+            case 'fcm':
+                return new FuzzyCMeans(population, groupNum, initialVectors, options);
+            case 'kmeans':
+                return new KMeans(population, groupNum, initialVectors, options);
+            case 'pcm':
+                return new PossibilisticCMeans(population, groupNum, initialVectors, options);
+            case 'gk':
+                return new GustafsonKessel(population, groupNum, initialVectors, options);
+            case 'gg':
+                return new GathGeva(population, groupNum, initialVectors, options);
+            default:
+                throw new Error(`Unknown clustering algorithm: ${name} (available: ${ClusteringModelFactory.NAMES.join(', ')})`);
+        }
+    }
+}
@@ -0,0 +1,27 @@
+﻿import { writeFileSync } from "fs";
+import { ICommand, ICommandOption, ICommandArguments } from "../interfaces";
+
+/**
+ * Base class of command-line sub-command.
+ */
+export abstract class Command implements ICommand {
+    public abstract get name(): string;
+    public abstract get description(): string;
+    public abstract get options(): ICommandOption[];
+
+    public abstract run(args: ICommandArguments): Promise<number>;
+
+    /**
+     * Write command result into --output file (if set) or standard output.
+     * @param args      Parsed arguments.
+     * @param content   Content to write.
+     */
+    protected write(args: ICommandArguments, content: string) {
+        const text = content.endsWith('\n') ? content : `${content}\n`;
+        if (args['output']) {
+            writeFileSync(args['output'] as string, text);
+        } else {
+            process.stdout.write(text);
+        }
+    }
+}
@@ -0,0 +1,108 @@
+﻿import { ICommand } from "../interfaces";
+import { ArgumentParser } from "./ArgumentParser";
+import { UsageError } from "./UsageError";
+
+/**
+ * Command-line entry point: dispatch arguments to sub-command and translate result/error into exit code.
+ */
+export class CommandLine {
+    /**
+     * Exit code on success.
+     */
+    public static EXIT_SUCCESS = 0;
+    /**
+     * Exit code when the command failed at runtime (unreadable file, invalid dataset, ...).
+     */
+    public static EXIT_FAILURE = 1;
+    /**
+     * Exit code when the command line is invalid.
+     */
+    public static EXIT_USAGE = 2;
+
+    private _programName: string;
+    private _version: string;
+    private _commands: ICommand[];
+
+    get commands(): ICommand[] {
+        return this._commands;
+    }
+
+    /**
+     * Construct a new command line.
+     * @param programName   Program name shown on help.
+     * @param version       Program version shown by --version.
+     * @param commands      Available sub-commands.
+     */
+    public constructor(programName: string, version: string, commands: ICommand[]) {
+        this._programName = programName;
+        this._version = version;
+        this._commands = commands;
+    }
+
+    /**
+     * Get general help text.
+     */
+    public help(): string {
+        const width = Math.max(...this._commands.map(command => command.name.length)) + 2;
+        return [
+            `Usage: ${this._programName} <command> [options]`,
+            '',
+            'Commands:',
+            ...this._commands.map(command => `  ${command.name.padEnd(width)}${command.description}`),
+            '',
+            `Run "${this._programName} <command> --help" for command options.`,
+        ].join('\n');
+    }
+
+    /**
+     * Get help text of a command.
+     * @param command   Sub-command.
+     */
+    public commandHelp(command: ICommand): string {
+        return [
+            `Usage: ${this._programName} ${command.name} [options]`,
+            '',
+            command.description,
+            '',
+            'Options:',
+            ArgumentParser.formatOptions(command.options.concat([{ name: 'help', alias: 'h', description: 'Show this help', type: 'boolean' }])),
+        ].join('\n');
+    }
+
+    /**
+     * Run command line.
+     * @param argv  Arguments (without node executable and script).
+     * @returns     Promise of exit code.
+     */
+    public async run(argv: string[]): Promise<number> {
+        const [commandName, ...rest] = argv;
+        if (commandName === undefined || commandName === '--help' || commandName === '-h' || commandName === 'help') {
+            const command = commandName === 'help' && rest.length > 0 ? this._commands.find(c => c.name === rest[0]) : null;
+            (commandName === undefined ? console.error : console.log)(command ? this.commandHelp(command) : this.help());
+            return commandName === undefined ? CommandLine.EXIT_USAGE : CommandLine.EXIT_SUCCESS;
+        }
+        if (commandName === '--version' || commandName === '-V') {
+            console.log(this._version);
+            return CommandLine.EXIT_SUCCESS;
+        }
+        const command = this._commands.find(c => c.name === commandName);
+        if (!command) {
+            console.error(`${this._programName}: unknown command "${commandName}"\n\n${this.help()}`);
+            return CommandLine.EXIT_USAGE;
+        }
+        if (rest.indexOf('--help') >= 0 || rest.indexOf('-h') >= 0) {
+            console.log(this.commandHelp(command));
+            return CommandLine.EXIT_SUCCESS;
+        }
+        try {
+            return await command.run(ArgumentParser.parse(rest, command.options));
+        } catch (error) {
+            if (error instanceof UsageError) {
+                console.error(`${this._programName} ${command.name}: ${error.message}\nRun "${this._programName} ${command.name} --help" for usage.`);
+                return CommandLine.EXIT_USAGE;
+            }
+            console.error(`${this._programName} ${command.name}: ${error instanceof Error ? error.message : error}`);
+            return CommandLine.EXIT_FAILURE;
+        }
+    }
+}
@@ -0,0 +1,104 @@
+﻿import { ICommandOption, ICommandArguments, IPersonStability } from "../interfaces";
+import { ModelCommand } from "./ModelCommand";
+import { UsageError } from "./UsageError";
+
+/**
+ * Train several models from different seeds, keep the grouping most runs agree with and report how stable each placement is.
+ */
+export class ConsensusCommand extends ModelCommand {
+    public static FORMATS = ['text', 'csv', 'json'];
+
+    get name(): string {
+        return 'consensus';
+    }
+
+    get description(): string {
+        return 'Form groups agreed by several models and report placement stability';
+    }
+
+    get options(): ICommandOption[] {
+        const defaults: { [name: string]: string | number } = { 'restarts': 10, 'select-by': 'consensus' };
+        return ModelCommand.MODEL_OPTIONS
+            .filter(option => ['init', 'init-centers'].indexOf(option.name) < 0)
+            .map(option => defaults[option.name] !== undefined ? { ...option, defaultValue: defaults[option.name] } : option)
+            .concat(ModelCommand.FORMATION_OPTIONS, [
+                { name: 'format', alias: 'f', description: `Output format (${ConsensusCommand.FORMATS.join(', ')})`, type: 'string', defaultValue: 'text' },
+                { name: 'threshold', description: 'Placements less stable than this are listed as unstable (0 to 1)', type: 'number', defaultValue: 0.5 },
+            ]);
+    }
+
+    public async run(args: ICommandArguments): Promise<number> {
+        if (ConsensusCommand.FORMATS.indexOf(args['format'] as string) < 0) {
+            throw new UsageError(`Unknown output format: ${args['format']}`);
+        }
+        const threshold = args['threshold'] as number;
+        if (!(threshold >= 0 && threshold <= 1)) {
+            throw new UsageError('--threshold must be between 0 and 1');
+        }
+        if (!((args['restarts'] as number) >= 2)) {
+            throw new UsageError('--restarts must be at least 2 to compare runs');
+        }
+        const { multiStart } = await this.train(args);
+        const selected = multiStart.select(args['select-by'] as string);
+        const scores = multiStart.scores(args['select-by'] as string);
+        const stability = multiStart.stability(selected);
+        const byPerson = new Map<number, IPersonStability>();
+        stability.forEach(entry => byPerson.set(entry.person.id, entry));
+        const average = (values: number[]) => values.length > 0 ? values.reduce((p, c) => p + c, 0) / values.length : 0;
+        const groups = selected.groups.map(group => ({
+            id: group.id,
+            stability: average(group.members.map(member => byPerson.get(member.person.id).stability)),
+            members: group.members.map(member => byPerson.get(member.person.id)),
+        }));
+        const averageStability = average(stability.map(entry => entry.stability));
+        const unstable = stability.filter(entry => entry.stability < threshold).sort((a, b) => a.stability - b.stability);
+        switch (args['format']) {
+            case 'json':
+                this.write(args, JSON.stringify({
+                    runs: multiStart.runs.map((run, i) => ({
+                        run: run.run,
+                        seed: run.seed,
+                        objectiveValue: run.training.objectiveValue.toNumber(),
+                        iterations: run.training.iterations,
+                        stopReason: run.training.stopReason,
+                        score: scores[i],
+                    })),
+                    selectBy: args['select-by'],
+                    selectedRun: selected.run,
+                    averageStability,
+                    groups: groups.map(group => ({
+                        id: group.id,
+                        stability: group.stability,
+                        members: group.members.map(entry => ({ id: entry.person.id, name: entry.person.name, stability: entry.stability })),
+                    })),
+                    unstable: unstable.map(entry => ({ id: entry.person.id, name: entry.person.name, groupId: entry.groupId, stability: entry.stability })),
+                }, null, 2));
+                break;
+            case 'csv': {
+                const escape = (value: string | number): string => {
+                    const text = String(value);
+                    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+                };
+                const rows: (string | number)[][] = [['PersonId', 'Name', 'GroupId', 'Stability']];
+                stability.forEach(entry => rows.push([entry.person.id, entry.person.name, entry.groupId, entry.stability]));
+                this.write(args, rows.map(row => row.map(escape).join(',')).join('\n') + '\n');
+                break;
+            }
+            default:
+                this.write(args, [
+                    `Runs:                ${multiStart.runs.length} (selected by ${args['select-by']})`,
+                    `Selected run:        ${selected.run} (seed ${selected.seed}, objective value ${selected.training.objectiveValue.toNumber()})`,
+                    `Average stability:   ${averageStability.toFixed(4)}`,
+                    '',
+                    ...groups.map(group => [
+                        `Group ${group.id} (${group.members.length} members, stability ${group.stability.toFixed(4)})`,
+                        ...group.members.map(entry => `  - ${entry.person.id.toString().padStart(4)}  ${entry.person.name} (stability: ${entry.stability.toFixed(4)})`),
+                        '',
+                    ].join('\n')),
+                    `Unstable placements (stability below ${threshold}): ${unstable.length}`,
+                    ...unstable.map(entry => `  - ${entry.person.id.toString().padStart(4)}  ${entry.person.name} in ${entry.groupId > 0 ? `group ${entry.groupId}` : 'no group'} (stability: ${entry.stability.toFixed(4)})`),
+                ].join('\n'));
+        }
+        return 0;
+    }
+}
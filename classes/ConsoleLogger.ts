@@ -0,0 +1,54 @@
+﻿import { ILogger } from "../interfaces";
+
+/**
+ * Logger writing messages from a minimum level to standard error (standard output is left for command results).
+ */
+export class ConsoleLogger implements ILogger {
+    /**
+     * Available levels, from the most verbose.
+     */
+    public static LEVELS = ['debug', 'info', 'warn', 'error'];
+
+    private _level: number;
+
+    /**
+     * Get minimum level written.
+     */
+    get level(): string {
+        return ConsoleLogger.LEVELS[this._level];
+    }
+
+    /**
+     * Construct a new console logger.
+     * @param level Minimum level written (see LEVELS). Default to info.
+     * @throws      Error if level is unknown.
+     */
+    public constructor(level: string = 'info') {
+        this._level = ConsoleLogger.LEVELS.indexOf(level);
+        if (this._level < 0) {
+            throw new Error(`Unknown log level: ${level} (available: ${ConsoleLogger.LEVELS.join(', ')})`);
+        }
+    }
+
+    public debug(message: string, ...meta: any[]) {
+        this.write(0, message, meta);
+    }
+
+    public info(message: string, ...meta: any[]) {
+        this.write(1, message, meta);
+    }
+
+    public warn(message: string, ...meta: any[]) {
+        this.write(2, `Warning: ${message}`, meta);
+    }
+
+    public error(message: string, ...meta: any[]) {
+        this.write(3, `Error: ${message}`, meta);
+    }
+
+    private write(level: number, message: string, meta: any[]) {
+        if (level >= this._level) {
+            console.error(message, ...meta);
+        }
+    }
+}
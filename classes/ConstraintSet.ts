@@ -0,0 +1,327 @@
+﻿import { readFileSync } from "fs";
+import Decimal from "decimal.js";
+import { IGroupConstraints, IConstraintViolation } from "../interfaces";
+import { Person } from "./Person";
+
+/**
+ * Must-link, cannot-link and pinned-assignment constraints, resolved against a population.
+ * Every method works on person index (position in the population) and group index (group id - 1).
+ */
+export class ConstraintSet {
+    private static ZERO = new Decimal(0);
+    private static ONE = new Decimal(1);
+
+    private _population: Person[];
+    private _groupNum: number;
+    private _mustLink: [number, number][];
+    private _cannotLink: [number, number][];
+    private _pins: number[]; // group index, -1 if not pinned
+    private _mustLinkOf: number[][]; // must-linked partners of each person
+    private _cannotLinkOf: number[][]; // cannot-linked partners of each person
+    private _component: number[]; // must-link component id of each person
+    private _components: number[][];
+
+    /**
+     * Get must-link components (each component is a list of person index, singletons included).
+     */
+    get components(): number[][] {
+        return this._components;
+    }
+
+    /**
+     * Whether there is no constraint at all.
+     */
+    get isEmpty(): boolean {
+        return this._mustLink.length === 0 && this._cannotLink.length === 0 && this._pins.every(pin => pin < 0);
+    }
+
+    /**
+     * Construct a new constraint set.
+     * @param constraints   Constraints keyed by person id.
+     * @param population    Population the constraints refer to.
+     * @param groupNum      Number of groups.
+     * @throws              Error if a constraint refers to an unknown person id or group id, or links a person with itself.
+     */
+    public constructor(constraints: IGroupConstraints, population: Person[], groupNum: number) {
+        this._population = population;
+        this._groupNum = groupNum;
+        const indexOf = new Map<number, number>();
+        population.forEach((person, i) => indexOf.set(person.id, i));
+        const resolve = (id: number): number => {
+            if (!indexOf.has(id)) {
+                throw new Error(`Constraint refers to unknown person id: ${id}`);
+            }
+            return indexOf.get(id);
+        };
+        const resolvePair = (pair: [number, number], type: string): [number, number] => {
+            if (pair[0] === pair[1]) {
+                throw new Error(`${type} constraint links person ${pair[0]} with itself`);
+            }
+            return [resolve(pair[0]), resolve(pair[1])];
+        };
+        this._mustLink = (constraints.mustLink || []).map(pair => resolvePair(pair, 'Must-link'));
+        this._cannotLink = (constraints.cannotLink || []).map(pair => resolvePair(pair, 'Cannot-link'));
+        this._pins = population.map(() => -1);
+        Object.entries(constraints.pins || {}).forEach(([key, groupId]) => {
+            if (!Number.isInteger(groupId) || groupId < 1 || groupId > groupNum) {
+                throw new Error(`Person ${key} is pinned to group ${groupId}, but group id must be between 1 and ${groupNum}`);
+            }
+            this._pins[resolve(Number(key))] = groupId - 1;
+        });
+        this._mustLinkOf = population.map(() => new Array<number>());
+        this._mustLink.forEach(([a, b]) => {
+            this._mustLinkOf[a].push(b);
+            this._mustLinkOf[b].push(a);
+        });
+        this._cannotLinkOf = population.map(() => new Array<number>());
+        this._cannotLink.forEach(([a, b]) => {
+            this._cannotLinkOf[a].push(b);
+            this._cannotLinkOf[b].push(a);
+        });
+
+        // Union-find over must-link pairs
+        const parent = population.map((_, i) => i);
+        const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+        this._mustLink.forEach(([a, b]) => parent[find(a)] = find(b));
+        const roots = new Map<number, number>();
+        this._components = new Array<number[]>();
+        this._component = population.map((_, i) => {
+            const root = find(i);
+            if (!roots.has(root)) {
+                roots.set(root, this._components.length);
+                this._components.push([]);
+            }
+            this._components[roots.get(root)].push(i);
+            return roots.get(root);
+        });
+    }
+
+    /**
+     * Read constraints from JSON file, e.g. { "mustLink": [[1, 2]], "cannotLink": [[3, 4]], "pins": { "5": 1 } }.
+     * @param path  File path.
+     * @returns     Constraints keyed by person id.
+     * @throws      Error if the file is not a valid constraint document.
+     */
+    public static fromFile(path: string): IGroupConstraints {
+        return ConstraintSet.fromJSON(JSON.parse(readFileSync(path, 'utf8').replace(/^\uFEFF/, '')), path);
+    }
+
+    /**
+     * Check shape of a parsed constraint document.
+     * @param document  Parsed constraint document.
+     * @param source    Document name used on error message.
+     * @returns         Constraints keyed by person id.
+     * @throws          Error if the document is not a valid constraint document.
+     */
+    public static fromJSON(document: any, source: string = 'constraints'): IGroupConstraints {
+        const isPairList = (value: any) => value === undefined
+            || (Array.isArray(value) && value.every(pair => Array.isArray(pair) && pair.length === 2 && pair.every(id => typeof id === 'number')));
+        if (document === null || typeof document !== 'object' || Array.isArray(document)) {
+            throw new Error(`Constraints in ${source} must be an object`);
+        }
+        if (!isPairList(document.mustLink) || !isPairList(document.cannotLink)) {
+            throw new Error(`mustLink and cannotLink in ${source} must be arrays of [personId, personId] pairs`);
+        }
+        if (document.pins !== undefined && (document.pins === null || typeof document.pins !== 'object' || Array.isArray(document.pins))) {
+            throw new Error(`pins in ${source} must be an object of personId: groupId`);
+        }
+        return { mustLink: document.mustLink, cannotLink: document.cannotLink, pins: document.pins };
+    }
+
+    /**
+     * Get pinned group index of a person, or of its must-link component (-1 if not pinned).
+     * @param index Person index.
+     */
+    public pinnedGroup(index: number): number {
+        const pinned = this._components[this._component[index]].map(i => this._pins[i]).filter(pin => pin >= 0);
+        return pinned.length > 0 ? pinned[0] : -1;
+    }
+
+    /**
+     * Whether person can be freely moved by balancing (not pinned and not must-linked to anyone).
+     * @param index Person index.
+     */
+    public isFree(index: number): boolean {
+        return this._pins[index] < 0 && this._components[this._component[index]].length === 1 && this.pinnedGroup(index) < 0;
+    }
+
+    /**
+     * Get persons which must not share a group with given person.
+     * @param index Person index.
+     */
+    public cannotLinkOf(index: number): number[] {
+        return this._cannotLinkOf[index];
+    }
+
+    /**
+     * Whether two persons of different groups may be swapped without breaking a constraint (both are free, and neither joins a person it is cannot-linked with).
+     * @param a             First person index.
+     * @param b             Second person index.
+     * @param assignment    Group index of each person.
+     */
+    public canSwap(a: number, b: number, assignment: number[]): boolean {
+        if (!this.isFree(a) || !this.isFree(b)) {
+            return false;
+        }
+        return this.cannotLinkOf(a).every(j => j === b || assignment[j] !== assignment[b])
+            && this.cannotLinkOf(b).every(j => j === a || assignment[j] !== assignment[a]);
+    }
+
+    /**
+     * Apply constraints to membership vectors (partition matrix rows), in place:
+     * must-linked persons share their average membership, pinned persons get crisp membership,
+     * and of two cannot-linked persons sharing the same dominant cluster, the weaker one loses its membership to that cluster.
+     * @param vectors   Membership vectors, one per person.
+     */
+    public applyToMemberships(vectors: Decimal[][]) {
+        this._components.filter(component => component.length > 1).forEach(component => {
+            const average = component
+                .map(i => vectors[i])
+                .reduce((p, c) => p.map((v, k) => v.plus(c[k])))
+                .map(v => v.div(component.length));
+            component.forEach(i => vectors[i] = average.slice());
+        });
+        vectors.forEach((vector, i) => {
+            const pin = this.pinnedGroup(i);
+            if (pin >= 0) {
+                vectors[i] = vector.map((_, k) => k === pin ? ConstraintSet.ONE : ConstraintSet.ZERO);
+            }
+        });
+        this._cannotLink.forEach(([a, b]) => {
+            const clusterA = this.argMax(vectors[a]);
+            if (clusterA !== this.argMax(vectors[b]) || vectors.length === 0 || this._groupNum < 2) {
+                return;
+            }
+            // Keep the pinned (or stronger) one, push the other away from the shared cluster
+            let weaker = vectors[a][clusterA].lessThan(vectors[b][clusterA]) ? a : b;
+            if (this.pinnedGroup(weaker) >= 0) {
+                weaker = weaker === a ? b : a;
+            }
+            if (this.pinnedGroup(weaker) >= 0) {
+                return;
+            }
+            const reduced = vectors[weaker].map((v, k) => k === clusterA ? ConstraintSet.ZERO : v);
+            const sum = reduced.reduce((p, c) => p.plus(c));
+            vectors[weaker] = sum.isZero()
+                ? reduced.map((_, k) => k === clusterA ? ConstraintSet.ZERO : ConstraintSet.ONE.div(this._groupNum - 1))
+                : reduced.map(v => v.div(sum));
+        });
+    }
+
+    /**
+     * List violated constraints.
+     * @param assignment    Group index of each person (-1 if unassigned).
+     * @returns             Violations.
+     */
+    public violations(assignment: number[]): IConstraintViolation[] {
+        const id = (i: number) => this._population[i].id;
+        const result = new Array<IConstraintViolation>();
+        this._pins.forEach((pin, i) => {
+            if (pin >= 0 && assignment[i] !== pin) {
+                result.push({ type: 'pin', personIds: [id(i)], message: `Person ${id(i)} is pinned to group ${pin + 1} but placed in group ${assignment[i] + 1}` });
+            }
+        });
+        this._mustLink.forEach(([a, b]) => {
+            if (assignment[a] !== assignment[b]) {
+                result.push({ type: 'must-link', personIds: [id(a), id(b)], message: `Persons ${id(a)} and ${id(b)} must be together but are in groups ${assignment[a] + 1} and ${assignment[b] + 1}` });
+            }
+        });
+        this._cannotLink.forEach(([a, b]) => {
+            if (assignment[a] === assignment[b] && assignment[a] >= 0) {
+                result.push({ type: 'cannot-link', personIds: [id(a), id(b)], message: `Persons ${id(a)} and ${id(b)} must not be together but are both in group ${assignment[a] + 1}` });
+            }
+        });
+        return result;
+    }
+
+    /**
+     * Repair violations by swapping persons between groups (group sizes are preserved).
+     * Among the swaps that reduce the number of violations, the one with the lowest cost is applied, until no swap helps.
+     * A swap is scored by the change in violations around the two swapped persons only, and the violation count is kept up to date from it.
+     * @param assignment    Group index of each person, modified in place.
+     * @param cost          Cost of placing a person in a group (e.g. negative membership).
+     */
+    public repair(assignment: number[], cost: (index: number, group: number) => number) {
+        let violationCount = this.violations(assignment).length;
+        const maxSwaps = assignment.length;
+        for (let swaps = 0; swaps < maxSwaps && violationCount > 0; swaps++) {
+            let best: { a: number, b: number, count: number, cost: number } = null;
+            this.involved(assignment).forEach(a => {
+                assignment.forEach((groupB, b) => {
+                    const groupA = assignment[a];
+                    if (groupA === groupB || groupA < 0 || groupB < 0) {
+                        return;
+                    }
+                    const count = violationCount + this.swapDelta(a, b, assignment);
+                    const delta = cost(a, groupB) + cost(b, groupA) - cost(a, groupA) - cost(b, groupB);
+                    if (count < violationCount && (best === null || count < best.count || (count === best.count && delta < best.cost))) {
+                        best = { a, b, count, cost: delta };
+                    }
+                });
+            });
+            if (best === null) {
+                break;
+            }
+            [assignment[best.a], assignment[best.b]] = [assignment[best.b], assignment[best.a]];
+            violationCount = best.count;
+        }
+    }
+
+    /**
+     * Get persons involved in a violated constraint, in the order violations lists them.
+     * @param assignment    Group index of each person (-1 if unassigned).
+     */
+    private involved(assignment: number[]): Set<number> {
+        const involved = new Set<number>();
+        this._pins.forEach((pin, i) => {
+            if (pin >= 0 && assignment[i] !== pin) {
+                involved.add(i);
+            }
+        });
+        this._mustLink.forEach(([a, b]) => {
+            if (assignment[a] !== assignment[b]) {
+                involved.add(a).add(b);
+            }
+        });
+        this._cannotLink.forEach(([a, b]) => {
+            if (assignment[a] === assignment[b] && assignment[a] >= 0) {
+                involved.add(a).add(b);
+            }
+        });
+        return involved;
+    }
+
+    /**
+     * Change in the number of violations if two persons swapped groups.
+     * @param a             First person index.
+     * @param b             Second person index.
+     * @param assignment    Group index of each person (not modified).
+     */
+    private swapDelta(a: number, b: number, assignment: number[]): number {
+        const groupA = assignment[a];
+        const groupB = assignment[b];
+        const before = (i: number) => assignment[i];
+        const after = (i: number) => i === a ? groupB : i === b ? groupA : assignment[i];
+        // Constraints between a and b are seen from both sides, so they are counted once
+        const around = (groupOf: (i: number) => number) => this.violationsOf(a, groupOf) + this.violationsOf(b, groupOf) - this.violationsOf(a, groupOf, b);
+        return around(after) - around(before);
+    }
+
+    /**
+     * Count violated constraints of a person.
+     * @param index     Person index.
+     * @param groupOf   Group index of each person (-1 if unassigned).
+     * @param partner   Only count constraints linking the person with this partner (if set).
+     */
+    private violationsOf(index: number, groupOf: (i: number) => number, partner: number = -1): number {
+        const group = groupOf(index);
+        let count = partner < 0 && this._pins[index] >= 0 && group !== this._pins[index] ? 1 : 0;
+        this._mustLinkOf[index].forEach(j => count += (partner < 0 || j === partner) && group !== groupOf(j) ? 1 : 0);
+        this._cannotLinkOf[index].forEach(j => count += (partner < 0 || j === partner) && group >= 0 && group === groupOf(j) ? 1 : 0);
+        return count;
+    }
+
+    private argMax(vector: Decimal[]): number {
+        return vector.reduce((best, v, i) => v.greaterThan(vector[best]) ? i : best, 0);
+    }
+}
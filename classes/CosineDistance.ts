@@ -0,0 +1,38 @@
+﻿import Decimal from "decimal.js";
+import { DistanceMetric } from "./DistanceMetric";
+
+/**
+ * Cosine distance (1 - cosine similarity). Zero vector is treated as orthogonal to everything.
+ */
+export class CosineDistance extends DistanceMetric {
+    get name(): string {
+        return 'cosine';
+    }
+
+    public distance(leftVector: Decimal[], rightVector: Decimal[]): Decimal {
+        this.assertSameLength(leftVector, rightVector);
+        let dot = leftVector.map((v, i) => v.times(rightVector[i])).reduce((p, c) => p.plus(c));
+        let leftNorm = Decimal.sqrt(leftVector.map(v => v.pow(2)).reduce((p, c) => p.plus(c)));
+        let rightNorm = Decimal.sqrt(rightVector.map(v => v.pow(2)).reduce((p, c) => p.plus(c)));
+        if (leftNorm.isZero() || rightNorm.isZero()) {
+            return new Decimal(1);
+        }
+        return Decimal.max(0, new Decimal(1).minus(dot.div(leftNorm.times(rightNorm))));
+    }
+
+    public fastDistance(leftVector: ArrayLike<number>, rightVector: ArrayLike<number>): number {
+        this.assertSameLength(leftVector, rightVector);
+        let dot = 0;
+        let leftSquared = 0;
+        let rightSquared = 0;
+        for (let i = 0; i < leftVector.length; i++) {
+            dot += leftVector[i] * rightVector[i];
+            leftSquared += leftVector[i] * leftVector[i];
+            rightSquared += rightVector[i] * rightVector[i];
+        }
+        if (leftSquared === 0 || rightSquared === 0) {
+            return 1;
+        }
+        return Math.max(0, 1 - dot / (Math.sqrt(leftSquared) * Math.sqrt(rightSquared)));
+    }
+}
@@ -0,0 +1,43 @@
+﻿import { IImportIssue } from "../interfaces";
+
+/**
+ * Error caused by invalid dataset content, listing every problem found with its line number.
+ */
+export class DatasetError extends Error {
+    /**
+     * Maximum number of issues listed in error message.
+     */
+    public static MAX_LISTED = 20;
+
+    private _issues: IImportIssue[];
+
+    /**
+     * Get every problem found.
+     */
+    get issues(): IImportIssue[] {
+        return this._issues;
+    }
+
+    /**
+     * Construct a new dataset error.
+     * @param source    Dataset name (e.g. file path).
+     * @param issues    Problems found.
+     */
+    public constructor(source: string, issues: IImportIssue[]) {
+        super([
+            `Dataset ${source} has ${issues.length} invalid ${issues.length === 1 ? 'entry' : 'entries'}:`,
+            ...issues.slice(0, DatasetError.MAX_LISTED).map(issue => `  ${DatasetError.describe(issue)}`),
+            ...(issues.length > DatasetError.MAX_LISTED ? [`  ... and ${issues.length - DatasetError.MAX_LISTED} more`] : []),
+        ].join('\n'));
+        this.name = 'DatasetError';
+        this._issues = issues;
+    }
+
+    /**
+     * Describe an issue in one line.
+     * @param issue Issue to describe.
+     */
+    public static describe(issue: IImportIssue): string {
+        return `line ${issue.line}${issue.column !== null ? `, column ${issue.column}` : ''}: ${issue.message}`;
+    }
+}
@@ -0,0 +1,217 @@
+﻿import { createReadStream } from "fs";
+import { Readable, PassThrough } from "stream";
+import * as csv from 'fast-csv';
+import { IPersonScore, IImportIssue, IImportResult, IAttributeDimension } from "../interfaces";
+import { AttributeSchema } from "./AttributeSchema";
+import { Person } from "./Person";
+import { DatasetError } from "./DatasetError";
+
+/**
+ * Load population from CSV dataset according to an attribute schema.
+ * Every row is validated (expected columns, person id, dimension domain, duplicated id) before it becomes a person.
+ */
+export class DatasetLoader {
+    /**
+     * Available modes for invalid rows: strict (fail listing every problem), skip (drop invalid rows) and impute
+     * (fill invalid scores with the column median or most frequent category, drop rows with invalid or duplicated id).
+     */
+    public static MODES = ['strict', 'skip', 'impute'];
+
+    private _schema: AttributeSchema;
+    private _idColumn: string;
+    private _nameColumn: string;
+    private _mode: string;
+
+    get schema(): AttributeSchema {
+        return this._schema;
+    }
+
+    /**
+     * Get mode for invalid rows.
+     */
+    get mode(): string {
+        return this._mode;
+    }
+
+    /**
+     * Construct a new dataset loader.
+     * @param schema        Attribute schema used to read each row. Default to Felder-Silverman learning styles.
+     * @param idColumn      Column holding person id.
+     * @param nameColumn    Column holding person name.
+     * @param mode          Mode for invalid rows (see MODES). Default to strict.
+     * @throws              Error if mode is unknown.
+     */
+    public constructor(schema: AttributeSchema = AttributeSchema.FELDER_SILVERMAN, idColumn: string = 'Num', nameColumn: string = 'Name', mode: string = 'strict') {
+        if (DatasetLoader.MODES.indexOf(mode) < 0) {
+            throw new Error(`Unknown import mode: ${mode} (available: ${DatasetLoader.MODES.join(', ')})`);
+        }
+        this._schema = schema;
+        this._idColumn = idColumn;
+        this._nameColumn = nameColumn;
+        this._mode = mode;
+    }
+
+    /**
+     * Load population from CSV file.
+     * @param path  CSV file path (with header row).
+     * @returns     Promise of population.
+     * @throws      DatasetError if a column is missing, or (strict mode) a row is invalid.
+     */
+    public load(path: string): Promise<Person[]> {
+        return this.loadWithReport(path).then(result => result.population);
+    }
+
+    /**
+     * Load population from CSV file, and report the problems which were skipped or imputed.
+     * @param path  CSV file path (with header row).
+     * @returns     Promise of import result.
+     * @throws      DatasetError if a column is missing, or (strict mode) a row is invalid.
+     */
+    public loadWithReport(path: string): Promise<IImportResult> {
+        return DatasetLoader.readRecords(createReadStream(path)).then(({ records, lines }) => this.fromRecords(records, path, lines));
+    }
+
+    /**
+     * Build population from CSV content, and report the problems which were skipped or imputed.
+     * @param content   CSV content (with header row).
+     * @param source    Dataset name used on error message.
+     * @returns         Promise of import result.
+     * @throws          DatasetError if a column is missing, or (strict mode) a row is invalid.
+     */
+    public parseWithReport(content: string, source: string = 'dataset'): Promise<IImportResult> {
+        const stream = new PassThrough();
+        stream.end(content);
+        return DatasetLoader.readRecords(stream).then(({ records, lines }) => this.fromRecords(records, source, lines));
+    }
+
+    /**
+     * Build population from CSV records.
+     * @param records   Records, header first.
+     * @param source    Dataset name used on error message.
+     * @param lines     Line number each record starts on (if set). Default to one record per line.
+     * @returns         Import result.
+     * @throws          DatasetError if a column is missing, or (strict mode) a row is invalid, or (impute mode) a column has no valid value.
+     */
+    public fromRecords(records: string[][], source: string = 'dataset', lines: number[] = null): IImportResult {
+        const header = records.length > 0 ? records[0].map((column, i) => i === 0 ? column.replace(/^\uFEFF/, '').trim() : column.trim()) : [];
+        const missing = [this._idColumn].concat(this._schema.dimensions.map(d => d.column)).filter(column => header.indexOf(column) < 0);
+        if (missing.length > 0) {
+            throw new DatasetError(source, missing.map(column => ({ line: 1, column, value: null, message: 'Missing column', action: 'rejected' } as IImportIssue)));
+        }
+        const columnOf = (name: string) => header.indexOf(name);
+        const firstLine = new Map<number, number>();
+        const rows = new Array<{ line: number, id: number, name: string, values: (number | string)[] }>();
+        const issues = new Array<IImportIssue>();
+        let rowCount = 0;
+        const rowIssue = (line: number, column: string, value: string, message: string) => issues.push({ line, column, value, message, action: 'skipped' });
+
+        records.slice(1).forEach((record, r) => {
+            const line = lines ? lines[r + 1] : r + 2;
+            if (record.every(cell => cell.trim() === '')) {
+                return;
+            }
+            rowCount += 1;
+            if (record.length !== header.length) {
+                return rowIssue(line, null, null, `Expected ${header.length} columns, got ${record.length}`);
+            }
+            const rawId = record[columnOf(this._idColumn)].trim();
+            const id = Number(rawId);
+            if (rawId === '' || !Number.isInteger(id)) {
+                return rowIssue(line, this._idColumn, rawId, `Person id must be an integer: ${rawId}`);
+            }
+            const duplicated = firstLine.has(id);
+            if (duplicated) {
+                rowIssue(line, this._idColumn, rawId, `Duplicated person id ${id} (first seen on line ${firstLine.get(id)})`);
+            } else {
+                firstLine.set(id, line);
+            }
+            const values = this._schema.dimensions.map(d => {
+                const raw = record[columnOf(d.column)];
+                try {
+                    return this._schema.parseValue(d, raw);
+                } catch (error) {
+                    issues.push({ line, column: d.column, value: raw, message: error.message, action: this._mode === 'impute' && !duplicated ? 'imputed' : 'skipped' });
+                    return null;
+                }
+            });
+            if (duplicated) {
+                return;
+            }
+            const name = columnOf(this._nameColumn) >= 0 ? record[columnOf(this._nameColumn)] : undefined;
+            rows.push({ line, id, name, values });
+        });
+
+        if (this._mode === 'strict' && issues.length > 0) {
+            throw new DatasetError(source, issues.map(issue => ({ ...issue, action: 'rejected' } as IImportIssue)));
+        }
+        let usable = rows;
+        let imputed = 0;
+        if (this._mode === 'impute') {
+            const fill = this._schema.dimensions.map((d, k) => this.imputedValue(d, rows.map(row => row.values[k]).filter(v => v !== null)));
+            const empty = this._schema.dimensions.filter((d, k) => fill[k] === null && rows.some(row => row.values[k] === null));
+            if (empty.length > 0) {
+                throw new DatasetError(source, empty.map(d => ({ line: 1, column: d.column, value: null, message: 'No valid value to impute from', action: 'rejected' } as IImportIssue)));
+            }
+            rows.forEach(row => row.values.forEach((v, k) => {
+                if (v === null) {
+                    row.values[k] = fill[k];
+                    imputed += 1;
+                }
+            }));
+            issues.filter(issue => issue.action === 'imputed').forEach(issue => {
+                const k = this._schema.dimensions.findIndex(d => d.column === issue.column);
+                issue.message = `${issue.message} (imputed ${fill[k]})`;
+            });
+        } else {
+            usable = rows.filter(row => row.values.every(v => v !== null));
+        }
+
+        const population = usable.map(row => new Person(row.id, row.name, this._schema.dimensions.reduce((p, d, k) => {
+            p[d.name] = row.values[k];
+            return p;
+        }, {} as IPersonScore), this._schema));
+        return { population, lines: usable.map(row => row.line), issues, skipped: rowCount - population.length, imputed };
+    }
+
+    /**
+     * Read every CSV record of a stream, with the line number each record starts on (a quoted value may span several lines).
+     * @param stream    Readable stream of CSV content.
+     * @returns         Promise of records, header first, and of their line numbers.
+     */
+    public static readRecords(stream: Readable): Promise<{ records: string[][], lines: number[] }> {
+        return new Promise<{ records: string[][], lines: number[] }>((resolve, reject) => {
+            const records = new Array<string[]>();
+            const lines = new Array<number>();
+            let line = 1;
+            stream
+                .on('error', error => reject(error))
+                .pipe(csv.parse({ headers: false }))
+                .on('error', error => reject(error))
+                .on('data', (record: string[]) => {
+                    records.push(record);
+                    lines.push(line);
+                    line += 1 + record.reduce((p, cell) => p + (cell.match(/\r\n|\r|\n/g) || []).length, 0);
+                })
+                .on('end', () => resolve({ records, lines }));
+        });
+    }
+
+    /**
+     * Value used to fill an invalid score: median (lower middle, so it stays on the dimension scale) of a numeric dimension,
+     * most frequent category (first listed on tie) of a categorical dimension.
+     * @param dimension Dimension to impute.
+     * @param values    Valid values of the dimension.
+     * @returns         Imputed value, or null if there is no valid value.
+     */
+    private imputedValue(dimension: IAttributeDimension, values: (number | string)[]): number | string {
+        if (values.length === 0) {
+            return null;
+        }
+        if (this._schema.isCategorical(dimension)) {
+            const counts = dimension.categories.map(category => values.filter(v => v === category).length);
+            return dimension.categories[counts.indexOf(Math.max(...counts))];
+        }
+        const sorted = (values as number[]).slice().sort((a, b) => a - b);
+        return sorted[Math.floor((sorted.length - 1) / 2)];
+    }
+}
@@ -0,0 +1,119 @@
+﻿import Decimal from "decimal.js";
+import { INumericBackend, IDistanceMetric } from "../interfaces";
+
+/**
+ * High-precision numeric backend, every value is a Decimal. Default backend of FCM model.
+ */
+export class DecimalBackend implements INumericBackend {
+    private static ZERO = new Decimal(0);
+    private static ONE = new Decimal(1);
+
+    private _data: Decimal[][];
+    private _memberships: Decimal[][];
+    private _centers: Decimal[][];
+    private _distanceMetric: IDistanceMetric;
+
+    get name(): string {
+        return 'decimal';
+    }
+
+    public load(data: Decimal[][], memberships: Decimal[][], distanceMetric: IDistanceMetric) {
+        this._data = data;
+        this._memberships = memberships.map(row => row.slice());
+        this._centers = new Array<Decimal[]>(memberships.length > 0 ? memberships[0].length : 0);
+        this._distanceMetric = distanceMetric;
+    }
+
+    public updateCenters(mass: number) {
+        for (let i = 0; i < this._centers.length; i++) {
+            let sumUPowered = this._memberships.map(row => row[i].pow(mass)).reduce((p, c) => p.plus(c));
+            // Extension: a cluster whose memberships collapsed to zero has no center, it is re-seeded below
+            this._centers[i] = sumUPowered.isZero() ? undefined : this._data
+                .map((vector, k) => vector.map(v => v.times(this._memberships[k][i].pow(mass))))
+                .reduce((p, c) => p === null ? c : p.map((v, i) => v.plus(c[i])), null)
+                .map(v => v.div(sumUPowered));
+        }
+        this._centers = DecimalBackend.reseedCenters(this._data, this._centers, this._distanceMetric);
+    }
+
+    public updateMemberships(mass: number) {
+        let distanceMatrix = this._centers
+            .map(center => this._data
+                .map(vector => this._distanceMetric.distance(center, vector))
+            );
+        for (let i = 0; i < this._memberships.length; i++) {
+            // Extension: a person sitting on one or more centers gets crisp membership split among them (d⁻ⁿ would be infinite)
+            let zeroes = distanceMatrix.filter(row => row[i].isZero()).length;
+            if (zeroes > 0) {
+                this._memberships[i] = distanceMatrix.map(row => row[i].isZero() ? DecimalBackend.ONE.div(zeroes) : DecimalBackend.ZERO);
+                continue;
+            }
+            for (let j = 0; j < this._memberships[i].length; j++) {
+                this._memberships[i][j] = (distanceMatrix[j][i].pow(new Decimal(-2).div(mass - 1)))
+                    .div(
+                    distanceMatrix.map(row => row[i]).reduce((p, c) => p.plus(c))
+                    );
+            }
+        }
+        // Extension: ensure all values inside partition matrix U are [0, 1]
+        /*
+         * Flow:
+         * For every row in partition matrix do
+         *  sumInVector = sum of all dimension in vector
+         *  For every dimension in row.vector do
+         *      set dimension = dimension / sumInVector
+         *  End
+         * End
+         */
+        this._memberships = this._memberships.map(row => {
+            let sumInVector = row.reduce((p, c) => p.plus(c));
+            return row.map(val => val.div(sumInVector));
+        });
+    }
+
+    public objectiveValue(mass: number): Decimal {
+        return this._memberships
+            .map((row, i) => this._centers
+                .map((center, j) => row[j]
+                    .pow(mass)
+                    .mul(this._distanceMetric.distance(center, this._data[i]))
+                )
+            ).reduce((p, c) => p === null ? c : p.map((v, i) => v.plus(c[i])), null)
+            .reduce((p, c) => p.plus(c));
+    }
+
+    public getMemberships(): Decimal[][] {
+        return this._memberships.map(row => row.slice());
+    }
+
+    public setMemberships(memberships: Decimal[][]) {
+        this._memberships = memberships.map(row => row.slice());
+    }
+
+    public getCenters(): Decimal[][] {
+        return this._centers.map(center => center.slice());
+    }
+
+    /**
+     * Re-seed empty clusters: each missing center (in cluster order) is put on the person farthest from its nearest center,
+     * so the cluster gets that person as crisp member on next membership update. Deterministic, no random draw.
+     * @param data              Data matrix (one row per person).
+     * @param centers           Centers, missing (undefined) for empty clusters.
+     * @param distanceMetric    Distance metric.
+     * @returns                 Centers, with every missing one re-seeded (same array).
+     */
+    public static reseedCenters(data: Decimal[][], centers: Decimal[][], distanceMetric: IDistanceMetric): Decimal[][] {
+        for (let i = 0; i < centers.length; i++) {
+            if (centers[i]) {
+                continue;
+            }
+            const seeded = centers.filter(center => center);
+            const nearest = data.map(vector => seeded.length > 0
+                ? Decimal.min(...seeded.map(center => distanceMetric.distance(center, vector)))
+                : DecimalBackend.ZERO);
+            const farthest = nearest.reduce((best, d, k) => d.greaterThan(nearest[best]) ? k : best, 0);
+            centers[i] = data[farthest].slice();
+        }
+        return centers;
+    }
+}
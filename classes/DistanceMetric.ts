@@ -0,0 +1,34 @@
+﻿import Decimal from "decimal.js";
+import { IDistanceMetric } from "../interfaces";
+
+/**
+ * Base class for distance metrics used by FCM model.
+ */
+export abstract class DistanceMetric implements IDistanceMetric {
+    public abstract get name(): string;
+
+    /**
+     * Ensure both vector have the same length.
+     * @param leftVector    Left Vector.
+     * @param rightVector   Right Vector.
+     * @throws              Error if vector length is different.
+     */
+    protected assertSameLength(leftVector: ArrayLike<Decimal | number>, rightVector: ArrayLike<Decimal | number>) {
+        if (leftVector.length !== rightVector.length) {
+            throw new Error(`Vector size is not equal: left => ${leftVector.length}, right => ${rightVector.length}`);
+        }
+    }
+
+    public abstract distance(leftVector: Decimal[], rightVector: Decimal[]): Decimal;
+
+    /**
+     * Calculate distance between two vector of floating-point numbers.
+     * Default implementation goes through Decimal, metrics override it with plain arithmetic.
+     * @param leftVector    Left Vector.
+     * @param rightVector   Right Vector.
+     * @returns             Distance.
+     */
+    public fastDistance(leftVector: ArrayLike<number>, rightVector: ArrayLike<number>): number {
+        return this.distance(Array.from(leftVector, v => new Decimal(v)), Array.from(rightVector, v => new Decimal(v))).toNumber();
+    }
+}
@@ -0,0 +1,87 @@
+﻿import Decimal from "decimal.js";
+import { IDistanceMetric, IDistanceMetricDescription } from "../interfaces";
+import { EuclideanDistance } from "./EuclideanDistance";
+import { ManhattanDistance } from "./ManhattanDistance";
+import { ChebyshevDistance } from "./ChebyshevDistance";
+import { CosineDistance } from "./CosineDistance";
+import { WeightedEuclideanDistance } from "./WeightedEuclideanDistance";
+import { MahalanobisDistance } from "./MahalanobisDistance";
+
+/**
+ * Create distance metric by its name.
+ */
+export class DistanceMetricFactory {
+    /**
+     * Available metric names.
+     */
+    public static NAMES = ['euclidean', 'manhattan', 'chebyshev', 'cosine', 'weighted-euclidean', 'mahalanobis'];
+
+    /**
+     * Create distance metric.
+     * @param name      Metric name (see NAMES).
+     * @param weights   Per-dimension weights (weighted-euclidean only).
+     * @returns         Distance metric.
+     * @throws          Error if metric name is unknown or weights are missing for weighted-euclidean.
+     */
+    public static create(name: string, weights: number[] = null): IDistanceMetric {
+        switch (name) {
+            case 'euclidean':
+                return new EuclideanDistance();
+            case 'manhattan':
+                return new ManhattanDistance();
+            case 'chebyshev':
+                return new ChebyshevDistance();
+            case 'cosine':
+                return new CosineDistance();
+            case 'weighted-euclidean':
+                if (!weights) {
+                    throw new Error('Weighted euclidean distance requires weights');
+                }
+                return new WeightedEuclideanDistance(weights);
+            case 'mahalanobis':
+                return new MahalanobisDistance();
+            default:
+                throw new Error(`Unknown distance metric: ${name} (available: ${DistanceMetricFactory.NAMES.join(', ')})`);
+        }
+    }
+
+    /**
+     * Describe a built-in distance metric with its parameters, so it can be rebuilt elsewhere (worker thread, saved model).
+     * @param metric    Distance metric.
+     * @returns         Metric description.
+     * @throws          Error if metric is not a built-in metric, or mahalanobis metric has not been fitted.
+     */
+    public static describe(metric: IDistanceMetric): IDistanceMetricDescription {
+        if (metric instanceof WeightedEuclideanDistance) {
+            return { name: metric.name, weights: metric.weights.map(w => w.toString()) };
+        } else if (metric instanceof MahalanobisDistance) {
+            if (!metric.covariance) {
+                throw new Error('Mahalanobis distance must be fitted before use');
+            }
+            return { name: metric.name, covariance: metric.covariance.map(row => row.map(v => v.toString())) };
+        } else if (metric instanceof EuclideanDistance || metric instanceof ManhattanDistance || metric instanceof ChebyshevDistance || metric instanceof CosineDistance) {
+            return { name: metric.name };
+        }
+        throw new Error(`Only built-in distance metrics can be described, got: ${metric.name}`);
+    }
+
+    /**
+     * Rebuild a distance metric from its description.
+     * @param description   Metric description (see describe).
+     * @returns             Distance metric.
+     * @throws              Error if metric name is unknown or its parameters are missing.
+     */
+    public static fromDescription(description: IDistanceMetricDescription): IDistanceMetric {
+        switch (description.name) {
+            case 'weighted-euclidean':
+                if (!description.weights) {
+                    throw new Error('Weighted euclidean distance requires weights');
+                }
+                return new WeightedEuclideanDistance(description.weights.map(w => new Decimal(w)));
+            case 'mahalanobis':
+                return new MahalanobisDistance(description.covariance ? description.covariance.map(row => row.map(v => new Decimal(v))) : null);
+            default:
+                return DistanceMetricFactory.create(description.name);
+        }
+    }
+}
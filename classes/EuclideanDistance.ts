@@ -0,0 +1,25 @@
+﻿import Decimal from "decimal.js";
+import { DistanceMetric } from "./DistanceMetric";
+
+/**
+ * Euclidean (L2) distance. Default metric of FCM model.
+ */
+export class EuclideanDistance extends DistanceMetric {
+    get name(): string {
+        return 'euclidean';
+    }
+
+    public distance(leftVector: Decimal[], rightVector: Decimal[]): Decimal {
+        this.assertSameLength(leftVector, rightVector);
+        return Decimal.sqrt(leftVector.map((v, i) => Decimal.pow(v.minus(rightVector[i]), 2)).reduce((p, c) => p.plus(c)));
+    }
+
+    public fastDistance(leftVector: ArrayLike<number>, rightVector: ArrayLike<number>): number {
+        this.assertSameLength(leftVector, rightVector);
+        let sum = 0;
+        for (let i = 0; i < leftVector.length; i++) {
+            sum += (leftVector[i] - rightVector[i]) * (leftVector[i] - rightVector[i]);
+        }
+        return Math.sqrt(sum);
+    }
+}
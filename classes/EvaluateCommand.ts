@@ -0,0 +1,98 @@
+﻿import Decimal from "decimal.js";
+import { ICommandOption, ICommandArguments } from "../interfaces";
+import { ModelCommand } from "./ModelCommand";
+import { UsageError } from "./UsageError";
+import { ClusterValidity } from "./ClusterValidity";
+import { HeterogeneousFormation } from "./HeterogeneousFormation";
+
+/**
+ * Evaluate clustering model and formed groups of a dataset.
+ */
+export class EvaluateCommand extends ModelCommand {
+    get name(): string {
+        return 'evaluate';
+    }
+
+    get description(): string {
+        return 'Build clustering model from a dataset and report model quality';
+    }
+
+    get options(): ICommandOption[] {
+        return ModelCommand.MODEL_OPTIONS.concat(ModelCommand.FORMATION_OPTIONS, [
+            { name: 'format', alias: 'f', description: 'Output format (text, json)', type: 'string', defaultValue: 'text' },
+        ]);
+    }
+
+    public async run(args: ICommandArguments): Promise<number> {
+        if (['text', 'json'].indexOf(args['format'] as string) < 0) {
+            throw new UsageError(`Unknown output format: ${args['format']}`);
+        }
+        const formationOptions = await this.formationOptions(args);
+        const { population, model, training, multiStart } = await this.train(args);
+        const { groups, violations, membershipLoss, repeatedPairs } = model.formGroupsWithReport(formationOptions);
+        const assignedMembership = groups
+            .map(group => group.members.map(member => group.membership(member)))
+            .reduce((p, c) => p.concat(c), new Array<Decimal>());
+        const scores = new ClusterValidity(model).scores();
+        const report = {
+            populationSize: population.length,
+            groupNum: model.groupNum,
+            algorithm: model.name,
+            mode: formationOptions.mode,
+            mass: model.mass,
+            distanceMetric: model.distanceMetric.name,
+            seed: model.seed,
+            restarts: multiStart ? multiStart.runs.length : 1,
+            selectBy: multiStart ? args['select-by'] as string : null,
+            objectiveValue: model.objectiveValue.toNumber(),
+            iterations: training.iterations,
+            stopReason: training.stopReason,
+            stopRule: training.stopRule,
+            convergence: training.history.map(event => ({
+                iteration: event.iteration,
+                objectiveValue: event.objectiveValue.toNumber(),
+                change: event.change !== undefined ? event.change.toNumber() : null,
+            })),
+            groupSizes: groups.map(group => group.members.length),
+            averageMembership: assignedMembership.length > 0
+                ? assignedMembership.reduce((p, c) => p.plus(c)).div(assignedMembership.length).toNumber()
+                : 0,
+            membershipLoss,
+            repeatedPairs,
+            averageDiversity: groups.length > 0 ? HeterogeneousFormation.diversity(groups).reduce((p, c) => p + c, 0) / groups.length : 0,
+            partitionCoefficient: scores.partitionCoefficient.toNumber(),
+            partitionEntropy: scores.partitionEntropy.toNumber(),
+            xieBeni: scores.xieBeni.toNumber(),
+            fukuyamaSugeno: scores.fukuyamaSugeno.toNumber(),
+            fuzzySilhouette: scores.fuzzySilhouette.toNumber(),
+            constraintViolations: violations,
+        };
+        this.write(args, args['format'] === 'json'
+            ? JSON.stringify(report, null, 2)
+            : [
+                `Population size:     ${report.populationSize}`,
+                `Number of groups:    ${report.groupNum}`,
+                `Algorithm:           ${report.algorithm}`,
+                `Formation mode:      ${report.mode}`,
+                `Fuzzifier (m):       ${report.mass}`,
+                `Distance metric:     ${report.distanceMetric}`,
+                `Seed:                ${report.seed}`,
+                ...(report.restarts > 1 ? [`Restarts:            ${report.restarts} (best run selected by ${report.selectBy})`] : []),
+                `Objective value (J): ${report.objectiveValue}`,
+                `Iterations:          ${report.iterations} (${report.stopReason === 'converged' ? 'converged' : 'maximum iteration reached'}, stop rule: ${report.stopRule})`,
+                `Group sizes:         ${report.groupSizes.join(', ')}`,
+                `Average membership:  ${report.averageMembership.toFixed(4)}`,
+                `Membership loss:     ${report.membershipLoss.toFixed(4)} (given up to balance group sizes)`,
+                ...(formationOptions.history ? [`Repeated pairs:      ${report.repeatedPairs} (already grouped together, history of ${formationOptions.history.sessions} ${formationOptions.history.sessions === 1 ? 'session' : 'sessions'})`] : []),
+                `Average diversity:   ${report.averageDiversity.toFixed(4)} (within-group membership spread)`,
+                `Partition coeff.:    ${report.partitionCoefficient.toFixed(4)} (higher is better)`,
+                `Partition entropy:   ${report.partitionEntropy.toFixed(4)} (lower is better)`,
+                `Xie-Beni:            ${report.xieBeni.toFixed(4)} (lower is better)`,
+                `Fukuyama-Sugeno:     ${report.fukuyamaSugeno.toFixed(4)} (lower is better)`,
+                `Fuzzy silhouette:    ${report.fuzzySilhouette.toFixed(4)} (higher is better)`,
+                `Constraint violations: ${report.constraintViolations.length}`,
+                ...report.constraintViolations.map(violation => `  - ${violation.message}`),
+            ].join('\n'));
+        return 0;
+    }
+}
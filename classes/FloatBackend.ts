@@ -0,0 +1,112 @@
+﻿import Decimal from "decimal.js";
+import { INumericBackend, IDistanceMetric } from "../interfaces";
+import { FloatKernel } from "./FloatKernel";
+
+/**
+ * Fast numeric backend on Float64Array matrices (row-major), for large population.
+ * Results match the Decimal backend within floating-point rounding.
+ */
+export class FloatBackend implements INumericBackend {
+    protected _n: number;
+    protected _dimension: number;
+    protected _groupNum: number;
+    protected _blockCount: number;
+    protected _data: Float64Array; // [person][dimension]
+    protected _dataRows: Float64Array[]; // view of each person row
+    protected _memberships: Float64Array; // [person][group]
+    protected _centers: Float64Array; // [group][dimension]
+    protected _distances: Float64Array; // [person][group], distance to current centers
+    protected _distancesValid: boolean;
+    protected _blockSums: Float64Array; // [block][group][dimension]
+    protected _blockWeights: Float64Array; // [block][group]
+    protected _distance: (left: ArrayLike<number>, right: ArrayLike<number>) => number;
+
+    get name(): string {
+        return 'float';
+    }
+
+    public load(data: Decimal[][], memberships: Decimal[][], distanceMetric: IDistanceMetric) {
+        this._n = data.length;
+        this._dimension = data.length > 0 ? data[0].length : 0;
+        this._groupNum = memberships.length > 0 ? memberships[0].length : 0;
+        this._blockCount = FloatKernel.blockCount(this._n);
+        this._data = this.allocate(this._n * this._dimension);
+        data.forEach((vector, i) => vector.forEach((v, k) => this._data[i * this._dimension + k] = v.toNumber()));
+        this._dataRows = data.map((_, i) => this._data.subarray(i * this._dimension, (i + 1) * this._dimension));
+        this._memberships = this.allocate(this._n * this._groupNum);
+        this.setMemberships(memberships);
+        this._centers = this.allocate(this._groupNum * this._dimension);
+        this._distances = this.allocate(this._n * this._groupNum);
+        this._distancesValid = false;
+        this._blockSums = this.allocate(this._blockCount * this._groupNum * this._dimension);
+        this._blockWeights = this.allocate(this._blockCount * this._groupNum);
+        this._distance = distanceMetric.fastDistance
+            ? (left, right) => distanceMetric.fastDistance(left, right)
+            : (left, right) => distanceMetric.distance(Array.from(left, v => new Decimal(v)), Array.from(right, v => new Decimal(v))).toNumber();
+    }
+
+    public updateCenters(mass: number) {
+        for (let b = 0; b < this._blockCount; b++) {
+            FloatKernel.centerSums(this._data, this._memberships, this._dimension, this._groupNum, mass, b, this._n, this._blockSums, this._blockWeights);
+        }
+        const empty = FloatKernel.combineCenters(this._blockSums, this._blockWeights, this._blockCount, this._dimension, this._groupNum, this._centers);
+        FloatKernel.reseedCenters(this._dataRows, this._centers, this._dimension, this._groupNum, empty, this._distance);
+        this._distancesValid = false;
+    }
+
+    public updateMemberships(mass: number) {
+        this.updateDistances();
+        for (let b = 0; b < this._blockCount; b++) {
+            FloatKernel.memberships(this._distances, this._groupNum, mass, b, this._n, this._memberships);
+        }
+    }
+
+    public objectiveValue(mass: number): Decimal {
+        this.updateDistances();
+        let sum = 0;
+        for (let b = 0; b < this._blockCount; b++) {
+            sum += FloatKernel.objective(this._memberships, this._distances, this._groupNum, mass, b, this._n);
+        }
+        return new Decimal(sum);
+    }
+
+    public getMemberships(): Decimal[][] {
+        return this.toRows(this._memberships, this._n, this._groupNum);
+    }
+
+    public setMemberships(memberships: Decimal[][]) {
+        memberships.forEach((row, i) => row.forEach((v, j) => this._memberships[i * this._groupNum + j] = v.toNumber()));
+    }
+
+    public getCenters(): Decimal[][] {
+        return this.toRows(this._centers, this._groupNum, this._dimension);
+    }
+
+    /**
+     * Allocate a matrix.
+     * @param length    Number of elements.
+     */
+    protected allocate(length: number): Float64Array {
+        return new Float64Array(length);
+    }
+
+    /**
+     * Compute distance of every person to every center, once per center update.
+     */
+    protected updateDistances() {
+        if (!this._distancesValid) {
+            for (let b = 0; b < this._blockCount; b++) {
+                FloatKernel.distances(this._dataRows, this._centers, this._dimension, this._groupNum, b, this._distance, this._distances);
+            }
+            this._distancesValid = true;
+        }
+    }
+
+    private toRows(matrix: Float64Array, rows: number, columns: number): Decimal[][] {
+        const result = new Array<Decimal[]>(rows);
+        for (let i = 0; i < rows; i++) {
+            result[i] = Array.from(matrix.subarray(i * columns, (i + 1) * columns), v => new Decimal(v));
+        }
+        return result;
+    }
+}
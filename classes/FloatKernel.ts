@@ -0,0 +1,187 @@
+﻿/**
+ * FCM iteration steps on Float64Array matrices (row-major), shared by the float and parallel numeric backends.
+ * Sums over persons are computed per block of BLOCK_SIZE persons, then blocks are combined in order,
+ * so the result does not depend on how the blocks are distributed between threads.
+ */
+export class FloatKernel {
+    /**
+     * Number of persons per block.
+     */
+    public static BLOCK_SIZE = 256;
+
+    /**
+     * Number of blocks covering a population.
+     * @param n Number of person in population.
+     */
+    public static blockCount(n: number): number {
+        return Math.ceil(n / FloatKernel.BLOCK_SIZE);
+    }
+
+    /**
+     * Weighted sums of one block of persons for every center: ∑ uᵐ x and ∑ uᵐ.
+     * @param data          Data matrix [person][dimension].
+     * @param memberships   Partition matrix [person][group].
+     * @param dimension     Vector length.
+     * @param groupNum      Number of groups.
+     * @param mass          Mass (m).
+     * @param block         Block index.
+     * @param n             Number of person in population.
+     * @param sums          Output sums of every block [block][group][dimension].
+     * @param weights       Output weights of every block [block][group].
+     */
+    public static centerSums(data: Float64Array, memberships: Float64Array, dimension: number, groupNum: number, mass: number, block: number, n: number, sums: Float64Array, weights: Float64Array) {
+        const sumOffset = block * groupNum * dimension;
+        const weightOffset = block * groupNum;
+        sums.fill(0, sumOffset, sumOffset + groupNum * dimension);
+        weights.fill(0, weightOffset, weightOffset + groupNum);
+        const to = Math.min(n, (block + 1) * FloatKernel.BLOCK_SIZE);
+        for (let i = block * FloatKernel.BLOCK_SIZE; i < to; i++) {
+            for (let j = 0; j < groupNum; j++) {
+                const weight = Math.pow(memberships[i * groupNum + j], mass);
+                weights[weightOffset + j] += weight;
+                for (let k = 0; k < dimension; k++) {
+                    sums[sumOffset + j * dimension + k] += weight * data[i * dimension + k];
+                }
+            }
+        }
+    }
+
+    /**
+     * Combine block sums (in block order) into centers.
+     * @param sums          Sums of every block [block][group][dimension].
+     * @param weights       Weights of every block [block][group].
+     * @param blockCount    Number of blocks.
+     * @param dimension     Vector length.
+     * @param groupNum      Number of groups.
+     * @param centers       Output centers [group][dimension].
+     * @returns             Groups without weight (memberships collapsed to zero), whose centers are left untouched and must be re-seeded.
+     */
+    public static combineCenters(sums: Float64Array, weights: Float64Array, blockCount: number, dimension: number, groupNum: number, centers: Float64Array): number[] {
+        const empty = new Array<number>();
+        for (let j = 0; j < groupNum; j++) {
+            let weight = 0;
+            for (let b = 0; b < blockCount; b++) {
+                weight += weights[b * groupNum + j];
+            }
+            if (weight === 0) {
+                empty.push(j);
+                continue;
+            }
+            for (let k = 0; k < dimension; k++) {
+                let sum = 0;
+                for (let b = 0; b < blockCount; b++) {
+                    sum += sums[(b * groupNum + j) * dimension + k];
+                }
+                centers[j * dimension + k] = sum / weight;
+            }
+        }
+        return empty;
+    }
+
+    /**
+     * Re-seed empty groups: each center (in group order) is put on the person farthest from its nearest other center (see DecimalBackend.reseedCenters).
+     * @param dataRows      View of each person row.
+     * @param centers       Centers [group][dimension].
+     * @param dimension     Vector length.
+     * @param groupNum      Number of groups.
+     * @param empty         Groups to re-seed, ascending.
+     * @param distance      Distance function.
+     */
+    public static reseedCenters(dataRows: Float64Array[], centers: Float64Array, dimension: number, groupNum: number, empty: number[], distance: (left: ArrayLike<number>, right: ArrayLike<number>) => number) {
+        const missing = new Set(empty);
+        empty.forEach(j => {
+            let farthest = 0;
+            let farthestDistance = -1;
+            for (let i = 0; i < dataRows.length; i++) {
+                let nearest = Infinity;
+                for (let g = 0; g < groupNum; g++) {
+                    if (!missing.has(g)) {
+                        nearest = Math.min(nearest, distance(centers.subarray(g * dimension, (g + 1) * dimension), dataRows[i]));
+                    }
+                }
+                if (nearest > farthestDistance) {
+                    farthest = i;
+                    farthestDistance = nearest;
+                }
+            }
+            centers.set(dataRows[farthest], j * dimension);
+            missing.delete(j);
+        });
+    }
+
+    /**
+     * Distance of a block of persons to every center.
+     * @param dataRows      View of each person row.
+     * @param centers       Centers [group][dimension].
+     * @param dimension     Vector length.
+     * @param groupNum      Number of groups.
+     * @param block         Block index.
+     * @param distance      Distance function.
+     * @param distances     Output distances [person][group].
+     */
+    public static distances(dataRows: Float64Array[], centers: Float64Array, dimension: number, groupNum: number, block: number, distance: (left: ArrayLike<number>, right: ArrayLike<number>) => number, distances: Float64Array) {
+        const to = Math.min(dataRows.length, (block + 1) * FloatKernel.BLOCK_SIZE);
+        for (let j = 0; j < groupNum; j++) {
+            const center = centers.subarray(j * dimension, (j + 1) * dimension);
+            for (let i = block * FloatKernel.BLOCK_SIZE; i < to; i++) {
+                distances[i * groupNum + j] = distance(center, dataRows[i]);
+            }
+        }
+    }
+
+    /**
+     * Membership of a block of persons from their distances (each row is normalized to sum 1.0).
+     * A person sitting on one or more centers gets crisp membership split among them.
+     * @param distances     Distances [person][group].
+     * @param groupNum      Number of groups.
+     * @param mass          Mass (m).
+     * @param block         Block index.
+     * @param n             Number of person in population.
+     * @param memberships   Output partition matrix [person][group].
+     */
+    public static memberships(distances: Float64Array, groupNum: number, mass: number, block: number, n: number, memberships: Float64Array) {
+        const exponent = -2 / (mass - 1);
+        const to = Math.min(n, (block + 1) * FloatKernel.BLOCK_SIZE);
+        for (let i = block * FloatKernel.BLOCK_SIZE; i < to; i++) {
+            let zeroes = 0;
+            for (let j = 0; j < groupNum; j++) {
+                if (distances[i * groupNum + j] === 0) {
+                    zeroes++;
+                }
+            }
+            if (zeroes > 0) {
+                for (let j = 0; j < groupNum; j++) {
+                    memberships[i * groupNum + j] = distances[i * groupNum + j] === 0 ? 1 / zeroes : 0;
+                }
+                continue;
+            }
+            let sum = 0;
+            for (let j = 0; j < groupNum; j++) {
+                const value = Math.pow(distances[i * groupNum + j], exponent);
+                memberships[i * groupNum + j] = value;
+                sum += value;
+            }
+            for (let j = 0; j < groupNum; j++) {
+                memberships[i * groupNum + j] /= sum;
+            }
+        }
+    }
+
+    /**
+     * Objective value of a block of persons, ∑ uᵐ d(x, v).
+     * @param memberships   Partition matrix [person][group].
+     * @param distances     Distances [person][group].
+     * @param groupNum      Number of groups.
+     * @param mass          Mass (m).
+     * @param block         Block index.
+     * @param n             Number of person in population.
+     */
+    public static objective(memberships: Float64Array, distances: Float64Array, groupNum: number, mass: number, block: number, n: number): number {
+        const to = Math.min(n, (block + 1) * FloatKernel.BLOCK_SIZE) * groupNum;
+        let sum = 0;
+        for (let i = block * FloatKernel.BLOCK_SIZE * groupNum; i < to; i++) {
+            sum += Math.pow(memberships[i], mass) * distances[i];
+        }
+        return sum;
+    }
+}
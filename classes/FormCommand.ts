@@ -0,0 +1,40 @@
+﻿import { ICommandOption, ICommandArguments } from "../interfaces";
+import { ModelCommand } from "./ModelCommand";
+import { UsageError } from "./UsageError";
+import { GroupExporter } from "./GroupExporter";
+import { ModelSerializer } from "./ModelSerializer";
+
+/**
+ * Form groups from a dataset.
+ */
+export class FormCommand extends ModelCommand {
+    get name(): string {
+        return 'form';
+    }
+
+    get description(): string {
+        return 'Build clustering model from a dataset and form groups';
+    }
+
+    get options(): ICommandOption[] {
+        return ModelCommand.MODEL_OPTIONS.concat(ModelCommand.FORMATION_OPTIONS, [
+            { name: 'format', alias: 'f', description: `Output format (${GroupExporter.FORMATS.join(', ')})`, type: 'string', defaultValue: 'text' },
+            { name: 'save-model', description: 'Save trained model and formed groups into JSON file (see assign command)', type: 'string', valueName: 'file' },
+        ]);
+    }
+
+    public async run(args: ICommandArguments): Promise<number> {
+        if (GroupExporter.FORMATS.indexOf(args['format'] as string) < 0) {
+            throw new UsageError(`Unknown output format: ${args['format']}`);
+        }
+        const formationOptions = await this.formationOptions(args);
+        const { model } = await this.train(args);
+        const { groups, violations } = model.formGroupsWithReport(formationOptions);
+        violations.forEach(violation => console.error(`Warning: ${violation.message}`));
+        if (args['save-model']) {
+            ModelSerializer.save(args['save-model'] as string, model, groups);
+        }
+        this.write(args, GroupExporter.fromModel(model, groups).export(args['format'] as string));
+        return 0;
+    }
+}
@@ -0,0 +1,363 @@
+﻿import Decimal from "decimal.js";
+import { IFormationJobRequest, IFormationOptions, IClusteringOptions, IImportIssue, IImportResult, IJobStatus, IApiError, IIterationEvent, ITrainingResult } from "../interfaces";
+import { HttpError } from "./HttpError";
+import { AbortError } from "./AbortError";
+import { AttributeSchema } from "./AttributeSchema";
+import { DatasetLoader } from "./DatasetLoader";
+import { DatasetError } from "./DatasetError";
+import { DistanceMetricFactory } from "./DistanceMetricFactory";
+import { PartitionInitializer } from "./PartitionInitializer";
+import { ConstraintSet } from "./ConstraintSet";
+import { GroupSizing } from "./GroupSizing";
+import { NumericBackendFactory } from "./NumericBackendFactory";
+import { Preprocessor } from "./Preprocessor";
+import { ClusteringModel } from "./ClusteringModel";
+import { ClusteringModelFactory } from "./ClusteringModelFactory";
+import { GroupExporter } from "./GroupExporter";
+import { ClusterValidity } from "./ClusterValidity";
+import { PairHistory } from "./PairHistory";
+
+/**
+ * Group formation job submitted through the HTTP API: a validated request, the model it trains and the groups it forms.
+ */
+export class FormationJob {
+    /**
+     * Job states, in order: queued, running, then one of succeeded, failed or cancelled.
+     */
+    public static STATES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+    /**
+     * Fields accepted on a job request.
+     */
+    public static FIELDS = [
+        'population', 'csv', 'schema', 'onInvalid', 'groups', 'sizes', 'mode', 'algorithm', 'fuzzifier', 'maxIteration', 'tolerance', 'stopRule', 'seed',
+        'initialization', 'metric', 'weights', 'backend', 'constraints', 'scaling', 'whiten', 'components', 'history', 'historyWeight',
+    ];
+
+    private _id: string;
+    private _request: IFormationJobRequest;
+    private _model: ClusteringModel;
+    private _formationOptions: IFormationOptions;
+    private _importIssues: IImportIssue[];
+    private _status: string;
+    private _createdAt: Date;
+    private _startedAt: Date;
+    private _finishedAt: Date;
+    private _progress: { iteration: number, maxIteration: number, objectiveValue: number };
+    private _error: IApiError;
+    private _result: object;
+    private _signal: { aborted: boolean, reason?: any };
+
+    /**
+     * Get job id.
+     */
+    get id(): string {
+        return this._id;
+    }
+
+    /**
+     * Get job state (see STATES).
+     */
+    get status(): string {
+        return this._status;
+    }
+
+    /**
+     * Get whether the job has ended (succeeded, failed or cancelled).
+     */
+    get isFinished(): boolean {
+        return ['succeeded', 'failed', 'cancelled'].indexOf(this._status) >= 0;
+    }
+
+    /**
+     * Get job result: groups, centers in original units and quality metrics (null unless succeeded).
+     */
+    get result(): object {
+        return this._result;
+    }
+
+    /**
+     * Construct a new job from a validated request. Use create to validate the request.
+     * @param id                Job id.
+     * @param request           Job request.
+     * @param model             Untrained model.
+     * @param formationOptions  Formation options.
+     * @param importIssues      Dataset problems which were skipped or imputed.
+     */
+    private constructor(id: string, request: IFormationJobRequest, model: ClusteringModel, formationOptions: IFormationOptions, importIssues: IImportIssue[]) {
+        this._id = id;
+        this._request = request;
+        this._model = model;
+        this._formationOptions = formationOptions;
+        this._importIssues = importIssues;
+        this._status = 'queued';
+        this._createdAt = new Date();
+        this._startedAt = null;
+        this._finishedAt = null;
+        this._progress = null;
+        this._error = null;
+        this._result = null;
+        this._signal = { aborted: false };
+        this._model.on(ClusteringModel.EVENTS.ITERATION_END, (event: IIterationEvent) => this._progress = {
+            iteration: event.iteration,
+            maxIteration: event.maxIteration,
+            objectiveValue: event.objectiveValue.toNumber(),
+        });
+    }
+
+    /**
+     * Validate a job request, read its population and prepare the model.
+     * @param id        Job id.
+     * @param request   Job request (parsed JSON body).
+     * @returns         Promise of queued job.
+     * @throws          HttpError 400 invalid_request listing every invalid field.
+     * @throws          HttpError 400 invalid_dataset listing every invalid row (see DatasetLoader), or invalid_model if the model cannot be set up.
+     */
+    public static async create(id: string, request: IFormationJobRequest): Promise<FormationJob> {
+        if (request === null || typeof request !== 'object' || Array.isArray(request)) {
+            throw new HttpError(400, 'invalid_request', 'Request body must be a JSON object');
+        }
+        const details = new Array<{ field: string, message: string }>();
+        const invalid = (field: string, message: string) => details.push({ field, message });
+        const isInteger = (value: any, min: number, max: number = Number.MAX_SAFE_INTEGER) => Number.isInteger(value) && value >= min && value <= max;
+        const oneOf = (field: string, names: string[]) => {
+            if (request[field] !== undefined && names.indexOf(request[field]) < 0) {
+                invalid(field, `Must be one of ${names.join(', ')}`);
+            }
+        };
+
+        Object.keys(request).filter(field => FormationJob.FIELDS.indexOf(field) < 0).forEach(field => invalid(field, 'Unknown field'));
+        if ((request.population === undefined) === (request.csv === undefined)) {
+            invalid('population', 'Exactly one of population or csv must be set');
+        } else if (request.population !== undefined && (!Array.isArray(request.population) || request.population.some(row => row === null || typeof row !== 'object' || Array.isArray(row)))) {
+            invalid('population', 'Must be an array of rows keyed by column');
+        } else if (request.csv !== undefined && typeof request.csv !== 'string') {
+            invalid('csv', 'Must be CSV content with header row');
+        }
+        let schema = AttributeSchema.FELDER_SILVERMAN;
+        if (request.schema !== undefined) {
+            try {
+                schema = AttributeSchema.fromJSON(request.schema);
+            } catch (error) {
+                invalid('schema', error.message);
+            }
+        }
+        oneOf('onInvalid', DatasetLoader.MODES);
+        if ((request.groups === undefined) === (request.sizes === undefined)) {
+            invalid('groups', 'Exactly one of groups or sizes must be set');
+        } else if (request.groups !== undefined && !isInteger(request.groups, 1)) {
+            invalid('groups', 'Must be a positive integer');
+        } else if (request.sizes !== undefined && (request.sizes === null || typeof request.sizes !== 'object' || Array.isArray(request.sizes)
+            || ['size', 'minSize', 'maxSize'].some(field => request.sizes[field] !== undefined && !isInteger(request.sizes[field], 1))
+            || (request.sizes.capacities !== undefined && (!Array.isArray(request.sizes.capacities) || request.sizes.capacities.some(c => !isInteger(c, 1)))))) {
+            invalid('sizes', 'Must be an object of positive integers size, minSize, maxSize, or capacities (array)');
+        }
+        oneOf('mode', ['homogeneous', 'heterogeneous']);
+        oneOf('algorithm', ClusteringModelFactory.NAMES);
+        if (request.fuzzifier !== undefined && (typeof request.fuzzifier !== 'number' || !(request.fuzzifier > 1))) {
+            invalid('fuzzifier', 'Must be a number greater than 1');
+        }
+        if (request.maxIteration !== undefined && !isInteger(request.maxIteration, 1)) {
+            invalid('maxIteration', 'Must be a positive integer');
+        }
+        if (request.tolerance !== undefined && (typeof request.tolerance !== 'number' || !(request.tolerance > 0))) {
+            invalid('tolerance', 'Must be a number greater than 0');
+        }
+        oneOf('stopRule', ClusteringModel.STOP_RULES);
+        if (request.seed !== undefined && !isInteger(request.seed, 0, 0xFFFFFFFF)) {
+            invalid('seed', `Must be an integer between 0 and ${0xFFFFFFFF}`);
+        }
+        oneOf('initialization', PartitionInitializer.STRATEGIES);
+        oneOf('metric', DistanceMetricFactory.NAMES);
+        if (request.weights !== undefined && (!Array.isArray(request.weights) || request.weights.some(w => typeof w !== 'number'))) {
+            invalid('weights', 'Must be an array of numbers');
+        }
+        oneOf('backend', NumericBackendFactory.NAMES);
+        if (request.backend !== undefined && request.backend !== 'decimal' && (request.algorithm || 'fcm') !== 'fcm') {
+            invalid('backend', 'Only the decimal backend can be used with another algorithm than fcm');
+        }
+        if (request.constraints !== undefined) {
+            try {
+                ConstraintSet.fromJSON(request.constraints, 'request');
+            } catch (error) {
+                invalid('constraints', error.message);
+            }
+        }
+        oneOf('scaling', Preprocessor.METHODS);
+        if (request.whiten !== undefined && typeof request.whiten !== 'boolean') {
+            invalid('whiten', 'Must be a boolean');
+        }
+        if (request.components !== undefined && (!request.whiten || !isInteger(request.components, 1))) {
+            invalid('components', 'Must be a positive integer, used with whiten');
+        }
+        if (request.history !== undefined) {
+            try {
+                PairHistory.fromJSON(request.history, 'request');
+            } catch (error) {
+                invalid('history', error.message);
+            }
+        }
+        if (request.historyWeight !== undefined && (typeof request.historyWeight !== 'number' || !(request.historyWeight >= 0) || !isFinite(request.historyWeight))) {
+            invalid('historyWeight', 'Must be a non-negative number');
+        }
+        if (details.length > 0) {
+            throw new HttpError(400, 'invalid_request', `Request has ${details.length} invalid ${details.length === 1 ? 'field' : 'fields'}`, details);
+        }
+
+        const { population, issues } = await FormationJob.readPopulation(request, new DatasetLoader(schema, 'Num', 'Name', request.onInvalid || 'strict'));
+        const scaling = request.scaling || 'none';
+        const options: IClusteringOptions = {
+            seed: request.seed,
+            initialization: request.initialization || 'random',
+            stopRule: request.stopRule,
+            constraints: request.constraints ? ConstraintSet.fromJSON(request.constraints, 'request') : undefined,
+            preprocessor: scaling !== 'none' || request.whiten ? new Preprocessor(scaling, !!request.whiten, request.components !== undefined ? request.components : null) : undefined,
+        };
+        let model: ClusteringModel;
+        try {
+            const groupNum = request.groups !== undefined ? request.groups : GroupSizing.fromSpec(request.sizes, population.length).groupNum;
+            options.distanceMetric = DistanceMetricFactory.create(request.metric || 'euclidean', request.weights || null);
+            options.backend = NumericBackendFactory.create(request.backend || 'decimal');
+            model = ClusteringModelFactory.create(request.algorithm || 'fcm', population, groupNum, null, options);
+        } catch (error) {
+            throw new HttpError(400, 'invalid_model', error.message);
+        }
+        return new FormationJob(id, request, model, {
+            mode: (request.mode || 'homogeneous') as 'homogeneous' | 'heterogeneous',
+            sizes: request.sizes,
+            history: request.history ? new PairHistory(request.history) : undefined,
+            historyWeight: request.historyWeight,
+        }, issues);
+    }
+
+    /**
+     * Train the model and form groups. Never rejects: failure and cancellation are recorded on the job status.
+     * @returns Promise resolved when the job has ended.
+     */
+    public async run(): Promise<void> {
+        if (this._status !== 'queued') {
+            return;
+        }
+        this._status = 'running';
+        this._startedAt = new Date();
+        try {
+            const training = await this._model.buildModelAsync(
+                this._request.maxIteration !== undefined ? this._request.maxIteration : 100,
+                new Decimal(this._request.tolerance !== undefined ? this._request.tolerance : 0.001),
+                this._request.fuzzifier !== undefined ? this._request.fuzzifier : 2,
+                null,
+                this._signal);
+            this._result = await this.report(training);
+            this._status = 'succeeded';
+        } catch (error) {
+            if (error instanceof AbortError) {
+                this._status = 'cancelled';
+                this._error = { code: 'cancelled', message: error.message };
+            } else {
+                this._status = 'failed';
+                this._error = { code: 'formation_failed', message: error.message };
+            }
+        }
+        this._finishedAt = new Date();
+    }
+
+    /**
+     * Cancel the job. A queued job is cancelled at once, a running job at the end of its current iteration (or between persons while its quality is scored).
+     * @returns Whether the job was still queued or running.
+     */
+    public cancel(): boolean {
+        if (this._status === 'queued') {
+            this._status = 'cancelled';
+            this._error = { code: 'cancelled', message: 'Job was cancelled before it started' };
+            this._finishedAt = new Date();
+            if (this._model.backend.release) {
+                this._model.backend.release();
+            }
+            return true;
+        }
+        if (this._status === 'running') {
+            this._signal.aborted = true;
+            this._signal.reason = 'Job was cancelled';
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Describe job state and progress.
+     */
+    public toStatus(): IJobStatus {
+        const time = (date: Date) => date ? date.toISOString() : null;
+        return {
+            id: this._id,
+            status: this._status,
+            createdAt: time(this._createdAt),
+            startedAt: time(this._startedAt),
+            finishedAt: time(this._finishedAt),
+            progress: this._progress,
+            error: this._error,
+        };
+    }
+
+    /**
+     * Form groups from the trained model and build the job result. Quality is scored without blocking the event loop.
+     * @param training  Training result of the model.
+     * @returns         Promise of job result, rejected with AbortError if the job is cancelled meanwhile.
+     */
+    private async report(training: ITrainingResult): Promise<object> {
+        const { groups, violations, membershipLoss, repeatedPairs } = this._model.formGroupsWithReport(this._formationOptions);
+        const exported = JSON.parse(GroupExporter.fromModel(this._model, groups).toJson());
+        const names = this._model.partitionMatrix.length > 0 ? this._model.partitionMatrix[0].person.schema.featureNames : [];
+        const scores = await new ClusterValidity(this._model).scoresAsync(this._signal);
+        return {
+            ...exported,
+            centers: this._model.clusterCenters.map(center => this._model.originalCenter(center).reduce((p, v, i) => {
+                p[names[i]] = v.toNumber();
+                return p;
+            }, {} as { [dimension: string]: number })),
+            quality: {
+                objectiveValue: this._model.objectiveValue.toNumber(),
+                iterations: training.iterations,
+                stopReason: training.stopReason,
+                stopRule: training.stopRule,
+                membershipLoss,
+                repeatedPairs,
+                partitionCoefficient: scores.partitionCoefficient.toNumber(),
+                partitionEntropy: scores.partitionEntropy.toNumber(),
+                xieBeni: scores.xieBeni.toNumber(),
+                fukuyamaSugeno: scores.fukuyamaSugeno.toNumber(),
+                fuzzySilhouette: scores.fuzzySilhouette.toNumber(),
+            },
+            constraintViolations: violations,
+            importIssues: this._importIssues,
+        };
+    }
+
+    /**
+     * Read population from JSON rows or CSV content of a request.
+     * @param request   Validated job request.
+     * @param loader    Dataset loader.
+     * @returns         Promise of import result.
+     * @throws          HttpError 400 invalid_dataset listing every invalid row.
+     */
+    private static async readPopulation(request: IFormationJobRequest, loader: DatasetLoader): Promise<IImportResult> {
+        try {
+            if (request.csv !== undefined) {
+                return await loader.parseWithReport(request.csv, 'csv');
+            }
+            const header = Array.from(new Set(request.population.map(row => Object.keys(row)).reduce((p, c) => p.concat(c), new Array<string>())));
+            const cell = (value: any) => value === undefined || value === null ? '' : String(value);
+            return loader.fromRecords([header].concat(request.population.map(row => header.map(column => cell(row[column])))), 'population');
+        } catch (error) {
+            if (!(error instanceof DatasetError)) {
+                throw error;
+            }
+            // JSON rows are reported by index (record line 2 is population[0]), CSV rows by line number
+            throw new HttpError(400, 'invalid_dataset', `Population has ${error.issues.length} invalid ${error.issues.length === 1 ? 'entry' : 'entries'}`, error.issues.map(issue => {
+                const message = issue.column !== null ? `${issue.column}: ${issue.message}` : issue.message;
+                return request.csv !== undefined
+                    ? { field: 'csv', line: issue.line, message }
+                    : { field: issue.line > 1 ? `population[${issue.line - 2}]` : 'population', message };
+            }));
+        }
+    }
+}
@@ -0,0 +1,255 @@
+﻿import { createServer, Server, IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { randomBytes } from "crypto";
+import { parse as parseQuery } from "querystring";
+import { IFormationJobRequest } from "../interfaces";
+import { HttpError } from "./HttpError";
+import { FormationJob } from "./FormationJob";
+
+/**
+ * Local HTTP API for group formation. Jobs are queued and run one at a time, so a long run never blocks status requests.
+ *
+ *  GET    /health              Server status.
+ *  POST   /jobs                Submit a job (JSON request, or CSV population with options as query parameters). Answers 202 with job status.
+ *  GET    /jobs                Status of every job.
+ *  GET    /jobs/:id            Job status and progress.
+ *  GET    /jobs/:id/result     Groups, centers and quality metrics of a succeeded job.
+ *  DELETE /jobs/:id            Cancel a queued or running job, or forget an ended one.
+ *
+ * Errors are answered as { "error": { "code", "message", "details" } }.
+ */
+export class FormationServer {
+    /**
+     * Maximum size of request body, in bytes.
+     */
+    public static MAX_BODY_SIZE = 10 * 1024 * 1024;
+    /**
+     * Maximum number of ended jobs kept; the oldest ones are forgotten first.
+     */
+    public static MAX_FINISHED_JOBS = 100;
+    /**
+     * Query parameters of a CSV submission which are numbers, booleans or group sizes (weights and capacities are comma-separated, every other one is a string).
+     */
+    private static NUMBER_FIELDS = ['groups', 'fuzzifier', 'maxIteration', 'tolerance', 'seed', 'components'];
+    private static BOOLEAN_FIELDS = ['whiten'];
+    private static SIZE_FIELDS = ['size', 'minSize', 'maxSize', 'capacities'];
+
+    private _server: Server;
+    private _jobs: Map<string, FormationJob>;
+    private _queue: FormationJob[];
+    private _running: boolean;
+
+    /**
+     * Get every known job, in submission order.
+     */
+    get jobs(): FormationJob[] {
+        return Array.from(this._jobs.values());
+    }
+
+    /**
+     * Construct a new formation server (not listening yet).
+     */
+    public constructor() {
+        this._server = createServer((request, response) => this.handle(request, response));
+        this._jobs = new Map<string, FormationJob>();
+        this._queue = new Array<FormationJob>();
+        this._running = false;
+    }
+
+    /**
+     * Start listening.
+     * @param port  Port (0 for any free port).
+     * @param host  Host to bind. Default to loopback only.
+     * @returns     Promise of the bound address and port.
+     */
+    public listen(port: number, host: string = '127.0.0.1'): Promise<AddressInfo> {
+        return new Promise<AddressInfo>((resolve, reject) => {
+            this._server.once('error', reject);
+            this._server.listen(port, host, () => {
+                this._server.removeListener('error', reject);
+                resolve(this._server.address() as AddressInfo);
+            });
+        });
+    }
+
+    /**
+     * Cancel every queued or running job and stop listening.
+     * @returns Promise resolved when the server is closed.
+     */
+    public close(): Promise<void> {
+        this._jobs.forEach(job => job.cancel());
+        return new Promise<void>((resolve, reject) => this._server.close(error => error ? reject(error) : resolve()));
+    }
+
+    /**
+     * Route a request and answer it, turning every error into a structured error body.
+     * @param request   Incoming request.
+     * @param response  Response.
+     */
+    private async handle(request: IncomingMessage, response: ServerResponse) {
+        try {
+            const [path, query] = request.url.split('?', 2);
+            const segments = path.split('/').filter(segment => segment !== '');
+            if (segments.length === 1 && segments[0] === 'health') {
+                this.allow(request, ['GET']);
+                return this.send(response, 200, { status: 'ok', jobs: this._jobs.size, queued: this._queue.length });
+            }
+            if (segments[0] !== 'jobs' || segments.length > 3 || (segments.length === 3 && segments[2] !== 'result')) {
+                throw new HttpError(404, 'not_found', `No such endpoint: ${request.method} ${path}`);
+            }
+            if (segments.length === 1) {
+                this.allow(request, ['GET', 'POST']);
+                if (request.method === 'GET') {
+                    return this.send(response, 200, { jobs: this.jobs.map(job => job.toStatus()) });
+                }
+                const job = await FormationJob.create(this.newId(), await this.readRequest(request, query || ''));
+                this.enqueue(job);
+                response.setHeader('Location', `/jobs/${job.id}`);
+                return this.send(response, 202, job.toStatus());
+            }
+            const job = this._jobs.get(segments[1]);
+            if (!job) {
+                throw new HttpError(404, 'job_not_found', `No such job: ${segments[1]}`);
+            }
+            if (segments.length === 3) {
+                this.allow(request, ['GET']);
+                if (job.status !== 'succeeded') {
+                    throw new HttpError(409, 'job_not_succeeded', `Job ${job.id} is ${job.status}, result is only available once it has succeeded`);
+                }
+                return this.send(response, 200, job.result);
+            }
+            this.allow(request, ['GET', 'DELETE']);
+            if (request.method === 'DELETE' && !job.cancel()) {
+                this._jobs.delete(job.id);
+            }
+            return this.send(response, 200, job.toStatus());
+        } catch (error) {
+            const httpError = error instanceof HttpError ? error : new HttpError(500, 'internal_error', error.message);
+            return this.send(response, httpError.status, { error: httpError.toJSON() });
+        }
+    }
+
+    /**
+     * Read job request from request body: a JSON document, or CSV content with formation options as query parameters.
+     * @param request   Incoming request.
+     * @param query     Query string.
+     * @returns         Promise of job request (not validated).
+     * @throws          HttpError 413 if body is too large, 415 if content type is not supported, 400 if JSON is malformed or a query parameter is repeated.
+     */
+    private async readRequest(request: IncomingMessage, query: string): Promise<IFormationJobRequest> {
+        const type = (request.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+        if (type !== 'application/json' && type !== 'text/csv') {
+            throw new HttpError(415, 'unsupported_media_type', 'Content-Type must be application/json or text/csv');
+        }
+        const body = await this.readBody(request);
+        if (type === 'text/csv') {
+            const parameters = parseQuery(query);
+            const repeated = Object.keys(parameters).filter(name => Array.isArray(parameters[name]));
+            if (repeated.length > 0) {
+                throw new HttpError(400, 'invalid_request', `Query has ${repeated.length} repeated ${repeated.length === 1 ? 'parameter' : 'parameters'}`, repeated.map(field => ({ field, message: 'Must be set only once' })));
+            }
+            return Object.keys(parameters).reduce((p, name) => {
+                const value = parameters[name] as string;
+                if (FormationServer.SIZE_FIELDS.indexOf(name) >= 0) {
+                    p.sizes = { ...p.sizes, [name]: name === 'capacities' ? value.split(',').map(Number) : Number(value) };
+                } else {
+                    p[name] = FormationServer.NUMBER_FIELDS.indexOf(name) >= 0 ? Number(value)
+                        : FormationServer.BOOLEAN_FIELDS.indexOf(name) >= 0 ? value === 'true' || value === ''
+                            : name === 'weights' ? value.split(',').map(Number)
+                                : value;
+                }
+                return p;
+            }, { csv: body } as IFormationJobRequest);
+        }
+        try {
+            return JSON.parse(body.replace(/^\uFEFF/, ''));
+        } catch (error) {
+            throw new HttpError(400, 'invalid_json', `Request body is not valid JSON: ${error.message}`);
+        }
+    }
+
+    /**
+     * Read request body as UTF-8 text.
+     * @param request   Incoming request.
+     * @returns         Promise of body.
+     * @throws          HttpError 413 if body is larger than MAX_BODY_SIZE.
+     */
+    private readBody(request: IncomingMessage): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const chunks = new Array<Buffer>();
+            let size = 0;
+            request.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > FormationServer.MAX_BODY_SIZE) {
+                    request.removeAllListeners('data');
+                    request.resume();
+                    reject(new HttpError(413, 'payload_too_large', `Request body must not exceed ${FormationServer.MAX_BODY_SIZE} bytes`));
+                } else {
+                    chunks.push(chunk);
+                }
+            });
+            request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+            request.on('error', reject);
+        });
+    }
+
+    /**
+     * Check request method.
+     * @param request   Incoming request.
+     * @param methods   Allowed methods.
+     * @throws          HttpError 405 if method is not allowed.
+     */
+    private allow(request: IncomingMessage, methods: string[]) {
+        if (methods.indexOf(request.method) < 0) {
+            throw new HttpError(405, 'method_not_allowed', `Method ${request.method} is not allowed (allowed: ${methods.join(', ')})`);
+        }
+    }
+
+    /**
+     * Answer with a JSON body.
+     * @param response  Response.
+     * @param status    HTTP status code.
+     * @param body      Body to serialize.
+     */
+    private send(response: ServerResponse, status: number, body: object) {
+        response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+        response.end(JSON.stringify(body, null, 2));
+    }
+
+    /**
+     * Generate a new, unused job id.
+     */
+    private newId(): string {
+        let id: string;
+        do {
+            id = randomBytes(8).toString('hex');
+        } while (this._jobs.has(id));
+        return id;
+    }
+
+    /**
+     * Register a job, forgetting the oldest ended jobs above MAX_FINISHED_JOBS, and start the queue once the submission is answered.
+     * @param job   Queued job.
+     */
+    private enqueue(job: FormationJob) {
+        this._jobs.set(job.id, job);
+        const finished = this.jobs.filter(j => j.isFinished);
+        finished.slice(0, Math.max(0, finished.length - FormationServer.MAX_FINISHED_JOBS)).forEach(j => this._jobs.delete(j.id));
+        this._queue.push(job);
+        setImmediate(() => this.runQueue());
+    }
+
+    /**
+     * Run queued jobs one at a time (cancelled jobs are skipped by FormationJob.run).
+     */
+    private async runQueue() {
+        if (this._running) {
+            return;
+        }
+        this._running = true;
+        while (this._queue.length > 0) {
+            await this._queue.shift().run();
+        }
+        this._running = false;
+    }
+}
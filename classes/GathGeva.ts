@@ -0,0 +1,106 @@
+﻿import Decimal from 'decimal.js';
+import { IClusteringOptions } from "../interfaces";
+import { Person } from "./Person";
+import { ClusteringModel } from "./ClusteringModel";
+import { MahalanobisDistance } from "./MahalanobisDistance";
+import { MatrixHelper } from "./MatrixHelper";
+
+/**
+ * Gath-Geva (GG) model, also known as fuzzy maximum likelihood estimation: each cluster is a gaussian with its own covariance F and prior P,
+ * so clusters can be ellipsoidal and of different size and density. Squared distance is d² = √det(F) / P exp(½ (x - v)ᵀ F⁻¹ (x - v)).
+ * Being very sensitive to initialization, it is best started from an FCM partition (--init). The distance metric set on the model is only used
+ * on initialization and validity scoring.
+ */
+export class GathGeva extends ClusteringModel {
+    private static HALF = new Decimal(0.5);
+
+    private _covariances: Decimal[][][]; // F of each cluster
+    private _priors: Decimal[]; // P of each cluster
+    private _norms: { scale: Decimal, distance: MahalanobisDistance }[]; // √det(F) / P and F⁻¹ of each cluster
+
+    get name(): string {
+        return 'gg';
+    }
+
+    /**
+     * Get fuzzy covariance matrix of each cluster, estimated from the current partition (empty before training).
+     */
+    get covariances(): Decimal[][][] {
+        return this._covariances;
+    }
+
+    /**
+     * Get prior probability of each cluster, P = ∑ u / n (empty before training).
+     */
+    get priors(): Decimal[] {
+        return this._priors;
+    }
+
+    /**
+     * Construct a new GG model. See ClusteringModel for parameters.
+     * @throws  Error if a numeric backend other than decimal is set.
+     */
+    public constructor(population: Person[], groupNum: number, initialVectors: Decimal[][] = null, options: IClusteringOptions = {}) {
+        super(population, groupNum, initialVectors, options);
+        this.requireDecimalBackend();
+        this._covariances = [];
+        this._priors = [];
+        this._norms = [];
+    }
+
+    /**
+     * Update centers from uᵐ, then cluster covariances and priors, then memberships.
+     * @returns J = ∑∑ uᵐ d².
+     */
+    protected iterateOnce(): Decimal {
+        const weights = this._memberships.map(row => row.map(u => u.pow(this.mass)));
+        this._centers = this.weightedCenters(weights);
+        this.useClusters(this._memberships, weights, this._centers);
+        const distances = this.dataMatrix.map(vector => this.squaredDistances(this._centers, vector));
+        this._memberships = distances.map(row => this.inverseDistanceMemberships(row));
+        this.constrain(this._memberships);
+        return this._memberships
+            .map((row, k) => row.map((u, i) => u.pow(this.mass).times(distances[k][i])).reduce((p, c) => p.plus(c)))
+            .reduce((p, c) => p.plus(c));
+    }
+
+    /**
+     * Estimate cluster covariances and priors from the trained partition, used on prediction.
+     */
+    protected refresh() {
+        const memberships = this.partitionMatrix.map(row => row.vector);
+        this.useClusters(memberships, memberships.map(row => row.map(u => u.pow(this.mass))), this.clusterCenters.map(center => center.vector));
+    }
+
+    /**
+     * Fuzzy membership of a vector, using the gaussian of each cluster.
+     * @param vector    Vector after preprocessing.
+     */
+    protected membershipOf(vector: Decimal[]): Decimal[] {
+        return this.inverseDistanceMemberships(this.squaredDistances(this.clusterCenters.map(center => center.vector), vector));
+    }
+
+    /**
+     * Estimate covariance and prior of each cluster (a prior is at least MatrixHelper.RIDGE, so an empty cluster stays usable).
+     * @param memberships   Partition matrix.
+     * @param weights       uᵐ of each person for each cluster.
+     * @param centers       Cluster centers.
+     */
+    private useClusters(memberships: Decimal[][], weights: Decimal[][], centers: Decimal[][]) {
+        this._covariances = this.clusterCovariances(weights, centers);
+        this._priors = centers.map((_, i) => Decimal.max(memberships.map(row => row[i]).reduce((p, c) => p.plus(c)).div(memberships.length), MatrixHelper.RIDGE));
+        this._norms = this._covariances.map((covariance, i) => ({
+            scale: MatrixHelper.determinant(covariance).sqrt().div(this._priors[i]),
+            distance: new MahalanobisDistance(covariance),
+        }));
+    }
+
+    /**
+     * Squared distance from a vector to each center, from the gaussian of each cluster.
+     * @param centers   Cluster centers.
+     * @param vector    Vector after preprocessing.
+     */
+    private squaredDistances(centers: Decimal[][], vector: Decimal[]): Decimal[] {
+        return centers.map((center, i) => this._norms[i].scale.times(Decimal.exp(this._norms[i].distance.distance(center, vector).pow(2).times(GathGeva.HALF))));
+    }
+}
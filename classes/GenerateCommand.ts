@@ -0,0 +1,91 @@
+﻿import { writeToString } from 'fast-csv';
+import Decimal from "decimal.js";
+import { IAttributeDimension, ICommandOption, ICommandArguments } from "../interfaces";
+import { Command } from "./Command";
+import { UsageError } from "./UsageError";
+import { AttributeSchema } from "./AttributeSchema";
+import { SeededRandom } from "./SeededRandom";
+
+/**
+ * Generate random dataset.
+ */
+export class GenerateCommand extends Command {
+    get name(): string {
+        return 'generate';
+    }
+
+    get description(): string {
+        return 'Generate random dataset CSV';
+    }
+
+    get options(): ICommandOption[] {
+        return [
+            { name: 'count', alias: 'n', description: 'Number of person to generate', type: 'number', defaultValue: 100 },
+            { name: 'schema', description: 'Attribute schema JSON file (default: Felder-Silverman learning styles)', type: 'string', valueName: 'file' },
+            { name: 'min', description: 'Minimum numeric score of dimensions without min in the schema', type: 'number', defaultValue: -11 },
+            { name: 'max', description: 'Maximum numeric score of dimensions without max in the schema', type: 'number', defaultValue: 11 },
+            { name: 'seed', description: 'Random seed (default: random seed, reported on standard error)', type: 'number', valueName: 'n' },
+            { name: 'output', alias: 'o', description: 'Write dataset to file instead of standard output', type: 'string', valueName: 'file' },
+        ];
+    }
+
+    public async run(args: ICommandArguments): Promise<number> {
+        const count = args['count'] as number;
+        const min = args['min'] as number;
+        const max = args['max'] as number;
+        if (!Number.isInteger(count) || count < 1) {
+            throw new UsageError('--count must be a positive integer');
+        }
+        if (min > max) {
+            throw new UsageError('--min must be less than or equal to --max');
+        }
+        const seed = args['seed'] as number;
+        if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF)) {
+            throw new UsageError(`--seed must be an integer between 0 and ${0xFFFFFFFF}`);
+        }
+        const random = new SeededRandom(seed);
+        if (seed === undefined) {
+            console.error(`Seed: ${random.seed}`);
+        }
+        const schema = args['schema']
+            ? AttributeSchema.fromFile(args['schema'] as string)
+            : AttributeSchema.FELDER_SILVERMAN;
+        const scores = new Map(schema.dimensions.filter(d => !schema.isCategorical(d)).map(d => [d.column, GenerateCommand.scale(d, min, max)] as [string, number[]]));
+        const rows = new Array<{ [column: string]: string | number }>();
+        for (let i = 1; i <= count; i++) {
+            rows.push(schema.dimensions.reduce((p, d) => {
+                p[d.column] = schema.isCategorical(d)
+                    ? d.categories[Math.floor(random.next() * d.categories.length)]
+                    : scores.get(d.column)[Math.floor(random.next() * scores.get(d.column).length)];
+                return p;
+            }, { Num: i, Name: `Person ${i}` } as { [column: string]: string | number }));
+        }
+        this.write(args, await writeToString(rows, { headers: true }));
+        return 0;
+    }
+
+    /**
+     * List every score a numeric dimension can take: each step of its scale within its range (e.g. odd integers from -11 to 11 on the Index of Learning Styles scale).
+     * Without step, every integer of the range. Bounds missing from the schema are taken from --min and --max.
+     * @param dimension Numeric dimension.
+     * @param min       Minimum score if the dimension has none.
+     * @param max       Maximum score if the dimension has none.
+     * @returns         Scores in increasing order.
+     * @throws          UsageError if no score lies within the range.
+     */
+    private static scale(dimension: IAttributeDimension, min: number, max: number): number[] {
+        const low = dimension.min !== undefined ? dimension.min : min;
+        const high = dimension.max !== undefined ? dimension.max : max;
+        const origin = new Decimal(dimension.min !== undefined ? dimension.min : 0);
+        const step = new Decimal(dimension.step !== undefined ? dimension.step : 1);
+        const first = dimension.step !== undefined ? origin.plus(step.times(Decimal.ceil(new Decimal(low).minus(origin).div(step)))) : Decimal.ceil(low);
+        const scores = new Array<number>();
+        for (let v = first; v.lessThanOrEqualTo(high); v = v.plus(step)) {
+            scores.push(v.toNumber());
+        }
+        if (scores.length === 0) {
+            throw new UsageError(`Dimension ${dimension.name} has no score ${dimension.step !== undefined ? `on its scale (step ${dimension.step}) ` : ''}between ${low} and ${high}`);
+        }
+        return scores;
+    }
+}
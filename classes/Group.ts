@@ -5,6 +5,7 @@ export class Group {
     private _id: number;
     public members: IMember[];
     private _center: Decimal[];
+    private _clusterId: number;
 
     get id(): number {
         return this._id;
@@ -14,9 +15,32 @@ export class Group {
         return this._center;
     }
 
-    public constructor(id: number, centerVector: Decimal[], members: IMember[] = []) {
+    /**
+     * Get id of the cluster this group is formed from (null if group mixes several clusters).
+     */
+    get clusterId(): number {
+        return this._clusterId;
+    }
+
+    /**
+     * Construct a new group.
+     * @param id            Group id.
+     * @param centerVector  Center (profile) of the group.
+     * @param members       Group members.
+     * @param clusterId     Id of the cluster this group is formed from. Default to group id. Set null if group mixes several clusters.
+     */
+    public constructor(id: number, centerVector: Decimal[], members: IMember[] = [], clusterId: number = id) {
         this._id = id;
         this._center = centerVector;
         this.members = members;
+        this._clusterId = clusterId;
+    }
+
+    /**
+     * Get membership degree of a member to this group: membership to the group cluster, or the highest membership of the member if group mixes several clusters.
+     * @param member    Group member.
+     */
+    public membership(member: IMember): Decimal {
+        return this._clusterId === null ? Decimal.max(...member.vector) : member.vector[this._clusterId - 1];
     }
 }
@@ -0,0 +1,215 @@
+﻿import { IClusteringModel } from "../interfaces";
+import { Group } from "./Group";
+import { AttributeSchema } from "./AttributeSchema";
+
+/**
+ * Export formed groups as roster CSV, JSON document, Markdown or printable HTML report.
+ */
+export class GroupExporter {
+    /**
+     * Available export formats.
+     */
+    public static FORMATS = ['text', 'csv', 'json', 'markdown', 'html'];
+
+    private _groups: Group[];
+    private _schema: AttributeSchema;
+    private _parameters: { [name: string]: string | number };
+
+    get groups(): Group[] {
+        return this._groups;
+    }
+
+    get parameters(): { [name: string]: string | number } {
+        return this._parameters;
+    }
+
+    /**
+     * Construct a new group exporter.
+     * @param groups        Groups to export.
+     * @param schema        Attribute schema used to name center dimensions. Default to Felder-Silverman learning styles.
+     * @param parameters    Model parameters to be included on JSON document and reports.
+     */
+    public constructor(groups: Group[], schema: AttributeSchema = AttributeSchema.FELDER_SILVERMAN, parameters: { [name: string]: string | number } = {}) {
+        this._groups = groups;
+        this._schema = schema;
+        this._parameters = parameters;
+    }
+
+    /**
+     * Create exporter from groups formed by a clustering model, taking schema and parameters from the model.
+     * @param model     Trained clustering model.
+     * @param groups    Groups formed by the model.
+     * @returns         Group exporter.
+     */
+    public static fromModel(model: IClusteringModel, groups: Group[]): GroupExporter {
+        const schema = model.partitionMatrix.length > 0 ? model.partitionMatrix[0].person.schema : AttributeSchema.FELDER_SILVERMAN;
+        const parameters: { [name: string]: string | number } = {
+            populationSize: model.partitionMatrix.length,
+            groupNum: model.groupNum,
+            mass: model.mass,
+            distanceMetric: model.distanceMetric.name,
+            objectiveValue: model.objectiveValue.toNumber(),
+            seed: model.seed,
+        };
+        if (model.name !== 'fcm') {
+            parameters.algorithm = model.name;
+        }
+        if (model.preprocessor) {
+            parameters.scaling = model.preprocessor.whiten ? `${model.preprocessor.method}+whiten(${model.preprocessor.outputLength})` : model.preprocessor.method;
+        }
+        return new GroupExporter(groups, schema, parameters);
+    }
+
+    /**
+     * Export groups in given format.
+     * @param format    One of FORMATS.
+     * @returns         Exported content.
+     * @throws          Error if format is unknown.
+     */
+    public export(format: string): string {
+        switch (format) {
+            case 'text':
+                return this.toText();
+            case 'csv':
+                return this.toCsv();
+            case 'json':
+                return this.toJson();
+            case 'markdown':
+                return this.toMarkdown();
+            case 'html':
+                return this.toHtml();
+            default:
+                throw new Error(`Unknown export format: ${format} (available: ${GroupExporter.FORMATS.join(', ')})`);
+        }
+    }
+
+    /**
+     * Export groups as plain text (console-friendly).
+     */
+    public toText(): string {
+        const labels = this._schema.featureLabels;
+        const parameters = Object.keys(this._parameters).filter(key => this._parameters[key] !== undefined);
+        const header = parameters.length > 0 ? `Parameters: ${parameters.map(key => `${key}=${this._parameters[key]}`).join(', ')}\n\n` : '';
+        return header + this._groups
+            .map(group => [
+                `Group ${group.id} (${group.members.length} members)`,
+                `  Center: ${group.centerVector.map((v, i) => `${labels[i]}=${v.toPrecision(7)}`).join(', ')}`,
+                ...group.members.map(member => `  - ${member.person.id.toString().padStart(4)}  ${member.person.name} (membership: ${group.membership(member).toFixed(4)})`),
+            ].join('\n'))
+            .join('\n\n');
+    }
+
+    /**
+     * Export groups as roster CSV, one row per person.
+     */
+    public toCsv(): string {
+        const escape = (value: string | number): string => {
+            const text = String(value);
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+        const rows: (string | number)[][] = [['PersonId', 'Name', 'GroupId', 'Membership']];
+        this._groups.forEach(group => group.members.forEach(member => {
+            rows.push([member.person.id, member.person.name, group.id, group.membership(member).toNumber()]);
+        }));
+        return rows.map(row => row.map(escape).join(',')).join('\n') + '\n';
+    }
+
+    /**
+     * Export groups as structured JSON document with centers and parameters.
+     */
+    public toJson(): string {
+        const names = this._schema.featureNames;
+        const labels = this._schema.featureLabels;
+        return JSON.stringify({
+            parameters: this._parameters,
+            dimensions: names.map((name, i) => ({ name, label: labels[i] })),
+            groups: this._groups.map(group => ({
+                id: group.id,
+                size: group.members.length,
+                center: group.centerVector.reduce((p, v, i) => {
+                    p[names[i]] = v.toNumber();
+                    return p;
+                }, {} as { [dimension: string]: number }),
+                members: group.members.map(member => ({
+                    id: member.person.id,
+                    name: member.person.name,
+                    membership: group.membership(member).toNumber(),
+                })),
+            })),
+        }, null, 2);
+    }
+
+    /**
+     * Export groups as Markdown report for instructors.
+     */
+    public toMarkdown(): string {
+        const labels = this._schema.featureLabels;
+        const escape = (text: string): string => text.replace(/([\\|*_`])/g, '\\$1');
+        const lines = ['# Group Formation Report', ''];
+        if (Object.keys(this._parameters).length > 0) {
+            lines.push('| Parameter | Value |', '| --- | --- |');
+            Object.keys(this._parameters).forEach(key => lines.push(`| ${escape(key)} | ${escape(String(this._parameters[key]))} |`));
+            lines.push('');
+        }
+        this._groups.forEach(group => {
+            lines.push(`## Group ${group.id} (${group.members.length} members)`, '');
+            lines.push('| Dimension | Center |', '| --- | ---: |');
+            group.centerVector.forEach((v, i) => lines.push(`| ${escape(labels[i])} | ${v.toFixed(2)} |`));
+            lines.push('', '| Id | Name | Membership |', '| ---: | --- | ---: |');
+            group.members.forEach(member => lines.push(`| ${member.person.id} | ${escape(member.person.name)} | ${group.membership(member).toFixed(4)} |`));
+            lines.push('');
+        });
+        return lines.join('\n');
+    }
+
+    /**
+     * Export groups as printable HTML report for instructors.
+     */
+    public toHtml(): string {
+        const labels = this._schema.featureLabels;
+        const escape = (text: string): string => text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+        const parameters = Object.keys(this._parameters)
+            .map(key => `<tr><th>${escape(key)}</th><td>${escape(String(this._parameters[key]))}</td></tr>`)
+            .join('');
+        const groups = this._groups
+            .map(group => [
+                `<section class="group">`,
+                `<h2>Group ${group.id} <small>(${group.members.length} members)</small></h2>`,
+                `<table class="center"><thead><tr><th>Dimension</th><th>Center</th></tr></thead><tbody>`,
+                ...group.centerVector.map((v, i) => `<tr><td>${escape(labels[i])}</td><td class="num">${v.toFixed(2)}</td></tr>`),
+                `</tbody></table>`,
+                `<table class="members"><thead><tr><th>Id</th><th>Name</th><th>Membership</th></tr></thead><tbody>`,
+                ...group.members.map(member => `<tr><td class="num">${member.person.id}</td><td>${escape(member.person.name)}</td><td class="num">${group.membership(member).toFixed(4)}</td></tr>`),
+                `</tbody></table>`,
+                `</section>`,
+            ].join('\n'))
+            .join('\n');
+        return [
+            '<!DOCTYPE html>',
+            '<html>',
+            '<head>',
+            '<meta charset="utf-8">',
+            '<title>Group Formation Report</title>',
+            '<style>',
+            'body { font-family: sans-serif; margin: 2em; }',
+            'table { border-collapse: collapse; margin: 0.5em 0; }',
+            'th, td { border: 1px solid #999; padding: 0.2em 0.6em; text-align: left; }',
+            'td.num { text-align: right; }',
+            '.group { page-break-inside: avoid; margin-bottom: 1.5em; }',
+            '@media print { body { margin: 0; } }',
+            '</style>',
+            '</head>',
+            '<body>',
+            '<h1>Group Formation Report</h1>',
+            parameters ? `<table class="parameters"><tbody>${parameters}</tbody></table>` : '',
+            groups,
+            '</body>',
+            '</html>',
+            '',
+        ].join('\n');
+    }
+}
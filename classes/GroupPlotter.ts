@@ -0,0 +1,338 @@
+﻿import { IClusteringModel, IMember, IProjectedPoint } from "../interfaces";
+import { Group } from "./Group";
+import { AttributeSchema } from "./AttributeSchema";
+import { Projection } from "./Projection";
+
+/**
+ * Plot formed groups: scatter plot of the population and cluster centers projected on their first two principal axes, and radar chart of each group profile.
+ * Plots are standalone SVG or HTML (no script, style sheet or font to fetch), or plain text for the terminal.
+ */
+export class GroupPlotter {
+    /**
+     * Available plot formats: terminal text, scatter SVG, radar SVG and HTML page with both.
+     */
+    public static FORMATS = ['text', 'svg', 'radar', 'html'];
+    /**
+     * Color of each group (cycled when there are more groups).
+     */
+    public static PALETTE = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'];
+    /**
+     * Above this population size, names are only shown as tooltips on the scatter plot.
+     */
+    public static LABEL_LIMIT = 200;
+
+    private static SYMBOLS = '123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+    private static BARS = '▁▂▃▄▅▆▇█';
+
+    private _points: IProjectedPoint[];
+    private _centers: { id: number, x: number, y: number }[];
+    private _groups: Group[];
+    private _schema: AttributeSchema;
+    private _explainedVariance: number[];
+    private _ranges: [number, number][];
+
+    /**
+     * Get projected persons.
+     */
+    get points(): IProjectedPoint[] {
+        return this._points;
+    }
+
+    /**
+     * Get projected cluster centers.
+     */
+    get centers(): { id: number, x: number, y: number }[] {
+        return this._centers;
+    }
+
+    /**
+     * Construct a new group plotter.
+     * @param points            Projected persons.
+     * @param centers           Projected cluster centers.
+     * @param groups            Formed groups (their center is drawn on radar charts).
+     * @param schema            Attribute schema used to name dimensions.
+     * @param explainedVariance Share of total variance along each projection axis.
+     * @param ranges            Lowest and highest value of each dimension on radar charts.
+     */
+    public constructor(points: IProjectedPoint[], centers: { id: number, x: number, y: number }[], groups: Group[], schema: AttributeSchema, explainedVariance: number[], ranges: [number, number][]) {
+        this._points = points;
+        this._centers = centers;
+        this._groups = groups;
+        this._schema = schema;
+        this._explainedVariance = explainedVariance;
+        this._ranges = ranges;
+    }
+
+    /**
+     * Create plotter from groups formed by a clustering model. Persons and centers are projected from model space (after preprocessing),
+     * group profiles are drawn in original units, each axis running over the bounds of its schema dimension (or the observed range if unbounded).
+     * @param model     Trained clustering model.
+     * @param groups    Groups formed by the model.
+     * @returns         Group plotter.
+     */
+    public static fromModel(model: IClusteringModel, groups: Group[]): GroupPlotter {
+        const schema = model.partitionMatrix.length > 0 ? model.partitionMatrix[0].person.schema : AttributeSchema.FELDER_SILVERMAN;
+        const projection = Projection.fit(model.dataMatrix);
+        const placement = new Map<IMember, Group>();
+        groups.forEach(group => group.members.forEach(member => placement.set(member, group)));
+        const points = model.partitionMatrix.map((member, i) => {
+            const group = placement.get(member);
+            const [x, y] = projection.project(model.dataMatrix[i]);
+            return { person: member.person, groupId: group ? group.id : 0, membership: group ? group.membership(member).toNumber() : 0, x, y };
+        });
+        const centers = model.clusterCenters.map(center => {
+            const [x, y] = projection.project(center.vector);
+            return { id: center.id, x, y };
+        });
+        const vectors = model.partitionMatrix.map(member => member.person.toVector().map(v => v.toNumber()));
+        const observed = (k: number): [number, number] => vectors.length > 0
+            ? [Math.min(...vectors.map(vector => vector[k])), Math.max(...vectors.map(vector => vector[k]))]
+            : [0, 1];
+        let k = 0;
+        const ranges = schema.dimensions
+            .map(dimension => {
+                if (schema.isCategorical(dimension)) {
+                    k += dimension.categories.length;
+                    return dimension.categories.map((): [number, number] => [0, 1]);
+                }
+                const [min, max] = observed(k++);
+                return [[dimension.min !== undefined ? dimension.min : min, dimension.max !== undefined ? dimension.max : max] as [number, number]];
+            })
+            .reduce((p, c) => p.concat(c), new Array<[number, number]>());
+        return new GroupPlotter(points, centers, groups, schema, projection.explainedVariance, ranges);
+    }
+
+    /**
+     * Plot groups in given format.
+     * @param format    One of FORMATS.
+     * @returns         Plot content.
+     * @throws          Error if format is unknown.
+     */
+    public export(format: string): string {
+        switch (format) {
+            case 'text':
+                return this.toText();
+            case 'svg':
+                return this.toScatterSvg();
+            case 'radar':
+                return this.toRadarSvg();
+            case 'html':
+                return this.toHtml();
+            default:
+                throw new Error(`Unknown plot format: ${format} (available: ${GroupPlotter.FORMATS.join(', ')})`);
+        }
+    }
+
+    /**
+     * Scatter plot as SVG: persons colored by group, sized by membership degree and labelled with their name, cluster centers as diamonds.
+     */
+    public toScatterSvg(): string {
+        const width = 900;
+        const height = 640;
+        const margin = 60;
+        const legendWidth = 140;
+        const plotWidth = width - 2 * margin - legendWidth;
+        const plotHeight = height - 2 * margin;
+        const xs = this._points.map(point => point.x).concat(this._centers.map(center => center.x));
+        const ys = this._points.map(point => point.y).concat(this._centers.map(center => center.y));
+        const [minX, maxX] = xs.length > 0 ? [Math.min(...xs), Math.max(...xs)] : [0, 0];
+        const [minY, maxY] = ys.length > 0 ? [Math.min(...ys), Math.max(...ys)] : [0, 0];
+        const spanX = Math.max(maxX - minX, 1e-9) * 1.1;
+        const spanY = Math.max(maxY - minY, 1e-9) * 1.1;
+        const scale = Math.min(plotWidth / spanX, plotHeight / spanY); // same scale on both axes, so distances are not distorted
+        const px = (x: number) => margin + plotWidth / 2 + (x - (minX + maxX) / 2) * scale;
+        const py = (y: number) => margin + plotHeight / 2 - (y - (minY + maxY) / 2) * scale;
+        const labelled = this._points.length <= GroupPlotter.LABEL_LIMIT;
+        const points = this._points
+            .slice()
+            .sort((a, b) => a.membership - b.membership)
+            .map(point => {
+                const x = px(point.x).toFixed(1);
+                const y = py(point.y).toFixed(1);
+                const radius = 3 + 7 * point.membership;
+                const title = `${point.person.name} (${point.person.id}): ${point.groupId > 0 ? `group ${point.groupId}, membership ${point.membership.toFixed(4)}` : 'no group'}`;
+                return [
+                    `<circle cx="${x}" cy="${y}" r="${radius.toFixed(1)}" fill="${this.color(point.groupId)}" fill-opacity="0.75" stroke="#ffffff" stroke-width="0.5"><title>${GroupPlotter.escape(title)}</title></circle>`,
+                    labelled ? `<text x="${(px(point.x) + radius + 2).toFixed(1)}" y="${(py(point.y) + 3).toFixed(1)}" font-size="9" fill="#333333">${GroupPlotter.escape(point.person.name)}</text>` : '',
+                ].join('');
+            });
+        const centers = this._centers.map(center => {
+            const x = px(center.x);
+            const y = py(center.y);
+            const group = this._groups.find(g => g.clusterId === center.id);
+            return `<path d="M ${x.toFixed(1)} ${(y - 8).toFixed(1)} L ${(x + 8).toFixed(1)} ${y.toFixed(1)} L ${x.toFixed(1)} ${(y + 8).toFixed(1)} L ${(x - 8).toFixed(1)} ${y.toFixed(1)} Z" fill="${group ? this.color(group.id) : '#ffffff'}" stroke="#000000" stroke-width="1.5"><title>Cluster center ${center.id}</title></path>`
+                + `<text x="${(x + 10).toFixed(1)}" y="${(y - 6).toFixed(1)}" font-size="11" font-weight="bold">C${center.id}</text>`;
+        });
+        const legendX = width - margin - legendWidth + 20;
+        const legend = this._groups.map((group, i) => `<circle cx="${legendX}" cy="${margin + 10 + i * 18}" r="5" fill="${this.color(group.id)}"/>`
+            + `<text x="${legendX + 10}" y="${margin + 14 + i * 18}" font-size="11">Group ${group.id} (${group.members.length})</text>`);
+        legend.push(`<path d="M ${legendX} ${margin + 4 + this._groups.length * 18} l 6 6 l -6 6 l -6 -6 Z" fill="#ffffff" stroke="#000000"/>`
+            + `<text x="${legendX + 10}" y="${margin + 14 + this._groups.length * 18}" font-size="11">Cluster center</text>`);
+        return [
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+            `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+            `<text x="${margin}" y="${margin / 2}" font-size="16" font-weight="bold">Learners and cluster centers on the first two principal axes</text>`,
+            `<rect x="${margin}" y="${margin}" width="${plotWidth}" height="${plotHeight}" fill="none" stroke="#999999"/>`,
+            `<text x="${margin + plotWidth / 2}" y="${height - margin / 2}" font-size="12" text-anchor="middle">${this.axisTitle(0)}</text>`,
+            `<text x="${margin / 2}" y="${margin + plotHeight / 2}" font-size="12" text-anchor="middle" transform="rotate(-90 ${margin / 2} ${margin + plotHeight / 2})">${this.axisTitle(1)}</text>`,
+            ...points,
+            ...centers,
+            ...legend,
+            '</svg>',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Radar charts as SVG: profile (center) of every group over the schema dimensions, three charts per row.
+     */
+    public toRadarSvg(): string {
+        const cell = 320;
+        const columns = Math.max(1, Math.min(3, this._groups.length));
+        const rows = Math.max(1, Math.ceil(this._groups.length / columns));
+        return [
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${columns * cell}" height="${rows * cell}" viewBox="0 0 ${columns * cell} ${rows * cell}" font-family="sans-serif">`,
+            `<rect width="${columns * cell}" height="${rows * cell}" fill="#ffffff"/>`,
+            ...this._groups.map((group, i) => this.radarChart(group, (i % columns) * cell, Math.floor(i / columns) * cell, cell)),
+            '</svg>',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Standalone HTML page with the scatter plot and the radar chart of every group.
+     */
+    public toHtml(): string {
+        return [
+            '<!DOCTYPE html>',
+            '<html>',
+            '<head>',
+            '<meta charset="utf-8">',
+            '<title>Group Map</title>',
+            '<style>',
+            'body { font-family: sans-serif; margin: 2em; }',
+            'svg { max-width: 100%; height: auto; }',
+            '@media print { body { margin: 0; } }',
+            '</style>',
+            '</head>',
+            '<body>',
+            '<h1>Group Map</h1>',
+            `<p>${this._points.length} learners in ${this._groups.length} groups. Each point is a learner, colored by group and sized by membership degree; diamonds are cluster centers.</p>`,
+            this.toScatterSvg(),
+            '<h2>Group Profiles</h2>',
+            '<p>Each axis runs from the lowest to the highest score of its dimension.</p>',
+            this.toRadarSvg(),
+            '</body>',
+            '</html>',
+            '',
+        ].join('\n');
+    }
+
+    /**
+     * Compact plot for the terminal: scatter plot with the group symbol of each learner (strongest membership wins a shared cell), then the profile of each group.
+     * @param width     Plot width in characters.
+     * @param height    Plot height in lines.
+     */
+    public toText(width: number = 72, height: number = 20): string {
+        const grid = new Array<number>(height).fill(0).map(() => new Array<string>(width).fill(' '));
+        const strength = new Array<number>(height).fill(0).map(() => new Array<number>(width).fill(-1));
+        const xs = this._points.map(point => point.x).concat(this._centers.map(center => center.x));
+        const ys = this._points.map(point => point.y).concat(this._centers.map(center => center.y));
+        const [minX, maxX] = xs.length > 0 ? [Math.min(...xs), Math.max(...xs)] : [0, 0];
+        const [minY, maxY] = ys.length > 0 ? [Math.min(...ys), Math.max(...ys)] : [0, 0];
+        const column = (x: number) => Math.round((x - minX) / Math.max(maxX - minX, 1e-9) * (width - 1));
+        const line = (y: number) => height - 1 - Math.round((y - minY) / Math.max(maxY - minY, 1e-9) * (height - 1));
+        this._points.forEach(point => {
+            const c = column(point.x);
+            const r = line(point.y);
+            if (point.membership > strength[r][c]) {
+                strength[r][c] = point.membership;
+                grid[r][c] = this.symbol(point.groupId);
+            }
+        });
+        this._centers.forEach(center => grid[line(center.y)][column(center.x)] = '*');
+        const labels = this._schema.featureLabels;
+        const symbols = this._groups.map(group => `${this.symbol(group.id)} = group ${group.id}`).join(', ');
+        return [
+            this.axisTitle(1),
+            `+${'-'.repeat(width)}+`,
+            ...grid.map(cells => `|${cells.join('')}|`),
+            `+${'-'.repeat(width)}+`,
+            `${' '.repeat(Math.max(0, width + 2 - this.axisTitle(0).length))}${this.axisTitle(0)}`,
+            `${symbols}${symbols ? ', ' : ''}* = cluster center${this._points.some(point => point.groupId === 0) ? ', . = no group' : ''}`,
+            '',
+            `Profiles (${GroupPlotter.BARS[0]} lowest to ${GroupPlotter.BARS[GroupPlotter.BARS.length - 1]} highest score): ${labels.join(', ')}`,
+            ...this._groups.map(group => `  Group ${group.id.toString().padStart(2)}  ${group.centerVector
+                .map((v, k) => GroupPlotter.BARS[Math.round(this.scaled(v.toNumber(), k) * (GroupPlotter.BARS.length - 1))])
+                .join('')}  ${group.members.length} members`),
+        ].join('\n');
+    }
+
+    /**
+     * Draw radar chart of a group into a square cell.
+     * @param group Group to draw.
+     * @param left  Left edge of the cell.
+     * @param top   Top edge of the cell.
+     * @param size  Cell size.
+     */
+    private radarChart(group: Group, left: number, top: number, size: number): string {
+        const labels = this._schema.featureLabels;
+        const radius = size * 0.26;
+        const cx = left + size / 2;
+        const cy = top + size / 2 + 10;
+        const angle = (k: number) => -Math.PI / 2 + 2 * Math.PI * k / Math.max(labels.length, 1);
+        const at = (k: number, share: number) => [cx + Math.cos(angle(k)) * radius * share, cy + Math.sin(angle(k)) * radius * share];
+        const polygon = (shares: number[]) => shares.map((share, k) => at(k, share).map(v => v.toFixed(1)).join(',')).join(' ');
+        const values = group.centerVector.map(v => v.toNumber());
+        const color = this.color(group.id);
+        return [
+            `<g>`,
+            `<text x="${cx}" y="${top + 24}" font-size="13" font-weight="bold" text-anchor="middle">Group ${group.id} (${group.members.length} members)</text>`,
+            ...[0.25, 0.5, 0.75, 1].map(ring => `<polygon points="${polygon(labels.map(() => ring))}" fill="none" stroke="#dddddd"/>`),
+            ...labels.map((label, k) => {
+                const [x, y] = at(k, 1);
+                const [lx, ly] = at(k, 1.15);
+                const cos = Math.cos(angle(k));
+                const anchor = cos > 0.1 ? 'start' : cos < -0.1 ? 'end' : 'middle';
+                const lines = label.length > 12 ? label.split(/(?<=\/)/) : [label]; // long label wraps after each slash, e.g. Active/ Reflective
+                const first = ly + 3 - (lines.length - 1) * 6;
+                return `<line x1="${cx}" y1="${cy}" x2="${x.toFixed(1)}" y2="${y.toFixed(1)}" stroke="#cccccc"/>`
+                    + `<text font-size="10" text-anchor="${anchor}">${lines.map((text, j) => `<tspan x="${lx.toFixed(1)}" y="${(first + j * 12).toFixed(1)}">${GroupPlotter.escape(text)}</tspan>`).join('')}</text>`;
+            }),
+            `<polygon points="${polygon(values.map((v, k) => this.scaled(v, k)))}" fill="${color}" fill-opacity="0.35" stroke="${color}" stroke-width="2"/>`,
+            ...values.map((v, k) => {
+                const [x, y] = at(k, this.scaled(v, k));
+                return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="3" fill="${color}"><title>${GroupPlotter.escape(`${labels[k]}: ${v.toFixed(2)}`)}</title></circle>`;
+            }),
+            `</g>`,
+        ].join('\n');
+    }
+
+    /**
+     * Position of a value within the range of its dimension (0 to 1).
+     */
+    private scaled(value: number, k: number): number {
+        const [min, max] = this._ranges[k] || [0, 1];
+        return max > min ? Math.min(1, Math.max(0, (value - min) / (max - min))) : 0.5;
+    }
+
+    private axisTitle(k: number): string {
+        return `PC${k + 1} (${((this._explainedVariance[k] || 0) * 100).toFixed(1)}% of variance)`;
+    }
+
+    private color(groupId: number): string {
+        return groupId > 0 ? GroupPlotter.PALETTE[(groupId - 1) % GroupPlotter.PALETTE.length] : '#999999';
+    }
+
+    private symbol(groupId: number): string {
+        return groupId > 0 ? GroupPlotter.SYMBOLS[(groupId - 1) % GroupPlotter.SYMBOLS.length] : '.';
+    }
+
+    private static escape(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
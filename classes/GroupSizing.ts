@@ -0,0 +1,131 @@
+﻿import { IGroupSizeSpec } from "../interfaces";
+
+/**
+ * Size bounds of each group, resolved from a group count, a target size with tolerance, or an explicit capacity list.
+ */
+export class GroupSizing {
+    private _minSizes: number[];
+    private _maxSizes: number[];
+
+    /**
+     * Get number of groups.
+     */
+    get groupNum(): number {
+        return this._maxSizes.length;
+    }
+
+    /**
+     * Get minimum size of each group.
+     */
+    get minSizes(): number[] {
+        return this._minSizes;
+    }
+
+    /**
+     * Get maximum size of each group.
+     */
+    get maxSizes(): number[] {
+        return this._maxSizes;
+    }
+
+    /**
+     * Construct a new group sizing.
+     * @param minSizes  Minimum size of each group.
+     * @param maxSizes  Maximum size of each group.
+     * @throws          Error if bounds have different length, or a bound is negative or not an integer, or a minimum exceeds its maximum.
+     */
+    public constructor(minSizes: number[], maxSizes: number[]) {
+        if (minSizes.length !== maxSizes.length) {
+            throw new Error(`Got ${minSizes.length} minimum sizes and ${maxSizes.length} maximum sizes`);
+        }
+        minSizes.forEach((min, g) => {
+            if (!Number.isInteger(min) || !Number.isInteger(maxSizes[g]) || min < 0 || min > maxSizes[g]) {
+                throw new Error(`Size bounds of group ${g + 1} must be non-negative integers, minimum not greater than maximum: ${min}..${maxSizes[g]}`);
+            }
+        });
+        this._minSizes = minSizes;
+        this._maxSizes = maxSizes;
+    }
+
+    /**
+     * Balanced sizing: every group gets floor(n / groupNum) or ceil(n / groupNum) members.
+     * @param populationSize    Number of person in population.
+     * @param groupNum          Number of groups.
+     */
+    public static balanced(populationSize: number, groupNum: number): GroupSizing {
+        return new GroupSizing(
+            new Array<number>(groupNum).fill(Math.floor(populationSize / groupNum)),
+            new Array<number>(groupNum).fill(Math.ceil(populationSize / groupNum)));
+    }
+
+    /**
+     * Resolve sizing from a size specification.
+     * Capacities give one group per capacity. A target size alone gives round(n / size) balanced groups.
+     * A target size with minimum and/or maximum gives the feasible number of groups closest to n / size, each between minimum and maximum.
+     * @param spec              Size specification.
+     * @param populationSize    Number of person in population.
+     * @returns                 Group sizing.
+     * @throws                  Error if specification is empty or invalid, or population cannot be split accordingly.
+     */
+    public static fromSpec(spec: IGroupSizeSpec, populationSize: number): GroupSizing {
+        const isCount = (value: number) => Number.isInteger(value) && value >= 1;
+        if (spec.capacities) {
+            if (spec.capacities.length === 0 || !spec.capacities.every(isCount)) {
+                throw new Error(`Group capacities must be positive integers: ${spec.capacities.join()}`);
+            }
+            const surplus = spec.capacities.reduce((p, c) => p + c, 0) - populationSize;
+            if (surplus < 0) {
+                throw new Error(`Group capacities add up to ${populationSize + surplus}, population has ${populationSize} persons`);
+            }
+            return new GroupSizing(spec.capacities.map(capacity => Math.max(0, capacity - surplus)), spec.capacities.slice());
+        }
+        if (spec.minSize === undefined && spec.maxSize === undefined) {
+            if (!isCount(spec.size)) {
+                throw new Error('Group size must be a positive integer (or group capacities must be set)');
+            }
+            return GroupSizing.balanced(populationSize, Math.max(1, Math.round(populationSize / spec.size)));
+        }
+        const min = spec.minSize !== undefined ? spec.minSize : spec.size;
+        const max = spec.maxSize !== undefined ? spec.maxSize : spec.size;
+        if (!isCount(min) || !isCount(max) || min > max) {
+            throw new Error(`Minimum and maximum group size must be positive integers, minimum not greater than maximum: ${min}..${max}`);
+        }
+        const fewest = Math.ceil(populationSize / max);
+        const most = Math.floor(populationSize / min);
+        if (fewest > most) {
+            throw new Error(`Cannot split ${populationSize} persons into groups of ${min} to ${max} members`);
+        }
+        const target = populationSize / (spec.size !== undefined ? spec.size : (min + max) / 2);
+        const groupNum = Math.min(most, Math.max(fewest, Math.round(target)));
+        return new GroupSizing(new Array<number>(groupNum).fill(min), new Array<number>(groupNum).fill(max));
+    }
+
+    /**
+     * Check that population fits the bounds.
+     * @param populationSize    Number of person in population.
+     * @throws                  Error if population is smaller than the sum of minimum sizes or larger than the sum of maximum sizes.
+     */
+    public validate(populationSize: number) {
+        const min = this._minSizes.reduce((p, c) => p + c, 0);
+        const max = this._maxSizes.reduce((p, c) => p + c, 0);
+        if (populationSize < min || populationSize > max) {
+            throw new Error(`Group sizes allow ${min} to ${max} persons, population has ${populationSize} persons`);
+        }
+    }
+
+    /**
+     * Pick exact group sizes within the bounds, as even as possible.
+     * @param populationSize    Number of person in population.
+     * @returns                 Size of each group.
+     * @throws                  Error if population does not fit the bounds.
+     */
+    public targetSizes(populationSize: number): number[] {
+        this.validate(populationSize);
+        const sizes = this._minSizes.slice();
+        for (let remaining = populationSize - sizes.reduce((p, c) => p + c, 0); remaining > 0; remaining--) {
+            const g = sizes.reduce((best, size, k) => size < this._maxSizes[k] && (best < 0 || size < sizes[best]) ? k : best, -1);
+            sizes[g] += 1;
+        }
+        return sizes;
+    }
+}
@@ -0,0 +1,91 @@
+﻿import Decimal from 'decimal.js';
+import { IClusteringOptions } from "../interfaces";
+import { Person } from "./Person";
+import { ClusteringModel } from "./ClusteringModel";
+import { MahalanobisDistance } from "./MahalanobisDistance";
+import { MatrixHelper } from "./MatrixHelper";
+
+/**
+ * Gustafson-Kessel (GK) model: FCM where each cluster has its own norm, adapted to its fuzzy covariance F,
+ * so clusters can be ellipsoidal. Squared distance is d² = det(F)^(1/n) (x - v)ᵀ F⁻¹ (x - v) (every cluster has volume 1).
+ * The distance metric set on the model is only used on initialization and validity scoring.
+ */
+export class GustafsonKessel extends ClusteringModel {
+    private _covariances: Decimal[][][]; // F of each cluster
+    private _norms: { volume: Decimal, distance: MahalanobisDistance }[]; // det(F)^(1/n) and F⁻¹ of each cluster
+
+    get name(): string {
+        return 'gk';
+    }
+
+    /**
+     * Get fuzzy covariance matrix of each cluster, estimated from the current partition (empty before training).
+     */
+    get covariances(): Decimal[][][] {
+        return this._covariances;
+    }
+
+    /**
+     * Construct a new GK model. See ClusteringModel for parameters.
+     * @throws  Error if a numeric backend other than decimal is set.
+     */
+    public constructor(population: Person[], groupNum: number, initialVectors: Decimal[][] = null, options: IClusteringOptions = {}) {
+        super(population, groupNum, initialVectors, options);
+        this.requireDecimalBackend();
+        this._covariances = [];
+        this._norms = [];
+    }
+
+    /**
+     * Update centers from uᵐ, then cluster norms, then memberships.
+     * @returns J = ∑∑ uᵐ d².
+     */
+    protected iterateOnce(): Decimal {
+        const weights = this._memberships.map(row => row.map(u => u.pow(this.mass)));
+        this._centers = this.weightedCenters(weights);
+        this.useCovariances(this.clusterCovariances(weights, this._centers));
+        const distances = this.dataMatrix.map(vector => this.squaredDistances(this._centers, vector));
+        this._memberships = distances.map(row => this.inverseDistanceMemberships(row));
+        this.constrain(this._memberships);
+        return this._memberships
+            .map((row, k) => row.map((u, i) => u.pow(this.mass).times(distances[k][i])).reduce((p, c) => p.plus(c)))
+            .reduce((p, c) => p.plus(c));
+    }
+
+    /**
+     * Estimate cluster norms from the trained partition, used on prediction.
+     */
+    protected refresh() {
+        const centers = this.clusterCenters.map(center => center.vector);
+        this.useCovariances(this.clusterCovariances(this.partitionMatrix.map(row => row.vector.map(u => u.pow(this.mass))), centers));
+    }
+
+    /**
+     * Fuzzy membership of a vector, using the norm of each cluster.
+     * @param vector    Vector after preprocessing.
+     */
+    protected membershipOf(vector: Decimal[]): Decimal[] {
+        return this.inverseDistanceMemberships(this.squaredDistances(this.clusterCenters.map(center => center.vector), vector));
+    }
+
+    /**
+     * Set cluster covariances and derive the norm of each cluster.
+     * @param covariances   Fuzzy covariance matrix of each cluster.
+     */
+    private useCovariances(covariances: Decimal[][][]) {
+        this._covariances = covariances;
+        this._norms = covariances.map(covariance => ({
+            volume: MatrixHelper.determinant(covariance).pow(new Decimal(1).div(covariance.length)),
+            distance: new MahalanobisDistance(covariance),
+        }));
+    }
+
+    /**
+     * Squared distance from a vector to each center, in the norm of each cluster.
+     * @param centers   Cluster centers.
+     * @param vector    Vector after preprocessing.
+     */
+    private squaredDistances(centers: Decimal[][], vector: Decimal[]): Decimal[] {
+        return centers.map((center, i) => this._norms[i].volume.times(this._norms[i].distance.distance(center, vector).pow(2)));
+    }
+}
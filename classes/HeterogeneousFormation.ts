@@ -0,0 +1,198 @@
+﻿import Decimal from "decimal.js";
+import { IMember, IRandomGenerator } from "../interfaces";
+import { Group } from "./Group";
+import { ConstraintSet } from "./ConstraintSet";
+import { PairHistory } from "./PairHistory";
+import { RepeatPenalty } from "./RepeatPenalty";
+
+/**
+ * Form heterogeneous groups: members of each cluster are spread across groups, then members are swapped between groups to maximise within-group diversity.
+ * Diversity of a group is the sum of squared distance between the membership vectors of every pair of its members.
+ */
+export class HeterogeneousFormation {
+    /**
+     * Maximum number of improvement passes.
+     */
+    public static MAX_PASSES = 50;
+    /**
+     * Above this population size, each person is only compared against a random sample of swap candidates.
+     */
+    public static FULL_SEARCH_LIMIT = 1000;
+    /**
+     * Number of swap candidates sampled for each person on large population.
+     */
+    public static SAMPLE_SIZE = 64;
+
+    private _members: IMember[];
+    private _groupNum: number;
+    private _random: IRandomGenerator;
+    private _constraints: ConstraintSet;
+    private _sizes: number[];
+    private _history: PairHistory;
+    private _historyWeight: number;
+
+    /**
+     * Construct a new heterogeneous formation.
+     * @param members       Members of the partition matrix.
+     * @param groupNum      Number of groups to form.
+     * @param random        Random generator used to sample swap candidates on large population.
+     * @param constraints   Constraints to honour (if set). Pinned and must-linked members are placed first and never swapped.
+     * @param sizes         Exact size of each group (if set). Default to floor(n / groupNum) or ceil(n / groupNum).
+     * @param history       Pair history (if set): a swap also gains from separating previous teammates (see RepeatPenalty).
+     * @param historyWeight Penalty of one session already spent together, in diversity units.
+     * @throws              Error if sizes do not match number of groups or population size.
+     */
+    public constructor(members: IMember[], groupNum: number, random: IRandomGenerator, constraints: ConstraintSet = null, sizes: number[] = null, history: PairHistory = null, historyWeight: number = 1) {
+        if (sizes && (sizes.length !== groupNum || sizes.reduce((p, c) => p + c, 0) !== members.length)) {
+            throw new Error(`Group sizes must list ${groupNum} groups adding up to ${members.length} persons: ${sizes.join()}`);
+        }
+        this._members = members;
+        this._groupNum = groupNum;
+        this._random = random;
+        this._constraints = constraints;
+        this._sizes = sizes;
+        this._history = history;
+        this._historyWeight = historyWeight;
+    }
+
+    /**
+     * Form groups. Group sizes are the requested ones, or kept between floor(n / groupNum) and ceil(n / groupNum).
+     * @returns Formed groups (not tied to any cluster).
+     */
+    public form(): Group[] {
+        const n = this._members.length;
+        const memberships = this._members.map(member => member.vector.map(v => v.toNumber()));
+        const capacities = this._sizes || new Array<number>(this._groupNum).fill(0).map((_, g) => Math.floor(n / this._groupNum) + (g < n % this._groupNum ? 1 : 0));
+
+        // Stage 1 => Deal members of each cluster (strongest first) to groups in snake order, so every cluster is spread evenly
+        const order = memberships
+            .map((u, i) => ({ i, cluster: this.argMax(u), strength: Math.max(...u) }))
+            .sort((a, b) => a.cluster - b.cluster || b.strength - a.strength);
+        const assignment = new Array<number>(n).fill(-1);
+        const sizes = new Array<number>(this._groupNum).fill(0);
+        if (this._constraints) {
+            this.placeConstrained(assignment, sizes, capacities);
+        }
+        let position = 0;
+        order.filter(entry => assignment[entry.i] < 0).forEach(entry => {
+            let group: number;
+            do {
+                let round = Math.floor(position / this._groupNum);
+                let offset = position % this._groupNum;
+                group = round % 2 === 0 ? offset : this._groupNum - 1 - offset;
+                position += 1;
+            } while (sizes[group] >= capacities[group] && position < n * this._groupNum);
+            assignment[entry.i] = group;
+            sizes[group] += 1;
+        });
+
+        // Stage 2 => Swap members between groups while diversity improves (less the penalty of previous teammates put together, with history)
+        const penalty = this._history ? new RepeatPenalty(this._history, this._members.map(member => member.person.id), assignment, this._groupNum, this._historyWeight) : null;
+        // Pairwise diversity of a group = |G| ∑||u||² - ||∑u||², so a swap only needs each group sum vector
+        const sums = new Array<number>(this._groupNum).fill(0).map(() => new Array<number>(memberships[0] ? memberships[0].length : 0).fill(0));
+        memberships.forEach((u, i) => u.forEach((v, k) => sums[assignment[i]][k] += v));
+        const squaredNorm = (vector: number[]) => vector.reduce((p, v) => p + v * v, 0);
+        const swapGain = (a: number, b: number): number => {
+            const ga = assignment[a];
+            const gb = assignment[b];
+            const diff = memberships[b].map((v, k) => v - memberships[a][k]);
+            const newA = sums[ga].map((v, k) => v + diff[k]);
+            const newB = sums[gb].map((v, k) => v - diff[k]);
+            const normDelta = squaredNorm(memberships[b]) - squaredNorm(memberships[a]);
+            return sizes[ga] * normDelta - sizes[gb] * normDelta
+                - (squaredNorm(newA) - squaredNorm(sums[ga]))
+                - (squaredNorm(newB) - squaredNorm(sums[gb]));
+        };
+        for (let pass = 0; pass < HeterogeneousFormation.MAX_PASSES; pass++) {
+            let improved = false;
+            for (let a = 0; a < n; a++) {
+                let bestGain = 1e-12;
+                let best = -1;
+                this.candidates(a).forEach(b => {
+                    if (assignment[a] !== assignment[b] && (!this._constraints || this._constraints.canSwap(a, b, assignment))) {
+                        let gain = penalty ? swapGain(a, b) - penalty.swapDelta(a, b) : swapGain(a, b);
+                        if (gain > bestGain) {
+                            bestGain = gain;
+                            best = b;
+                        }
+                    }
+                });
+                if (best >= 0) {
+                    const ga = assignment[a];
+                    const gb = assignment[best];
+                    if (penalty) {
+                        penalty.swap(a, best);
+                    }
+                    memberships[best].forEach((v, k) => {
+                        sums[ga][k] += v - memberships[a][k];
+                        sums[gb][k] -= v - memberships[a][k];
+                    });
+                    assignment[a] = gb;
+                    assignment[best] = ga;
+                    improved = true;
+                }
+            }
+            if (!improved) {
+                break;
+            }
+        }
+        if (this._constraints) {
+            this._constraints.repair(assignment, () => 0);
+        }
+
+        return capacities.map((_, g) => {
+            const members = this._members.filter((__, i) => assignment[i] === g);
+            const vectors = members.map(member => member.person.toVector());
+            const center = vectors.length > 0
+                ? vectors.reduce((p, c) => p === null ? c.slice() : p.map((v, k) => v.plus(c[k])), null).map(v => v.div(vectors.length))
+                : new Array<Decimal>();
+            return new Group(g + 1, center, members, null);
+        });
+    }
+
+    /**
+     * Diversity of each group: sum of squared distance between the membership vectors of every pair of its members.
+     * @param groups    Groups to measure.
+     */
+    public static diversity(groups: Group[]): number[] {
+        return groups.map(group => {
+            const memberships = group.members.map(member => member.vector.map(v => v.toNumber()));
+            const sum = memberships.reduce((p, u) => p.map((v, k) => v + u[k]), memberships.length > 0 ? memberships[0].map(() => 0) : []);
+            return memberships.length * memberships.reduce((p, u) => p + u.reduce((q, v) => q + v * v, 0), 0) - sum.reduce((p, v) => p + v * v, 0);
+        });
+    }
+
+    /**
+     * Place pinned members and must-link components (largest first, into the group with the most room left) before everything else.
+     */
+    private placeConstrained(assignment: number[], sizes: number[], capacities: number[]) {
+        this._constraints.components
+            .filter(component => component.length > 1 || this._constraints.pinnedGroup(component[0]) >= 0)
+            .sort((a, b) => Number(this._constraints.pinnedGroup(b[0]) >= 0) - Number(this._constraints.pinnedGroup(a[0]) >= 0) || b.length - a.length)
+            .forEach(component => {
+                let group = this._constraints.pinnedGroup(component[0]);
+                if (group < 0) {
+                    const conflicts = component
+                        .map(i => this._constraints.cannotLinkOf(i).map(j => assignment[j]))
+                        .reduce((p, c) => p.concat(c), new Array<number>());
+                    group = sizes
+                        .map((size, g) => ({ size, g }))
+                        .sort((a, b) => Number(conflicts.indexOf(a.g) >= 0) - Number(conflicts.indexOf(b.g) >= 0) || (capacities[b.g] - b.size) - (capacities[a.g] - a.size))[0].g;
+                }
+                component.forEach(i => assignment[i] = group);
+                sizes[group] += component.length;
+            });
+    }
+
+    private candidates(a: number): number[] {
+        const n = this._members.length;
+        if (n <= HeterogeneousFormation.FULL_SEARCH_LIMIT) {
+            return new Array<number>(n).fill(0).map((_, i) => i).filter(i => i !== a);
+        }
+        return new Array<number>(HeterogeneousFormation.SAMPLE_SIZE).fill(0).map(() => Math.floor(this._random.next() * n));
+    }
+
+    private argMax(values: number[]): number {
+        return values.reduce((best, v, i) => v > values[best] ? i : best, 0);
+    }
+}
@@ -0,0 +1,46 @@
+﻿import { IApiError } from "../interfaces";
+
+/**
+ * Error answered by the HTTP API with its status code and structured body.
+ */
+export class HttpError extends Error {
+    private _status: number;
+    private _code: string;
+    private _details: IApiError['details'];
+
+    /**
+     * Get HTTP status code.
+     */
+    get status(): number {
+        return this._status;
+    }
+
+    /**
+     * Get machine-readable error code.
+     */
+    get code(): string {
+        return this._code;
+    }
+
+    /**
+     * Construct a new HTTP error.
+     * @param status    HTTP status code.
+     * @param code      Machine-readable error code.
+     * @param message   Human-readable message.
+     * @param details   Individual problems (if any).
+     */
+    public constructor(status: number, code: string, message: string, details: IApiError['details'] = undefined) {
+        super(message);
+        this.name = 'HttpError';
+        this._status = status;
+        this._code = code;
+        this._details = details;
+    }
+
+    /**
+     * Convert into API error body.
+     */
+    public toJSON(): IApiError {
+        return this._details ? { code: this._code, message: this.message, details: this._details } : { code: this._code, message: this.message };
+    }
+}
@@ -0,0 +1,54 @@
+﻿import Decimal from 'decimal.js';
+import { IClusteringOptions } from "../interfaces";
+import { Person } from "./Person";
+import { ClusteringModel } from "./ClusteringModel";
+
+/**
+ * Hard k-means (Lloyd) model: every person fully belongs to its nearest center, centers are the mean of their members.
+ * Mass (m) is not used. The first iteration takes centers from the (fuzzy) initial partition, so every initialization strategy can be used.
+ */
+export class KMeans extends ClusteringModel {
+    get name(): string {
+        return 'kmeans';
+    }
+
+    /**
+     * Construct a new k-means model. See ClusteringModel for parameters.
+     * @throws  Error if a numeric backend other than decimal is set.
+     */
+    public constructor(population: Person[], groupNum: number, initialVectors: Decimal[][] = null, options: IClusteringOptions = {}) {
+        super(population, groupNum, initialVectors, options);
+        this.requireDecimalBackend();
+    }
+
+    /**
+     * Move centers to the mean of their members, then assign every person to its nearest center.
+     * @returns Within-cluster sum of squared distances, J = ∑∑ u d².
+     */
+    protected iterateOnce(): Decimal {
+        this._centers = this.weightedCenters(this._memberships);
+        const distances = this.dataMatrix.map(vector => this._centers.map(center => this.distanceMetric.distance(center, vector)));
+        this._memberships = distances.map(row => this.nearest(row));
+        this.constrain(this._memberships);
+        return this._memberships
+            .map((row, k) => row.map((u, i) => u.times(distances[k][i].pow(2))).reduce((p, c) => p.plus(c)))
+            .reduce((p, c) => p.plus(c));
+    }
+
+    /**
+     * Crisp membership to the nearest center.
+     * @param vector    Vector after preprocessing.
+     */
+    protected membershipOf(vector: Decimal[]): Decimal[] {
+        return this.nearest(this.clusterCenters.map(center => this.distanceMetric.distance(center.vector, vector)));
+    }
+
+    /**
+     * Crisp membership vector, 1 for the nearest cluster (first one on tie) and 0 for the others.
+     * @param distances Distance to each cluster.
+     */
+    private nearest(distances: Decimal[]): Decimal[] {
+        const best = distances.reduce((best, d, i) => d.lessThan(distances[best]) ? i : best, 0);
+        return distances.map((_, i) => i === best ? ClusteringModel.ONE : ClusteringModel.ZERO);
+    }
+}
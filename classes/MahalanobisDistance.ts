@@ -0,0 +1,89 @@
+﻿import Decimal from "decimal.js";
+import { DistanceMetric } from "./DistanceMetric";
+import { MatrixHelper } from "./MatrixHelper";
+
+/**
+ * Mahalanobis distance. Covariance is estimated from the population when the metric is fitted.
+ */
+export class MahalanobisDistance extends DistanceMetric {
+    private _covariance: Decimal[][];
+    private _inverseCovariance: Decimal[][];
+    private _fastInverseCovariance: number[][];
+
+    get name(): string {
+        return 'mahalanobis';
+    }
+
+    /**
+     * Get covariance matrix (null if not fitted yet).
+     */
+    get covariance(): Decimal[][] {
+        return this._covariance;
+    }
+
+    /**
+     * Get inverse covariance matrix (null if not fitted yet).
+     */
+    get inverseCovariance(): Decimal[][] {
+        return this._inverseCovariance;
+    }
+
+    /**
+     * Construct a new mahalanobis distance.
+     * @param covariance    Covariance matrix (if set). Set null to estimate it from population on fit.
+     */
+    public constructor(covariance: Decimal[][] = null) {
+        super();
+        this._covariance = covariance;
+        this.useInverseCovariance(covariance ? MatrixHelper.invert(covariance) : null);
+    }
+
+    /**
+     * Estimate covariance matrix from population.
+     * @param vectors   Population vectors.
+     */
+    public fit(vectors: Decimal[][]) {
+        this._covariance = MatrixHelper.covariance(vectors);
+        this.useInverseCovariance(MatrixHelper.invert(this._covariance));
+    }
+
+    public distance(leftVector: Decimal[], rightVector: Decimal[]): Decimal {
+        this.assertSameLength(leftVector, rightVector);
+        if (this._inverseCovariance === null) {
+            throw new Error('Mahalanobis distance must be fitted before use');
+        }
+        if (leftVector.length !== this._inverseCovariance.length) {
+            throw new Error(`Vector size is not equal: vector => ${leftVector.length}, covariance => ${this._inverseCovariance.length}`);
+        }
+        let diff = leftVector.map((v, i) => v.minus(rightVector[i]));
+        let squared = this._inverseCovariance
+            .map((row, i) => row.map((v, j) => v.times(diff[j])).reduce((p, c) => p.plus(c)).times(diff[i]))
+            .reduce((p, c) => p.plus(c));
+        // Guard against tiny negative value caused by rounding on near-singular covariance
+        return Decimal.sqrt(Decimal.max(0, squared));
+    }
+
+    public fastDistance(leftVector: ArrayLike<number>, rightVector: ArrayLike<number>): number {
+        this.assertSameLength(leftVector, rightVector);
+        if (this._fastInverseCovariance === null) {
+            throw new Error('Mahalanobis distance must be fitted before use');
+        }
+        if (leftVector.length !== this._fastInverseCovariance.length) {
+            throw new Error(`Vector size is not equal: vector => ${leftVector.length}, covariance => ${this._fastInverseCovariance.length}`);
+        }
+        let squared = 0;
+        for (let i = 0; i < leftVector.length; i++) {
+            let row = 0;
+            for (let j = 0; j < leftVector.length; j++) {
+                row += this._fastInverseCovariance[i][j] * (leftVector[j] - rightVector[j]);
+            }
+            squared += row * (leftVector[i] - rightVector[i]);
+        }
+        return Math.sqrt(Math.max(0, squared));
+    }
+
+    private useInverseCovariance(inverseCovariance: Decimal[][]) {
+        this._inverseCovariance = inverseCovariance;
+        this._fastInverseCovariance = inverseCovariance ? inverseCovariance.map(row => row.map(v => v.toNumber())) : null;
+    }
+}
@@ -0,0 +1,25 @@
+﻿import Decimal from "decimal.js";
+import { DistanceMetric } from "./DistanceMetric";
+
+/**
+ * Manhattan (L1 / city-block) distance.
+ */
+export class ManhattanDistance extends DistanceMetric {
+    get name(): string {
+        return 'manhattan';
+    }
+
+    public distance(leftVector: Decimal[], rightVector: Decimal[]): Decimal {
+        this.assertSameLength(leftVector, rightVector);
+        return leftVector.map((v, i) => Decimal.abs(v.minus(rightVector[i]))).reduce((p, c) => p.plus(c));
+    }
+
+    public fastDistance(leftVector: ArrayLike<number>, rightVector: ArrayLike<number>): number {
+        this.assertSameLength(leftVector, rightVector);
+        let sum = 0;
+        for (let i = 0; i < leftVector.length; i++) {
+            sum += Math.abs(leftVector[i] - rightVector[i]);
+        }
+        return sum;
+    }
+}
@@ -0,0 +1,221 @@
+﻿import Decimal from "decimal.js";
+
+/**
+ * Small set of matrix operation used by metrics and models.
+ */
+export class MatrixHelper {
+    /**
+     * Ridge added to the diagonal when a covariance matrix is singular.
+     */
+    public static RIDGE = new Decimal('1e-9');
+    /**
+     * Off-diagonal magnitude under which Jacobi rotations stop.
+     */
+    public static JACOBI_TOLERANCE = new Decimal('1e-15');
+    /**
+     * Maximum number of Jacobi sweeps.
+     */
+    public static JACOBI_SWEEPS = 100;
+
+    /**
+     * Calculate mean vector of a set of vectors.
+     * @param vectors   Set of vectors (must not be empty).
+     * @returns         Mean vector.
+     */
+    public static mean(vectors: Decimal[][]): Decimal[] {
+        return vectors
+            .reduce((p, c) => p === null ? c.slice() : p.map((v, i) => v.plus(c[i])), null)
+            .map(v => v.div(vectors.length));
+    }
+
+    /**
+     * Calculate sample covariance matrix of a set of vectors.
+     * @param vectors   Set of vectors.
+     * @returns         Covariance matrix.
+     * @throws          Error if vector set has less than 2 vectors.
+     */
+    public static covariance(vectors: Decimal[][]): Decimal[][] {
+        if (vectors.length < 2) {
+            throw new Error('At least 2 vectors are required to estimate covariance');
+        }
+        const mean = MatrixHelper.mean(vectors);
+        const size = mean.length;
+        const centered = vectors.map(vector => vector.map((v, i) => v.minus(mean[i])));
+        let result: Decimal[][] = new Array<Decimal[]>();
+        for (let i = 0; i < size; i++) {
+            result.push(new Array<Decimal>(size));
+            for (let j = 0; j < size; j++) {
+                result[i][j] = j < i
+                    ? result[j][i]
+                    : centered.map(row => row[i].times(row[j])).reduce((p, c) => p.plus(c)).div(vectors.length - 1);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Calculate weighted covariance matrix of a set of vectors around a given center, ∑ w (x - v)(x - v)ᵀ / ∑ w (e.g. fuzzy covariance of a cluster).
+     * @param vectors   Set of vectors.
+     * @param weights   Weight of each vector (must not sum to 0).
+     * @param center    Center the deviations are taken from.
+     * @returns         Covariance matrix.
+     */
+    public static weightedCovariance(vectors: Decimal[][], weights: Decimal[], center: Decimal[]): Decimal[][] {
+        const size = center.length;
+        const total = weights.reduce((p, c) => p.plus(c));
+        const centered = vectors.map(vector => vector.map((v, i) => v.minus(center[i])));
+        let result: Decimal[][] = new Array<Decimal[]>();
+        for (let i = 0; i < size; i++) {
+            result.push(new Array<Decimal>(size));
+            for (let j = 0; j < size; j++) {
+                result[i][j] = j < i
+                    ? result[j][i]
+                    : centered.map((row, k) => weights[k].times(row[i]).times(row[j])).reduce((p, c) => p.plus(c)).div(total);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Calculate determinant of square matrix using Gaussian elimination with partial pivoting.
+     * @param matrix    Square matrix.
+     * @returns         Determinant.
+     * @throws          Error if matrix is not square.
+     */
+    public static determinant(matrix: Decimal[][]): Decimal {
+        const size = matrix.length;
+        if (matrix.some(row => row.length !== size)) {
+            throw new Error(`Matrix is not square: ${size} rows, ${matrix.map(row => row.length).join()} columns`);
+        }
+        let a = matrix.map(row => row.slice());
+        let result = new Decimal(1);
+        for (let col = 0; col < size; col++) {
+            let pivot = col;
+            for (let row = col + 1; row < size; row++) {
+                if (a[row][col].abs().greaterThan(a[pivot][col].abs())) {
+                    pivot = row;
+                }
+            }
+            if (a[pivot][col].isZero()) {
+                return new Decimal(0);
+            }
+            if (pivot !== col) {
+                [a[col], a[pivot]] = [a[pivot], a[col]];
+                result = result.neg();
+            }
+            result = result.times(a[col][col]);
+            for (let row = col + 1; row < size; row++) {
+                const factor = a[row][col].div(a[col][col]);
+                a[row] = a[row].map((v, j) => v.minus(factor.times(a[col][j])));
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Invert square matrix using Gauss-Jordan elimination. Singular matrix is regularized by adding RIDGE to its diagonal.
+     * @param matrix    Square matrix.
+     * @returns         Inverted matrix.
+     * @throws          Error if matrix is not square or still singular after regularization.
+     */
+    public static invert(matrix: Decimal[][]): Decimal[][] {
+        const size = matrix.length;
+        if (matrix.some(row => row.length !== size)) {
+            throw new Error(`Matrix is not square: ${size} rows, ${matrix.map(row => row.length).join()} columns`);
+        }
+        let result = MatrixHelper.gaussJordan(matrix);
+        if (result === null) {
+            result = MatrixHelper.gaussJordan(matrix.map((row, i) => row.map((v, j) => i === j ? v.plus(MatrixHelper.RIDGE) : v)));
+        }
+        if (result === null) {
+            throw new Error('Matrix is singular');
+        }
+        return result;
+    }
+
+    /**
+     * Eigen-decomposition of a symmetric matrix using cyclic Jacobi rotations.
+     * @param matrix    Symmetric square matrix.
+     * @returns         Eigenvalues (descending) and matching unit eigenvectors (one row per eigenvalue).
+     * @throws          Error if matrix is not square.
+     */
+    public static eigenSymmetric(matrix: Decimal[][]): { values: Decimal[], vectors: Decimal[][] } {
+        const size = matrix.length;
+        if (matrix.some(row => row.length !== size)) {
+            throw new Error(`Matrix is not square: ${size} rows, ${matrix.map(row => row.length).join()} columns`);
+        }
+        const a = matrix.map(row => row.slice());
+        const v = matrix.map((row, i) => row.map((_, j) => new Decimal(i === j ? 1 : 0)));
+        const one = new Decimal(1);
+        for (let sweep = 0; sweep < MatrixHelper.JACOBI_SWEEPS; sweep++) {
+            let offDiagonal = new Decimal(0);
+            for (let p = 0; p < size; p++) {
+                for (let q = p + 1; q < size; q++) {
+                    offDiagonal = offDiagonal.plus(a[p][q].abs());
+                }
+            }
+            if (offDiagonal.lessThan(MatrixHelper.JACOBI_TOLERANCE)) {
+                break;
+            }
+            for (let p = 0; p < size; p++) {
+                for (let q = p + 1; q < size; q++) {
+                    if (a[p][q].abs().lessThan(MatrixHelper.JACOBI_TOLERANCE)) {
+                        continue;
+                    }
+                    const theta = a[q][q].minus(a[p][p]).div(a[p][q].times(2));
+                    const t = one.div(theta.abs().plus(theta.pow(2).plus(1).sqrt())).times(theta.isNegative() ? -1 : 1);
+                    const c = one.div(t.pow(2).plus(1).sqrt());
+                    const s = t.times(c);
+                    for (let k = 0; k < size; k++) {
+                        if (k !== p && k !== q) {
+                            const akp = a[k][p];
+                            const akq = a[k][q];
+                            a[k][p] = a[p][k] = c.times(akp).minus(s.times(akq));
+                            a[k][q] = a[q][k] = s.times(akp).plus(c.times(akq));
+                        }
+                        const vkp = v[k][p];
+                        const vkq = v[k][q];
+                        v[k][p] = c.times(vkp).minus(s.times(vkq));
+                        v[k][q] = s.times(vkp).plus(c.times(vkq));
+                    }
+                    a[p][p] = a[p][p].minus(t.times(a[p][q]));
+                    a[q][q] = a[q][q].plus(t.times(a[p][q]));
+                    a[p][q] = a[q][p] = new Decimal(0);
+                }
+            }
+        }
+        const order = a.map((_, i) => i).sort((i, j) => a[j][j].comparedTo(a[i][i]) || i - j);
+        return { values: order.map(i => a[i][i]), vectors: order.map(i => v.map(row => row[i])) };
+    }
+
+    /**
+     * Gauss-Jordan elimination with partial pivoting.
+     * @param matrix    Square matrix.
+     * @returns         Inverted matrix, or null if matrix is singular.
+     */
+    private static gaussJordan(matrix: Decimal[][]): Decimal[][] {
+        const size = matrix.length;
+        let augmented = matrix.map((row, i) => row.concat(row.map((_, j) => new Decimal(i === j ? 1 : 0))));
+        for (let col = 0; col < size; col++) {
+            let pivot = col;
+            for (let row = col + 1; row < size; row++) {
+                if (augmented[row][col].abs().greaterThan(augmented[pivot][col].abs())) {
+                    pivot = row;
+                }
+            }
+            if (augmented[pivot][col].abs().lessThan(MatrixHelper.RIDGE)) {
+                return null;
+            }
+            [augmented[col], augmented[pivot]] = [augmented[pivot], augmented[col]];
+            const pivotValue = augmented[col][col];
+            augmented[col] = augmented[col].map(v => v.div(pivotValue));
+            for (let row = 0; row < size; row++) {
+                if (row !== col && !augmented[row][col].isZero()) {
+                    const factor = augmented[row][col];
+                    augmented[row] = augmented[row].map((v, j) => v.minus(factor.times(augmented[col][j])));
+                }
+            }
+        }
+        return augmented.map(row => row.slice(size));
+    }
+}
@@ -0,0 +1,271 @@
+﻿import Decimal from "decimal.js";
+import { ICommandOption, ICommandArguments, IClusteringOptions, IFormationOptions, IGroupSizeSpec, ITrainingResult, IClusteringModel } from "../interfaces";
+import { Command } from "./Command";
+import { UsageError } from "./UsageError";
+import { AttributeSchema } from "./AttributeSchema";
+import { DatasetLoader } from "./DatasetLoader";
+import { DatasetError } from "./DatasetError";
+import { DistanceMetricFactory } from "./DistanceMetricFactory";
+import { PartitionLoader } from "./PartitionLoader";
+import { PartitionInitializer } from "./PartitionInitializer";
+import { ConstraintSet } from "./ConstraintSet";
+import { GroupSizing } from "./GroupSizing";
+import { NumericBackendFactory } from "./NumericBackendFactory";
+import { ConsoleLogger } from "./ConsoleLogger";
+import { Preprocessor } from "./Preprocessor";
+import { ClusteringModel } from "./ClusteringModel";
+import { ClusteringModelFactory } from "./ClusteringModelFactory";
+import { MultiStart } from "./MultiStart";
+import { PairHistory } from "./PairHistory";
+import { Person } from "./Person";
+
+/**
+ * Base class of sub-command which trains a clustering model from a dataset.
+ */
+export abstract class ModelCommand extends Command {
+    /**
+     * Options shared by every model command.
+     */
+    protected static MODEL_OPTIONS: ICommandOption[] = [
+        { name: 'input', alias: 'i', description: 'Dataset CSV file', type: 'string', valueName: 'file', required: true },
+        { name: 'schema', description: 'Attribute schema JSON file (default: Felder-Silverman learning styles)', type: 'string', valueName: 'file' },
+        { name: 'on-invalid', description: `What to do with invalid dataset rows (${DatasetLoader.MODES.join(', ')}): fail listing every problem, drop invalid rows, or fill invalid scores with the column median`, type: 'string', defaultValue: 'strict' },
+        { name: 'groups', alias: 'g', description: 'Number of groups', type: 'number', valueName: 'n' },
+        { name: 'group-size', alias: 's', description: 'Target number of members per group (used when --groups is not set)', type: 'number', valueName: 'n' },
+        { name: 'algorithm', description: `Clustering algorithm (${ClusteringModelFactory.NAMES.join(', ')}): fuzzy c-means, hard k-means, possibilistic c-means (robust to outliers), Gustafson-Kessel or Gath-Geva (ellipsoidal clusters)`, type: 'string', defaultValue: 'fcm' },
+        { name: 'fuzzifier', alias: 'm', description: 'Fuzzifier (mass) m, must be greater than 1', type: 'number', defaultValue: 2 },
+        { name: 'max-iter', description: 'Maximum iteration', type: 'number', defaultValue: 100 },
+        { name: 'tolerance', alias: 't', description: 'Minimum improvement to keep iterating, measured by --stop-rule', type: 'number', defaultValue: 0.001 },
+        { name: 'stop-rule', description: `Stopping rule (${ClusteringModel.STOP_RULES.join(', ')}): absolute or relative change of objective value, largest membership change or largest center movement`, type: 'string', defaultValue: 'objective' },
+        { name: 'seed', description: 'Seed of the random initial partition (default: random seed, reported with the result)', type: 'number', valueName: 'n' },
+        { name: 'restarts', description: 'Number of models trained from different seeds (the first one is --seed), the best one is kept', type: 'number', defaultValue: 1 },
+        { name: 'select-by', description: `Criterion keeping the best of --restarts models (${MultiStart.CRITERIA.join(', ')}); consensus keeps the grouping agreeing most with the other runs`, type: 'string', defaultValue: 'objective' },
+        { name: 'jobs', description: 'Number of --restarts models trained at the same time on worker threads', type: 'number', defaultValue: 1 },
+        { name: 'init', description: 'Initial partition matrix file, one row per person (CSV without header or JSON array of rows)', type: 'string', valueName: 'file' },
+        { name: 'init-centers', description: 'Initial centers file, one row per group (CSV without header or JSON array of rows)', type: 'string', valueName: 'file' },
+        { name: 'init-strategy', description: `Initialization strategy when no initial file is given (${PartitionInitializer.STRATEGIES.join(', ')})`, type: 'string', defaultValue: 'random' },
+        { name: 'metric', description: `Distance metric (${DistanceMetricFactory.NAMES.join(', ')})`, type: 'string', defaultValue: 'euclidean' },
+        { name: 'weights', description: 'Comma-separated dimension weights for weighted-euclidean metric', type: 'string', valueName: 'list' },
+        { name: 'scaling', description: `Feature scaling before clustering (${Preprocessor.METHODS.join(', ')})`, type: 'string', defaultValue: 'none' },
+        { name: 'whiten', description: 'PCA-whiten scaled vectors before clustering (centers are still reported in original units)', type: 'boolean' },
+        { name: 'components', description: 'Number of principal axes kept by --whiten (default: all)', type: 'number', valueName: 'n' },
+        { name: 'constraints', description: 'Constraints JSON file (mustLink and cannotLink pairs of person id, pins of person id to group id)', type: 'string', valueName: 'file' },
+        { name: 'backend', description: `Numeric backend (${NumericBackendFactory.NAMES.join(', ')}); float is much faster on large datasets, parallel shards float across worker threads`, type: 'string', defaultValue: 'decimal' },
+        { name: 'threads', description: 'Number of worker threads of parallel backend (default: number of CPU cores)', type: 'number', valueName: 'n' },
+        { name: 'verbose', alias: 'v', description: 'Print iteration progress to standard error', type: 'boolean' },
+        { name: 'output', alias: 'o', description: 'Write result to file instead of standard output', type: 'string', valueName: 'file' },
+    ];
+
+    /**
+     * Options of commands which form groups.
+     */
+    protected static FORMATION_OPTIONS: ICommandOption[] = [
+        { name: 'mode', description: 'Formation mode (homogeneous: similar learners together, heterogeneous: every group mixes all clusters)', type: 'string', defaultValue: 'homogeneous' },
+        { name: 'min-size', description: 'Minimum members per group, with --group-size as target (default: balanced groups)', type: 'number', valueName: 'n' },
+        { name: 'max-size', description: 'Maximum members per group, with --group-size as target (default: balanced groups)', type: 'number', valueName: 'n' },
+        { name: 'capacities', description: 'Comma-separated capacity of each group, e.g. 6,6,5,5 (used instead of --groups or --group-size)', type: 'string', valueName: 'list' },
+        { name: 'history', description: 'Comma-separated roster files of previous sessions (CSV or JSON output of form or rotate); learners who already worked together are kept apart', type: 'string', valueName: 'files' },
+        { name: 'history-weight', description: 'Penalty of each session a pair already spent together, against membership (homogeneous) or diversity (heterogeneous)', type: 'number', defaultValue: 1 },
+    ];
+
+    /**
+     * Load attribute schema from --schema file, or the default schema.
+     * @param args  Parsed arguments.
+     */
+    protected loadSchema(args: ICommandArguments): AttributeSchema {
+        return args['schema']
+            ? AttributeSchema.fromFile(args['schema'] as string)
+            : AttributeSchema.FELDER_SILVERMAN;
+    }
+
+    /**
+     * Build group size specification from --group-size, --min-size, --max-size and --capacities.
+     * @param args  Parsed arguments.
+     * @returns     Size specification, or null if group sizes are not requested.
+     * @throws      UsageError if a size is not a positive integer.
+     */
+    protected sizeSpec(args: ICommandArguments): IGroupSizeSpec {
+        ['group-size', 'min-size', 'max-size'].forEach(name => {
+            const value = args[name] as number;
+            if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+                throw new UsageError(`--${name} must be a positive integer`);
+            }
+        });
+        if (args['capacities'] !== undefined) {
+            const capacities = (args['capacities'] as string).split(',').map(c => Number(c));
+            if (capacities.some(c => !Number.isInteger(c) || c < 1)) {
+                throw new UsageError('--capacities must be a comma-separated list of positive integers');
+            }
+            if (args['group-size'] !== undefined || args['min-size'] !== undefined || args['max-size'] !== undefined) {
+                throw new UsageError('--capacities cannot be combined with --group-size, --min-size or --max-size');
+            }
+            return { capacities };
+        }
+        if (args['group-size'] === undefined && args['min-size'] === undefined && args['max-size'] === undefined) {
+            return null;
+        }
+        return { size: args['group-size'] as number, minSize: args['min-size'] as number, maxSize: args['max-size'] as number };
+    }
+
+    /**
+     * Resolve number of groups from --groups, or from the requested group sizes.
+     * @param args              Parsed arguments.
+     * @param populationSize    Number of person in population.
+     * @throws                  UsageError if neither (or both) option is set, or the value is not a positive integer.
+     * @throws                  Error if population cannot be split into the requested group sizes.
+     */
+    protected resolveGroupNum(args: ICommandArguments, populationSize: number): number {
+        const groups = args['groups'] as number;
+        const sizes = this.sizeSpec(args);
+        if ((groups === undefined) === (sizes === null)) {
+            throw new UsageError('Exactly one of --groups, --group-size (with optional --min-size/--max-size) or --capacities must be set');
+        }
+        if (groups !== undefined && (!Number.isInteger(groups) || groups < 1)) {
+            throw new UsageError('--groups must be a positive integer');
+        }
+        return groups !== undefined ? groups : GroupSizing.fromSpec(sizes, populationSize).groupNum;
+    }
+
+    /**
+     * Load population from --input file, printing skipped and imputed problems as warnings.
+     * @param args  Parsed arguments.
+     * @returns     Promise of population.
+     * @throws      UsageError if --on-invalid mode is unknown.
+     * @throws      DatasetError if dataset is invalid (see DatasetLoader).
+     */
+    protected async loadPopulation(args: ICommandArguments): Promise<Person[]> {
+        if (DatasetLoader.MODES.indexOf(args['on-invalid'] as string) < 0) {
+            throw new UsageError(`Unknown --on-invalid mode: ${args['on-invalid']}`);
+        }
+        const { population, issues } = await new DatasetLoader(this.loadSchema(args), 'Num', 'Name', args['on-invalid'] as string).loadWithReport(args['input'] as string);
+        issues.forEach(issue => console.error(`Warning: ${DatasetError.describe(issue)}${issue.action === 'skipped' ? ' (row skipped)' : ''}`));
+        return population;
+    }
+
+    /**
+     * Build model options (distance metric, initialization, iteration log) from arguments.
+     * @param args  Parsed arguments.
+     * @throws      UsageError if algorithm, stopping rule, distance metric, initialization strategy, numeric backend or scaling method is unknown, or seed or number of components is invalid.
+     * @throws      UsageError if maximum iteration, tolerance or fuzzifier is out of range.
+     * @throws      UsageError if a backend other than decimal is used with another algorithm than fcm.
+     */
+    protected modelOptions(args: ICommandArguments): IClusteringOptions {
+        if (ClusteringModelFactory.NAMES.indexOf(args['algorithm'] as string) < 0) {
+            throw new UsageError(`Unknown clustering algorithm: ${args['algorithm']}`);
+        }
+        if (ClusteringModel.STOP_RULES.indexOf(args['stop-rule'] as string) < 0) {
+            throw new UsageError(`Unknown stopping rule: ${args['stop-rule']}`);
+        }
+        const maxIteration = args['max-iter'] as number;
+        if (!Number.isInteger(maxIteration) || maxIteration < 1) {
+            throw new UsageError('--max-iter must be a positive integer');
+        }
+        if (!((args['tolerance'] as number) > 0)) {
+            throw new UsageError('--tolerance must be greater than 0');
+        }
+        if (!((args['fuzzifier'] as number) > 1)) {
+            throw new UsageError('--fuzzifier must be greater than 1');
+        }
+        if (DistanceMetricFactory.NAMES.indexOf(args['metric'] as string) < 0) {
+            throw new UsageError(`Unknown distance metric: ${args['metric']}`);
+        }
+        if (PartitionInitializer.STRATEGIES.indexOf(args['init-strategy'] as string) < 0) {
+            throw new UsageError(`Unknown initialization strategy: ${args['init-strategy']}`);
+        }
+        if (NumericBackendFactory.NAMES.indexOf(args['backend'] as string) < 0) {
+            throw new UsageError(`Unknown numeric backend: ${args['backend']}`);
+        }
+        if (args['backend'] !== 'decimal' && args['algorithm'] !== 'fcm') {
+            throw new UsageError(`--backend ${args['backend']} can only be used with --algorithm fcm`);
+        }
+        if (Preprocessor.METHODS.indexOf(args['scaling'] as string) < 0) {
+            throw new UsageError(`Unknown scaling method: ${args['scaling']}`);
+        }
+        const components = args['components'] as number;
+        if (components !== undefined && (!args['whiten'] || !Number.isInteger(components) || components < 1)) {
+            throw new UsageError('--components must be a positive integer, used with --whiten');
+        }
+        const threads = args['threads'] as number;
+        if (threads !== undefined && (!Number.isInteger(threads) || threads < 1)) {
+            throw new UsageError('--threads must be a positive integer');
+        }
+        const seed = args['seed'] as number;
+        if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF)) {
+            throw new UsageError(`--seed must be an integer between 0 and ${0xFFFFFFFF}`);
+        }
+        const weights = args['weights'] ? (args['weights'] as string).split(',').map(w => Number(w)) : null;
+        return {
+            distanceMetric: DistanceMetricFactory.create(args['metric'] as string, weights),
+            seed,
+            initialization: args['init-strategy'] as string,
+            stopRule: args['stop-rule'] as string,
+            initialCenters: args['init-centers'] ? PartitionLoader.load(args['init-centers'] as string) : undefined,
+            logger: args['verbose'] ? new ConsoleLogger('debug') : undefined,
+            backend: NumericBackendFactory.create(args['backend'] as string, threads),
+            constraints: args['constraints'] ? ConstraintSet.fromFile(args['constraints'] as string) : undefined,
+            preprocessor: args['scaling'] !== 'none' || args['whiten']
+                ? new Preprocessor(args['scaling'] as string, !!args['whiten'], components !== undefined ? components : null)
+                : undefined,
+        };
+    }
+
+    /**
+     * Build formation options from arguments.
+     * @param args  Parsed arguments.
+     * @returns     Promise of formation options.
+     * @throws      UsageError if formation mode is unknown or history weight is negative.
+     * @throws      Error if a roster file of --history is invalid.
+     */
+    protected async formationOptions(args: ICommandArguments): Promise<IFormationOptions> {
+        if (['homogeneous', 'heterogeneous'].indexOf(args['mode'] as string) < 0) {
+            throw new UsageError(`Unknown formation mode: ${args['mode']}`);
+        }
+        const historyWeight = args['history-weight'] as number;
+        if (!(historyWeight >= 0) || !isFinite(historyWeight)) {
+            throw new UsageError('--history-weight must be a non-negative number');
+        }
+        const history = args['history']
+            ? new PairHistory((await Promise.all((args['history'] as string).split(',').map(file => PairHistory.fromFile(file.trim())))).reduce((p, c) => p.concat(c), new Array<number[][]>()))
+            : undefined;
+        return { mode: args['mode'] as 'homogeneous' | 'heterogeneous', sizes: this.sizeSpec(args) || undefined, history, historyWeight };
+    }
+
+    /**
+     * Load population and build clustering model according to arguments. With --restarts, the best of several models is kept (see MultiStart).
+     * @param args  Parsed arguments.
+     * @returns     Promise of population, trained model, training result and runs (null without --restarts).
+     * @throws      UsageError if --restarts, --jobs or --select-by is invalid, or restarts are combined with --init or --init-centers.
+     */
+    protected async train(args: ICommandArguments): Promise<{ population: Person[], model: IClusteringModel, training: ITrainingResult, multiStart: MultiStart }> {
+        if (args['init'] && args['init-centers']) {
+            throw new UsageError('Only one of --init or --init-centers can be set');
+        }
+        const restarts = args['restarts'] as number;
+        const jobs = args['jobs'] as number;
+        if (!Number.isInteger(restarts) || restarts < 1 || !Number.isInteger(jobs) || jobs < 1) {
+            throw new UsageError('--restarts and --jobs must be positive integers');
+        }
+        if (MultiStart.CRITERIA.indexOf(args['select-by'] as string) < 0) {
+            throw new UsageError(`Unknown selection criterion: ${args['select-by']}`);
+        }
+        if (restarts > 1 && (args['init'] || args['init-centers'])) {
+            throw new UsageError('--restarts cannot be used with --init or --init-centers');
+        }
+        const options = this.modelOptions(args);
+        const population = await this.loadPopulation(args);
+        const groupNum = this.resolveGroupNum(args, population.length);
+        if (restarts > 1) {
+            const multiStart = new MultiStart(population, groupNum, args['max-iter'] as number, new Decimal(args['tolerance'] as number), args['fuzzifier'] as number, options, args['algorithm'] as string, await this.formationOptions(args));
+            if (jobs > 1) {
+                await multiStart.runParallel(restarts, jobs);
+            } else {
+                multiStart.run(restarts);
+            }
+            const best = multiStart.select(args['select-by'] as string);
+            return { population, model: best.model, training: best.training, multiStart };
+        }
+        const model = ClusteringModelFactory.create(args['algorithm'] as string, population, groupNum, args['init'] ? PartitionLoader.load(args['init'] as string) : null, options);
+        const training = model.buildModel(args['max-iter'] as number, new Decimal(args['tolerance'] as number), args['fuzzifier'] as number);
+        return { population, model, training, multiStart: null };
+    }
+}
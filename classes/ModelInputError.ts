@@ -0,0 +1,36 @@
+﻿/**
+ * Error caused by input a clustering model cannot be built from (empty population, invalid number of groups, inconsistent or non-finite vectors, duplicated person).
+ */
+export class ModelInputError extends Error {
+    /**
+     * Error codes.
+     */
+    public static CODES = {
+        EMPTY_POPULATION: 'emptyPopulation',
+        INVALID_GROUP_NUM: 'invalidGroupNum',
+        TOO_MANY_GROUPS: 'tooManyGroups',
+        VECTOR_SIZE: 'vectorSize',
+        NON_FINITE_VALUE: 'nonFiniteValue',
+        DUPLICATED_PERSON: 'duplicatedPerson',
+    };
+
+    private _code: string;
+
+    /**
+     * Get error code (see CODES).
+     */
+    get code(): string {
+        return this._code;
+    }
+
+    /**
+     * Construct a new model input error.
+     * @param code      Error code (see CODES).
+     * @param message   Error message.
+     */
+    public constructor(code: string, message: string) {
+        super(message);
+        this.name = 'ModelInputError';
+        this._code = code;
+    }
+}
@@ -0,0 +1,200 @@
+﻿import { readFileSync, writeFileSync } from "fs";
+import Decimal from "decimal.js";
+import { IModelDocument, IClusteringModel, IClusteringOptions, IMember } from "../interfaces";
+import { ClusteringModelFactory } from "./ClusteringModelFactory";
+import { Group } from "./Group";
+import { Person } from "./Person";
+import { AttributeSchema } from "./AttributeSchema";
+import { DistanceMetricFactory } from "./DistanceMetricFactory";
+import { Preprocessor } from "./Preprocessor";
+
+/**
+ * Save and load trained clustering model (and the groups formed from it) as versioned JSON document.
+ * Numbers are written as exact decimal strings, so a loaded model predicts exactly as the saved one.
+ */
+export class ModelSerializer {
+    /**
+     * Format marker of model document.
+     */
+    public static FORMAT = 'endah-fcm-model';
+    /**
+     * Current schema version of model document.
+     */
+    public static VERSION = 3;
+    /**
+     * Schema versions which can be loaded (version 1 has no preprocessing, versions 1 and 2 are FCM models).
+     */
+    public static SUPPORTED_VERSIONS = [1, 2, 3];
+
+    /**
+     * Convert trained model into model document.
+     * @param model     Trained clustering model.
+     * @param groups    Groups formed by the model (if set).
+     * @returns         Model document.
+     * @throws          Error if model has not been trained, or its distance metric is not a built-in metric.
+     */
+    public static toJSON(model: IClusteringModel, groups: Group[] = null): IModelDocument {
+        if (model.clusterCenters.length === 0 || Array.from(model.clusterCenters).some(center => !center)) {
+            throw new Error('Model must be trained before it can be saved');
+        }
+        const schema = model.partitionMatrix.length > 0 ? model.partitionMatrix[0].person.schema : AttributeSchema.FELDER_SILVERMAN;
+        const document: IModelDocument = {
+            format: ModelSerializer.FORMAT,
+            version: ModelSerializer.VERSION,
+            createdAt: new Date().toISOString(),
+            parameters: {
+                algorithm: model.name,
+                groupNum: model.groupNum,
+                mass: model.mass,
+                seed: model.seed,
+                backend: model.backend.name,
+                distanceMetric: DistanceMetricFactory.describe(model.distanceMetric),
+                schema: schema.toJSON(),
+                vectorLength: schema.vectorLength,
+                preprocessing: model.preprocessor ? model.preprocessor.toJSON() : null,
+            },
+            objectiveValue: model.objectiveValue.toString(),
+            history: model.history.map(v => v.toString()),
+            centers: model.clusterCenters.map(center => center.vector.map(v => v.toString())),
+            personIds: model.partitionMatrix.map(row => row.person.id),
+            partitionMatrix: model.partitionMatrix.map(row => row.vector.map(v => v.toString())),
+        };
+        if (groups) {
+            document.groups = groups.map(group => ({
+                id: group.id,
+                clusterId: group.clusterId,
+                center: group.centerVector.map(v => v.toString()),
+                members: group.members.map(member => ({ personId: member.person.id, membership: member.vector.map(v => v.toString()) })),
+            }));
+        }
+        return document;
+    }
+
+    /**
+     * Save trained model (and the groups formed from it) into JSON file.
+     * @param path      File path.
+     * @param model     Trained clustering model.
+     * @param groups    Groups formed by the model (if set).
+     * @throws          Error if model has not been trained, or its distance metric is not a built-in metric.
+     */
+    public static save(path: string, model: IClusteringModel, groups: Group[] = null) {
+        writeFileSync(path, JSON.stringify(ModelSerializer.toJSON(model, groups), null, 2));
+    }
+
+    /**
+     * Rebuild model (and groups, if saved) from model document, ready for prediction, evaluation or continued training.
+     * @param document      Model document.
+     * @param population    Population holding every person of the saved model (extra persons, e.g. newcomers, may be saved as group members).
+     * @param options       Additional model options (numeric backend, log, constraints). Distance metric and seed are taken from the document.
+     * @returns             Model, and saved groups (null if there is none).
+     * @throws              Error if document format, version or algorithm is not supported.
+     * @throws              Error if population schema does not match the saved schema, a saved person is missing from population, or a person id appears twice in population.
+     * @throws              Error if a matrix does not match number of persons, number of groups or vector length, or holds a non-numeric value.
+     */
+    public static fromJSON(document: IModelDocument, population: Person[], options: IClusteringOptions = {}): { model: IClusteringModel, groups: Group[] } {
+        if (!document || typeof document !== 'object' || document.format !== ModelSerializer.FORMAT) {
+            throw new Error(`Not a model document (expected format ${ModelSerializer.FORMAT})`);
+        }
+        if (ModelSerializer.SUPPORTED_VERSIONS.indexOf(document.version) < 0) {
+            throw new Error(`Unsupported model document version: ${document.version} (supported: ${ModelSerializer.SUPPORTED_VERSIONS.join(', ')})`);
+        }
+        if (!document.parameters || !Array.isArray(document.personIds)) {
+            throw new Error('Model document must have parameters and personIds');
+        }
+        const parameters = document.parameters;
+        const schema = AttributeSchema.fromJSON(parameters.schema);
+        if (schema.vectorLength !== parameters.vectorLength) {
+            throw new Error(`Saved schema gives vectors of ${schema.vectorLength} dimensions, document says ${parameters.vectorLength}`);
+        }
+        if (!Number.isInteger(parameters.groupNum) || parameters.groupNum < 1) {
+            throw new Error(`Number of groups must be a positive integer: ${parameters.groupNum}`);
+        }
+
+        const byId = new Map<number, Person>();
+        population.forEach(person => {
+            if (byId.has(person.id)) {
+                throw new Error(`Person ${person.id} appears more than once in population`);
+            }
+            byId.set(person.id, person);
+        });
+        const findPerson = (id: number) => {
+            if (!byId.has(id)) {
+                throw new Error(`Person ${id} of saved model is missing from population`);
+            }
+            return byId.get(id);
+        };
+        const persons = document.personIds.map(findPerson);
+        persons.forEach(person => {
+            if (person.schema.featureNames.join() !== schema.featureNames.join()) {
+                throw new Error(`Schema of person ${person.id} (${person.schema.featureNames.join(', ')}) does not match saved schema (${schema.featureNames.join(', ')})`);
+            }
+        });
+
+        const preprocessor = parameters.preprocessing ? Preprocessor.fromJSON(parameters.preprocessing) : null;
+        if (preprocessor && preprocessor.inputLength !== parameters.vectorLength) {
+            throw new Error(`Saved preprocessing expects vectors of ${preprocessor.inputLength} dimensions, document says ${parameters.vectorLength}`);
+        }
+        const partitionMatrix = ModelSerializer.parseMatrix(document.partitionMatrix, persons.length, parameters.groupNum, 'Partition matrix');
+        const centers = ModelSerializer.parseMatrix(document.centers, parameters.groupNum, preprocessor ? preprocessor.outputLength : parameters.vectorLength, 'Centers');
+        const [objectiveValue] = ModelSerializer.parseMatrix([[document.objectiveValue]], 1, 1, 'Objective value')[0];
+        const history = ModelSerializer.parseMatrix([document.history], 1, Array.isArray(document.history) ? document.history.length : 0, 'History')[0];
+        const model = ClusteringModelFactory.create(parameters.algorithm || 'fcm', persons, parameters.groupNum, partitionMatrix, {
+            ...options,
+            distanceMetric: DistanceMetricFactory.fromDescription(parameters.distanceMetric),
+            seed: parameters.seed,
+            preprocessor,
+        });
+        model.restore(parameters.mass, centers, objectiveValue, history, partitionMatrix);
+
+        const groups = document.groups
+            ? document.groups.map(group => new Group(
+                group.id,
+                ModelSerializer.parseMatrix([group.center], 1, parameters.vectorLength, `Center of group ${group.id}`)[0],
+                group.members.map(member => ({
+                    person: findPerson(member.personId),
+                    vector: ModelSerializer.parseMatrix([member.membership], 1, parameters.groupNum, `Membership of person ${member.personId}`)[0],
+                } as IMember)),
+                group.clusterId))
+            : null;
+        return { model, groups };
+    }
+
+    /**
+     * Load model (and groups, if saved) from JSON file.
+     * @param path          File path.
+     * @param population    Population holding every person of the saved model.
+     * @param options       Additional model options (numeric backend, log, constraints).
+     * @returns             Model, and saved groups (null if there is none).
+     * @throws              Error if file is not a valid model document or does not match population (see fromJSON).
+     */
+    public static load(path: string, population: Person[], options: IClusteringOptions = {}): { model: IClusteringModel, groups: Group[] } {
+        let document: IModelDocument;
+        try {
+            document = JSON.parse(readFileSync(path, 'utf8').replace(/^\uFEFF/, ''));
+        } catch (error) {
+            throw new Error(`Unable to read model from ${path}: ${error.message}`);
+        }
+        return ModelSerializer.fromJSON(document, population, options);
+    }
+
+    /**
+     * Parse matrix of decimal strings, checking its size.
+     * @param matrix    Matrix of decimal strings.
+     * @param rows      Expected number of rows.
+     * @param columns   Expected number of columns.
+     * @param name      Matrix name for error message.
+     * @throws          Error if matrix size does not match or a value is not numeric.
+     */
+    private static parseMatrix(matrix: string[][], rows: number, columns: number, name: string): Decimal[][] {
+        if (!Array.isArray(matrix) || matrix.length !== rows || matrix.some(row => !Array.isArray(row) || row.length !== columns)) {
+            throw new Error(`${name} must have ${rows} rows of ${columns} values`);
+        }
+        return matrix.map((row, i) => row.map((value, j) => {
+            try {
+                return new Decimal(value);
+            } catch (error) {
+                throw new Error(`${name} has invalid value at row ${i + 1}, column ${j + 1}: ${value}`);
+            }
+        }));
+    }
+}
@@ -0,0 +1,376 @@
+﻿import { Worker } from "worker_threads";
+import { existsSync } from "fs";
+import { join } from "path";
+import Decimal from "decimal.js";
+import { IClusteringModel, IClusteringOptions, IFormationOptions, IRestartRun, IPersonStability, ITrainingResult, ILogger, IModelDocument } from "../interfaces";
+import { ClusteringModelFactory } from "./ClusteringModelFactory";
+import { ClusteringModel } from "./ClusteringModel";
+import { ClusterValidity } from "./ClusterValidity";
+import { DistanceMetricFactory } from "./DistanceMetricFactory";
+import { ModelSerializer } from "./ModelSerializer";
+import { SeededRandom } from "./SeededRandom";
+import { SilentLogger } from "./SilentLogger";
+import { Person } from "./Person";
+
+/**
+ * Train the same clustering model from several seeds (one after another, or at the same time on worker threads) and keep the best run,
+ * by objective value, by a cluster validity index, or by consensus (the grouping agreeing most with every other run).
+ * Co-association of two persons is the share of runs which put them into the same group; stability of a person is its average
+ * co-association with the other members of its group, telling robust placements from coin flips.
+ */
+export class MultiStart {
+    /**
+     * Criteria to select the best run.
+     */
+    public static CRITERIA = ['objective', 'partitionCoefficient', 'partitionEntropy', 'xieBeni', 'fukuyamaSugeno', 'fuzzySilhouette', 'consensus'];
+
+    /**
+     * Criteria where a higher score is better (lower is better for the others).
+     */
+    private static HIGHER_IS_BETTER = ['partitionCoefficient', 'fuzzySilhouette', 'consensus'];
+
+    private _population: Person[];
+    private _groupNum: number;
+    private _maxIteration: number;
+    private _minImprovement: Decimal;
+    private _mass: number;
+    private _options: IClusteringOptions;
+    private _algorithm: string;
+    private _formationOptions: IFormationOptions;
+    private _logger: ILogger;
+    private _runs: IRestartRun[];
+    private _labels: number[][]; // group id of each person (in population order), for each run
+    private _scores: Map<string, number[]>; // score of each run, for each criterion
+
+    /**
+     * Get runs of last call to run or runParallel, in run order.
+     */
+    get runs(): IRestartRun[] {
+        return this._runs;
+    }
+
+    /**
+     * Construct a new multi-start runner.
+     * @param population        The population to process.
+     * @param groupNum          Number of desired groups.
+     * @param maxIteration      Maximmum iteration of each model.
+     * @param minImprovement    Minimum improvement to stop each model.
+     * @param mass              Mass (m) to be used. Default to 2.
+     * @param options           Additional model options, shared by every run (seed is the seed of the first run).
+     * @param algorithm         Clustering algorithm (see ClusteringModelFactory.NAMES). Default to fcm.
+     * @param formationOptions  Options used to form the groups of each run.
+     * @throws                  Error if initial centers or a custom random generator are set (every run would start from the same partition).
+     */
+    public constructor(population: Person[], groupNum: number, maxIteration: number, minImprovement: Decimal, mass: number = 2, options: IClusteringOptions = {}, algorithm: string = 'fcm', formationOptions: IFormationOptions = {}) {
+        if (options.initialCenters || options.random) {
+            throw new Error('Restarts need a seeded initialization, initial centers or a custom random generator would give the same model on every run');
+        }
+        this._population = population;
+        this._groupNum = groupNum;
+        this._maxIteration = maxIteration;
+        this._minImprovement = minImprovement;
+        this._mass = mass;
+        this._options = options;
+        this._algorithm = algorithm;
+        this._formationOptions = formationOptions;
+        this._logger = options.logger || new SilentLogger();
+        this._runs = new Array<IRestartRun>();
+        this._labels = new Array<number[]>();
+        this._scores = new Map<string, number[]>();
+    }
+
+    /**
+     * Seeds of consecutive runs: the first one is the given seed (so a single run is the plain model of that seed), the next ones are drawn from it.
+     * @param seed      Seed of the first run.
+     * @param count     Number of runs.
+     */
+    public static seeds(seed: number, count: number): number[] {
+        const random = new SeededRandom(seed);
+        const result = [seed];
+        while (result.length < count) {
+            result.push(Math.floor(random.next() * 0x100000000));
+        }
+        return result;
+    }
+
+    /**
+     * Train one model per seed, one after another.
+     * @param restarts  Number of runs.
+     * @returns         Runs, in run order.
+     * @throws          Error if number of runs is not a positive integer.
+     * @throws          ModelInputError if a model cannot be built from population and number of groups.
+     */
+    public run(restarts: number): IRestartRun[] {
+        const seeds = MultiStart.seeds(this.firstSeed(restarts), restarts);
+        this.useRuns(seeds.map((seed, index) => {
+            const model = this.createModel(seed);
+            const training = model.buildModel(this._maxIteration, this._minImprovement, this._mass);
+            return this.finishRun(index, seed, model, training);
+        }));
+        return this._runs;
+    }
+
+    /**
+     * Train one model per seed on worker threads, several at the same time. Runs are identical to those of run (same seeds, same models).
+     * Only built-in distance metrics can be used; iteration progress is not logged.
+     * @param restarts  Number of runs.
+     * @param jobs      Number of worker threads.
+     * @returns         Promise of runs, in run order.
+     * @throws          Error if number of runs or worker threads is not a positive integer, distance metric is not a built-in metric, or worker script cannot be found.
+     * @throws          ModelInputError if a model cannot be built from population and number of groups.
+     */
+    public async runParallel(restarts: number, jobs: number): Promise<IRestartRun[]> {
+        if (!Number.isInteger(jobs) || jobs < 1) {
+            throw new Error(`Number of worker threads must be a positive integer: ${jobs}`);
+        }
+        const seeds = MultiStart.seeds(this.firstSeed(restarts), restarts);
+        // Building the first model validates input and fits preprocessor and distance metric, so both can be described to workers
+        const first = this.createModel(seeds[0]);
+        const script = join(__dirname, 'MultiStartWorker.js');
+        if (!existsSync(script)) {
+            throw new Error(`Multi-start worker script not found: ${script} (run the compiled build)`);
+        }
+        const schema = this._population[0].schema;
+        const workerData = {
+            algorithm: this._algorithm,
+            groupNum: this._groupNum,
+            maxIteration: this._maxIteration,
+            minImprovement: this._minImprovement.toString(),
+            mass: this._mass,
+            schema: schema.toJSON(),
+            persons: this._population.map(person => ({
+                id: person.id,
+                name: person.name,
+                scores: schema.dimensions.reduce((p, d) => ({ ...p, [d.name]: person.getScore(d.name) }), {}),
+            })),
+            options: {
+                initialization: this._options.initialization,
+                stopRule: this._options.stopRule,
+                distanceMetric: DistanceMetricFactory.describe(first.distanceMetric),
+                preprocessing: first.preprocessor ? first.preprocessor.toJSON() : null,
+                constraints: this._options.constraints,
+                backend: first.backend.name,
+            },
+        };
+        const runs = new Array<IRestartRun>(restarts);
+        const workers = new Array<Worker>();
+        try {
+            await new Promise<void>((resolve, reject) => {
+                let next = 0;
+                let done = 0;
+                const dispatch = (worker: Worker) => {
+                    if (next < restarts) {
+                        worker.postMessage({ index: next, seed: seeds[next] });
+                        next += 1;
+                    }
+                };
+                for (let w = 0; w < Math.min(jobs, restarts); w++) {
+                    const worker = new Worker(script, { workerData });
+                    worker.on('message', (message: { index: number, document?: IModelDocument, training?: string, error?: string }) => {
+                        if (message.error !== undefined) {
+                            reject(new Error(`Run ${message.index + 1} failed: ${message.error}`));
+                            return;
+                        }
+                        try {
+                            const { model } = ModelSerializer.fromJSON(message.document, this._population, {
+                                backend: this._options.backend,
+                                logger: this._options.logger,
+                                constraints: this._options.constraints,
+                                stopRule: this._options.stopRule,
+                            });
+                            runs[message.index] = this.finishRun(message.index, seeds[message.index], model, MultiStart.parseTraining(message.training));
+                        } catch (error) {
+                            reject(error);
+                            return;
+                        }
+                        done += 1;
+                        if (done === restarts) {
+                            resolve();
+                        } else {
+                            dispatch(worker);
+                        }
+                    });
+                    worker.on('error', reject);
+                    workers.push(worker);
+                    dispatch(worker);
+                }
+            });
+        } finally {
+            await Promise.all(workers.map(worker => worker.terminate()));
+        }
+        this.useRuns(runs);
+        return this._runs;
+    }
+
+    /**
+     * Select the best run.
+     * @param criterion One of CRITERIA. Default to objective (lowest objective value).
+     * @returns         Best run (first one on tie).
+     * @throws          Error if criterion is unknown or there is no run.
+     */
+    public select(criterion: string = 'objective'): IRestartRun {
+        if (this._runs.length === 0) {
+            throw new Error('There is no run to select from');
+        }
+        const scores = this.scores(criterion);
+        const higherIsBetter = MultiStart.HIGHER_IS_BETTER.indexOf(criterion) >= 0;
+        return this._runs[scores.reduce((best, score, i) => (higherIsBetter ? score > scores[best] : score < scores[best]) ? i : best, 0)];
+    }
+
+    /**
+     * Score every run on a criterion. Consensus score of a run is its average Rand index (share of person pairs on which both groupings agree) against every other run.
+     * @param criterion One of CRITERIA.
+     * @returns         Score of each run, in run order.
+     * @throws          Error if criterion is unknown.
+     */
+    public scores(criterion: string): number[] {
+        if (MultiStart.CRITERIA.indexOf(criterion) < 0) {
+            throw new Error(`Unknown selection criterion: ${criterion} (available: ${MultiStart.CRITERIA.join(', ')})`);
+        }
+        if (!this._scores.has(criterion)) {
+            switch (criterion) {
+                case 'objective':
+                    this._scores.set(criterion, this._runs.map(run => run.model.objectiveValue.toNumber()));
+                    break;
+                case 'consensus':
+                    this._scores.set(criterion, this._labels.map((labels, r) => this._labels.length > 1
+                        ? this._labels.reduce((p, other, s) => s === r ? p : p + MultiStart.randIndex(labels, other), 0) / (this._labels.length - 1)
+                        : 1));
+                    break;
+                default:
+                    this._scores.set(criterion, this._runs.map(run => new ClusterValidity(run.model).scores()[criterion as 'partitionCoefficient'].toNumber()));
+            }
+        }
+        return this._scores.get(criterion);
+    }
+
+    /**
+     * Co-association of two persons: share of runs which put them into the same group.
+     * @param left  Index of first person in population.
+     * @param right Index of second person in population.
+     */
+    public coAssociation(left: number, right: number): number {
+        return this._labels.filter(labels => labels[left] === labels[right]).length / this._labels.length;
+    }
+
+    /**
+     * Co-association matrix of the population (n x n, in population order). Memory grows with the square of population size.
+     */
+    public coAssociationMatrix(): number[][] {
+        return this._population.map((_, i) => this._population.map((_, j) => i === j ? 1 : this.coAssociation(i, j)));
+    }
+
+    /**
+     * Stability of each person in the grouping of a run: its average co-association with the other members of its group (1 for a person alone in its group).
+     * @param run   Run whose grouping is reviewed. Default to the run selected by consensus.
+     * @returns     Stability of each person, in population order.
+     * @throws      Error if there is no run.
+     */
+    public stability(run: IRestartRun = this.select('consensus')): IPersonStability[] {
+        const reference = this._labels[run.run - 1];
+        const sizes = new Map<number, number>();
+        reference.forEach(label => sizes.set(label, (sizes.get(label) || 0) + 1));
+        const together = new Array<number>(reference.length).fill(0); // ∑ over runs of group members sharing the person's group in that run
+        this._labels.forEach(labels => {
+            const counts = new Map<string, number>();
+            reference.forEach((label, i) => counts.set(`${label}:${labels[i]}`, (counts.get(`${label}:${labels[i]}`) || 0) + 1));
+            reference.forEach((label, i) => together[i] += counts.get(`${label}:${labels[i]}`) - 1);
+        });
+        return this._population.map((person, i) => {
+            const others = sizes.get(reference[i]) - 1;
+            return {
+                person,
+                groupId: reference[i] > 0 ? reference[i] : 0,
+                stability: others > 0 ? together[i] / this._labels.length / others : 1,
+            };
+        });
+    }
+
+    /**
+     * Rand index of two groupings: share of person pairs which are either together in both or apart in both.
+     * @param left  Group id of each person in first grouping.
+     * @param right Group id of each person in second grouping.
+     */
+    private static randIndex(left: number[], right: number[]): number {
+        const pairs = left.length * (left.length - 1) / 2;
+        if (pairs === 0) {
+            return 1;
+        }
+        const count = (labels: string[]) => {
+            const sizes = new Map<string, number>();
+            labels.forEach(label => sizes.set(label, (sizes.get(label) || 0) + 1));
+            return Array.from(sizes.values()).reduce((p, n) => p + n * (n - 1) / 2, 0);
+        };
+        const togetherLeft = count(left.map(String));
+        const togetherRight = count(right.map(String));
+        const togetherBoth = count(left.map((label, i) => `${label}:${right[i]}`));
+        return 1 - (togetherLeft + togetherRight - 2 * togetherBoth) / pairs;
+    }
+
+    /**
+     * Rebuild training result sent by a worker (Decimal values are sent as strings).
+     * @param json  Training result as JSON.
+     */
+    private static parseTraining(json: string): ITrainingResult {
+        const training = JSON.parse(json);
+        const decimal = (value: string) => value !== undefined && value !== null ? new Decimal(value) : undefined;
+        return {
+            ...training,
+            objectiveValue: decimal(training.objectiveValue),
+            history: training.history.map((event: { [key: string]: any }) => ({
+                ...event,
+                objectiveValue: decimal(event.objectiveValue),
+                improvement: decimal(event.improvement),
+                change: decimal(event.change),
+            })),
+        };
+    }
+
+    /**
+     * Check number of runs and get seed of the first run (model seed option, or a random seed).
+     * @param restarts  Number of runs.
+     * @throws          Error if number of runs is not a positive integer.
+     */
+    private firstSeed(restarts: number): number {
+        if (!Number.isInteger(restarts) || restarts < 1) {
+            throw new Error(`Number of runs must be a positive integer: ${restarts}`);
+        }
+        return this._options.seed !== undefined ? this._options.seed : SeededRandom.randomSeed();
+    }
+
+    /**
+     * Build the model of a run.
+     * @param seed  Seed of the run.
+     */
+    private createModel(seed: number): ClusteringModel {
+        return ClusteringModelFactory.create(this._algorithm, this._population, this._groupNum, null, { ...this._options, seed });
+    }
+
+    /**
+     * Form the groups of a trained run.
+     * @param index     Run index.
+     * @param seed      Seed of the run.
+     * @param model     Trained model.
+     * @param training  Training result.
+     */
+    private finishRun(index: number, seed: number, model: IClusteringModel, training: ITrainingResult): IRestartRun {
+        this._logger.info(`Run ${index + 1}: seed ${seed}, objective value ${training.objectiveValue} after ${training.iterations} iterations (${training.stopReason})`);
+        return { run: index + 1, seed, model, training, groups: model.formGroups(this._formationOptions) };
+    }
+
+    /**
+     * Keep runs and the group id of each person in each run (persons left out of every group get a label of their own).
+     * @param runs  Runs, in run order.
+     */
+    private useRuns(runs: IRestartRun[]) {
+        const index = new Map<number, number>();
+        this._population.forEach((person, i) => index.set(person.id, i));
+        this._runs = runs;
+        this._labels = runs.map(run => {
+            const labels = this._population.map((_, i) => -(i + 1));
+            run.groups.forEach(group => group.members.forEach(member => labels[index.get(member.person.id)] = group.id));
+            return labels;
+        });
+        this._scores.clear();
+    }
+}
@@ -0,0 +1,35 @@
+﻿import { workerData, parentPort, isMainThread } from "worker_threads";
+import Decimal from "decimal.js";
+import { AttributeSchema } from "./AttributeSchema";
+import { Person } from "./Person";
+import { ClusteringModelFactory } from "./ClusteringModelFactory";
+import { DistanceMetricFactory } from "./DistanceMetricFactory";
+import { NumericBackendFactory } from "./NumericBackendFactory";
+import { Preprocessor } from "./Preprocessor";
+import { ModelSerializer } from "./ModelSerializer";
+
+/**
+ * Worker thread of MultiStart: train the model of every seed it is sent, and send it back as model document.
+ */
+if (!isMainThread) {
+    const { algorithm, groupNum, maxIteration, minImprovement, mass, schema, persons, options } = workerData;
+    const attributeSchema = AttributeSchema.fromJSON(schema);
+    const population = (persons as { id: number, name: string, scores: {} }[]).map(p => new Person(p.id, p.name, p.scores, attributeSchema));
+    parentPort.on('message', (task: { index: number, seed: number }) => {
+        try {
+            const model = ClusteringModelFactory.create(algorithm, population, groupNum, null, {
+                seed: task.seed,
+                initialization: options.initialization,
+                stopRule: options.stopRule,
+                distanceMetric: DistanceMetricFactory.fromDescription(options.distanceMetric),
+                preprocessor: options.preprocessing ? Preprocessor.fromJSON(options.preprocessing) : undefined,
+                constraints: options.constraints,
+                backend: NumericBackendFactory.create(options.backend),
+            });
+            const training = model.buildModel(maxIteration, new Decimal(minImprovement), mass);
+            parentPort.postMessage({ index: task.index, document: ModelSerializer.toJSON(model), training: JSON.stringify(training) });
+        } catch (error) {
+            parentPort.postMessage({ index: task.index, error: error.message });
+        }
+    });
+}
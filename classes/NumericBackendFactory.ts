@@ -0,0 +1,34 @@
+﻿import { INumericBackend } from "../interfaces";
+import { DecimalBackend } from "./DecimalBackend";
+import { FloatBackend } from "./FloatBackend";
+import { ParallelBackend } from "./ParallelBackend";
+
+/**
+ * Create numeric backend by its name.
+ */
+export class NumericBackendFactory {
+    /**
+     * Available backend names.
+     */
+    public static NAMES = ['decimal', 'float', 'parallel'];
+
+    /**
+     * Create numeric backend.
+     * @param name        Backend name (see NAMES).
+     * @param threadCount Number of worker threads (parallel only). Default to number of CPU cores.
+     * @returns           Numeric backend.
+     * @throws            Error if backend name is unknown.
+     */
+    public static create(name: string, threadCount: number = undefined): INumericBackend {
+        switch (name) {
+            case 'decimal':
+                return new DecimalBackend();
+            case 'float':
+                return new FloatBackend();
+            case 'parallel':
+                return new ParallelBackend(threadCount);
+            default:
+                throw new Error(`Unknown numeric backend: ${name} (available: ${NumericBackendFactory.NAMES.join(', ')})`);
+        }
+    }
+}
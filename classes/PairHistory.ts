@@ -0,0 +1,195 @@
+﻿import { createReadStream, readFileSync } from "fs";
+import { extname } from "path";
+import { IPairCount } from "../interfaces";
+import { DatasetLoader } from "./DatasetLoader";
+import { Group } from "./Group";
+
+/**
+ * Number of past sessions in which each pair of persons (keyed by Person.id) was put into the same group.
+ * Given as formation option, formation avoids putting such pairs together again (see RepeatPenalty).
+ */
+export class PairHistory {
+    private _counts: Map<number, Map<number, number>>;
+    private _sessions: number;
+
+    /**
+     * Get number of sessions recorded.
+     */
+    get sessions(): number {
+        return this._sessions;
+    }
+
+    /**
+     * Construct a new pair history.
+     * @param sessions  Previous sessions, each one a list of groups given as person ids.
+     * @throws          Error if a person is listed twice in a session.
+     */
+    public constructor(sessions: number[][][] = []) {
+        this._counts = new Map<number, Map<number, number>>();
+        this._sessions = 0;
+        sessions.forEach(teams => this.addSession(teams));
+    }
+
+    /**
+     * Create pair history from previous rosters.
+     * @param rosters   Groups formed on each previous session.
+     */
+    public static fromRosters(rosters: Group[][]): PairHistory {
+        const history = new PairHistory();
+        rosters.forEach(groups => history.add(groups));
+        return history;
+    }
+
+    /**
+     * Read previous sessions from a roster file: CSV with PersonId and GroupId columns (and Session column, if it holds several sessions),
+     * e.g. output of form or rotate --format csv, or JSON document with groups (form --format json, saved model) or sessions (rotate --format json).
+     * @param path  File path. JSON is detected by .json extension, everything else is read as CSV.
+     * @returns     Promise of sessions, each one a list of groups given as person ids.
+     * @throws      Error if the file is not a valid roster (a CSV row is reported with the line it starts on).
+     */
+    public static async fromFile(path: string): Promise<number[][][]> {
+        if (extname(path).toLowerCase() === '.json') {
+            const document = JSON.parse(readFileSync(path, 'utf8').replace(/^\uFEFF/, ''));
+            const teams = (groups: any[]) => groups.map(group => (group.members || []).map((member: any) => member.id !== undefined ? member.id : member.personId));
+            if (document && Array.isArray(document.sessions)) {
+                return PairHistory.fromJSON(document.sessions.map((session: any) => teams(session.groups || [])), path);
+            }
+            if (document && Array.isArray(document.groups)) {
+                return PairHistory.fromJSON([teams(document.groups)], path);
+            }
+            return PairHistory.fromJSON(document, path);
+        }
+        const { records, lines } = await DatasetLoader.readRecords(createReadStream(path));
+        const rows = records
+            .map((record, i) => ({ record, line: lines[i] }))
+            .filter(row => row.record.some(cell => cell.trim() !== ''));
+        const header = rows.length > 0 ? rows[0].record.map((name, i) => i === 0 ? name.replace(/^\uFEFF/, '').trim() : name.trim()) : [];
+        const [session, person, group] = ['Session', 'PersonId', 'GroupId'].map(name => header.indexOf(name));
+        if (person < 0 || group < 0) {
+            throw new Error(`Roster ${path} must have PersonId and GroupId columns`);
+        }
+        const sessions = new Map<string, Map<string, number[]>>();
+        rows.slice(1).forEach(({ record, line }) => {
+            if (record.length !== header.length) {
+                throw new Error(`Expected ${header.length} columns at line ${line} of ${path}, got ${record.length}`);
+            }
+            const id = Number(record[person]);
+            if (record[person].trim() === '' || !Number.isInteger(id)) {
+                throw new Error(`Invalid person id at line ${line} of ${path}: ${record[person]}`);
+            }
+            const key = session >= 0 ? record[session].trim() : '';
+            if (!sessions.has(key)) {
+                sessions.set(key, new Map<string, number[]>());
+            }
+            const teams = sessions.get(key);
+            const team = record[group].trim();
+            teams.set(team, (teams.get(team) || []).concat([id]));
+        });
+        return PairHistory.fromJSON(Array.from(sessions.values()).map(teams => Array.from(teams.values())), path);
+    }
+
+    /**
+     * Check shape of parsed previous sessions.
+     * @param document  Parsed sessions, e.g. [[[1, 2], [3, 4]], [[1, 3], [2, 4]]].
+     * @param source    Document name used on error message.
+     * @returns         Sessions, each one a list of groups given as person ids.
+     * @throws          Error if the document is not an array of sessions, or a person is listed twice in a session.
+     */
+    public static fromJSON(document: any, source: string = 'history'): number[][][] {
+        if (!Array.isArray(document) || !document.every(teams => Array.isArray(teams)
+            && teams.every((team: any) => Array.isArray(team) && team.every((id: any) => Number.isInteger(id))))) {
+            throw new Error(`History in ${source} must be an array of sessions, each one an array of groups of person ids`);
+        }
+        document.forEach((teams: number[][], s: number) => {
+            const seen = new Set<number>();
+            teams.forEach(team => team.forEach(id => {
+                if (seen.has(id)) {
+                    throw new Error(`Person ${id} is listed twice in session ${s + 1} of ${source}`);
+                }
+                seen.add(id);
+            }));
+        });
+        return document;
+    }
+
+    /**
+     * Record the groups of a session.
+     * @param groups    Formed groups.
+     */
+    public add(groups: Group[]) {
+        this.addSession(groups.map(group => group.members.map(member => member.person.id)));
+    }
+
+    /**
+     * Record a session given as person ids.
+     * @param teams Person ids of each group.
+     * @throws      Error if a person is listed twice.
+     */
+    public addSession(teams: number[][]) {
+        PairHistory.fromJSON([teams], `session ${this._sessions + 1}`);
+        teams.forEach(team => team.forEach((left, i) => team.slice(i + 1).forEach(right => {
+            this.increment(left, right);
+            this.increment(right, left);
+        })));
+        this._sessions += 1;
+    }
+
+    /**
+     * Copy the pair history, e.g. to record more sessions without changing this one.
+     */
+    public clone(): PairHistory {
+        const copy = new PairHistory();
+        this._counts.forEach((partners, id) => copy._counts.set(id, new Map(partners)));
+        copy._sessions = this._sessions;
+        return copy;
+    }
+
+    /**
+     * Get number of sessions in which two persons were in the same group.
+     * @param left  Id of first person.
+     * @param right Id of second person.
+     */
+    public count(left: number, right: number): number {
+        const partners = this._counts.get(left);
+        return partners ? partners.get(right) || 0 : 0;
+    }
+
+    /**
+     * Get previous teammates of a person, with number of sessions spent together.
+     * @param id    Person id.
+     */
+    public partnersOf(id: number): Map<number, number> {
+        return new Map(this._counts.get(id) || []);
+    }
+
+    /**
+     * List every pair grouped together at least once, most frequent first.
+     */
+    public pairs(): IPairCount[] {
+        const result = new Array<IPairCount>();
+        this._counts.forEach((partners, left) => partners.forEach((count, right) => {
+            if (left < right) {
+                result.push({ left, right, count });
+            }
+        }));
+        return result.sort((a, b) => b.count - a.count || a.left - b.left || a.right - b.right);
+    }
+
+    /**
+     * Count the pairs of formed groups which were already grouped together.
+     * @param groups    Formed groups.
+     */
+    public repeatedPairs(groups: Group[]): number {
+        return groups
+            .map(group => group.members.reduce((p, left, i) => p + group.members.slice(i + 1).filter(right => this.count(left.person.id, right.person.id) > 0).length, 0))
+            .reduce((p, c) => p + c, 0);
+    }
+
+    private increment(left: number, right: number) {
+        if (!this._counts.has(left)) {
+            this._counts.set(left, new Map<number, number>());
+        }
+        const partners = this._counts.get(left);
+        partners.set(right, (partners.get(right) || 0) + 1);
+    }
+}
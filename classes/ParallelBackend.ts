@@ -0,0 +1,217 @@
+﻿import { Worker } from "worker_threads";
+import { cpus } from "os";
+import { existsSync } from "fs";
+import { join } from "path";
+import Decimal from "decimal.js";
+import { IDistanceMetric } from "../interfaces";
+import { FloatBackend } from "./FloatBackend";
+import { FloatKernel } from "./FloatKernel";
+import { DistanceMetricFactory } from "./DistanceMetricFactory";
+
+/**
+ * Float backend sharding the population across worker threads. Matrices live in shared memory,
+ * each worker computes the blocks of persons it owns and the main thread combines block sums in order,
+ * so results are identical to the single-threaded float backend.
+ * Only built-in distance metrics are supported (a worker must be able to rebuild the metric).
+ */
+export class ParallelBackend extends FloatBackend {
+    /**
+     * Slots of the control array shared with workers (EXITED counts workers which stopped without an EXIT command, PROGRESS counts blocks done).
+     */
+    public static CONTROL = { COMMAND: 0, GENERATION: 1, DONE: 2, FAILED: 3, EXITED: 4, PROGRESS: 5 };
+    /**
+     * Commands run by workers on their own blocks.
+     */
+    public static COMMANDS = { CENTER_SUMS: 1, DISTANCES: 2, MEMBERSHIPS: 3, OBJECTIVE: 4, EXIT: 5 };
+    /**
+     * Maximum length (in bytes) of an error message reported by a worker.
+     */
+    public static ERROR_LENGTH = 1024;
+    /**
+     * Longest time (in milliseconds) the main thread blocks waiting for workers before checking that every worker is still running.
+     */
+    public static WAIT_INTERVAL = 100;
+    /**
+     * Longest time (in milliseconds) without any block done before workers are considered stopped (e.g. a worker terminated while the main thread was blocked).
+     */
+    public static STALL_TIMEOUT = 30000;
+
+    private _threadCount: number;
+    private _workers: Worker[];
+    private _control: Int32Array;
+    private _parameters: Float64Array; // [mass]
+    private _blockObjectives: Float64Array;
+    private _error: Uint8Array;
+    private _failure: string; // why a worker stopped, as reported by its error or exit event
+
+    get name(): string {
+        return 'parallel';
+    }
+
+    /**
+     * Get number of worker threads.
+     */
+    get threadCount(): number {
+        return this._threadCount;
+    }
+
+    /**
+     * Construct a new parallel backend.
+     * @param threadCount   Number of worker threads. Default to number of CPU cores.
+     * @throws              Error if thread count is not a positive integer.
+     */
+    public constructor(threadCount: number = cpus().length) {
+        super();
+        if (!Number.isInteger(threadCount) || threadCount < 1) {
+            throw new Error(`Thread count must be a positive integer: ${threadCount}`);
+        }
+        this._threadCount = threadCount;
+        this._workers = new Array<Worker>();
+        this._failure = null;
+    }
+
+    /**
+     * Load matrices into shared memory and start workers (workers of a previous load are released first).
+     * @throws  Error if distance metric is not a built-in metric, or worker script cannot be found.
+     */
+    public load(data: Decimal[][], memberships: Decimal[][], distanceMetric: IDistanceMetric) {
+        this.release();
+        const metric = DistanceMetricFactory.describe(distanceMetric);
+        const script = join(__dirname, 'ParallelWorker.js');
+        if (!existsSync(script)) {
+            throw new Error(`Parallel worker script not found: ${script} (run the compiled build)`);
+        }
+        super.load(data, memberships, distanceMetric);
+        this._control = new Int32Array(new SharedArrayBuffer(4 * Object.keys(ParallelBackend.CONTROL).length));
+        this._failure = null;
+        this._parameters = this.allocate(1);
+        this._blockObjectives = this.allocate(this._blockCount);
+        this._error = new Uint8Array(new SharedArrayBuffer(ParallelBackend.ERROR_LENGTH));
+        const workerCount = Math.min(this._threadCount, this._blockCount);
+        for (let w = 0; w < workerCount; w++) {
+            const worker = new Worker(script, {
+                workerData: {
+                    n: this._n,
+                    dimension: this._dimension,
+                    groupNum: this._groupNum,
+                    fromBlock: Math.floor(w * this._blockCount / workerCount),
+                    toBlock: Math.floor((w + 1) * this._blockCount / workerCount),
+                    metric,
+                    data: this._data,
+                    memberships: this._memberships,
+                    centers: this._centers,
+                    distances: this._distances,
+                    blockSums: this._blockSums,
+                    blockWeights: this._blockWeights,
+                    blockObjectives: this._blockObjectives,
+                    parameters: this._parameters,
+                    control: this._control,
+                    error: this._error,
+                },
+            });
+            worker.on('error', error => this.reportFailure(worker, error.message));
+            worker.on('exit', code => this.reportFailure(worker, `Worker exited with code ${code}`));
+            worker.unref();
+            this._workers.push(worker);
+        }
+    }
+
+    public updateCenters(mass: number) {
+        this._parameters[0] = mass;
+        this.dispatch(ParallelBackend.COMMANDS.CENTER_SUMS);
+        const empty = FloatKernel.combineCenters(this._blockSums, this._blockWeights, this._blockCount, this._dimension, this._groupNum, this._centers);
+        FloatKernel.reseedCenters(this._dataRows, this._centers, this._dimension, this._groupNum, empty, this._distance);
+        this._distancesValid = false;
+    }
+
+    public updateMemberships(mass: number) {
+        this._parameters[0] = mass;
+        this.dispatch(ParallelBackend.COMMANDS.MEMBERSHIPS);
+        this._distancesValid = true;
+    }
+
+    public objectiveValue(mass: number): Decimal {
+        this.updateDistances();
+        this._parameters[0] = mass;
+        this.dispatch(ParallelBackend.COMMANDS.OBJECTIVE);
+        let sum = 0;
+        for (let b = 0; b < this._blockCount; b++) {
+            sum += this._blockObjectives[b];
+        }
+        return new Decimal(sum);
+    }
+
+    /**
+     * Stop workers.
+     */
+    public release() {
+        if (this._workers.length > 0) {
+            this.dispatch(ParallelBackend.COMMANDS.EXIT);
+            this._workers = new Array<Worker>();
+        }
+    }
+
+    protected allocate(length: number): Float64Array {
+        return new Float64Array(new SharedArrayBuffer(length * Float64Array.BYTES_PER_ELEMENT));
+    }
+
+    protected updateDistances() {
+        if (!this._distancesValid) {
+            this.dispatch(ParallelBackend.COMMANDS.DISTANCES);
+            this._distancesValid = true;
+        }
+    }
+
+    /**
+     * Run a command on every worker and block until all of them are done.
+     * Waiting is done in slices of WAIT_INTERVAL, checking between slices that no worker stopped and that blocks are still being done (see STALL_TIMEOUT).
+     * @param command   One of COMMANDS.
+     * @throws          Error if a worker failed or stopped (workers are stopped).
+     */
+    private dispatch(command: number) {
+        const control = ParallelBackend.CONTROL;
+        Atomics.store(this._control, control.DONE, 0);
+        Atomics.store(this._control, control.COMMAND, command);
+        Atomics.add(this._control, control.GENERATION, 1);
+        Atomics.notify(this._control, control.GENERATION, this._workers.length);
+        let done: number;
+        let progress = -1;
+        let progressedAt = Date.now();
+        while ((done = Atomics.load(this._control, control.DONE)) < this._workers.length) {
+            if (Atomics.load(this._control, control.PROGRESS) + done !== progress) {
+                progress = Atomics.load(this._control, control.PROGRESS) + done;
+                progressedAt = Date.now();
+            }
+            const failure = this._failure !== null ? this._failure
+                : Atomics.load(this._control, control.EXITED) > 0 ? 'Worker exited unexpectedly'
+                : Date.now() - progressedAt > ParallelBackend.STALL_TIMEOUT ? `No block was done for ${ParallelBackend.STALL_TIMEOUT} ms`
+                : null;
+            if (failure !== null) {
+                this._workers.forEach(worker => worker.terminate());
+                this._workers = new Array<Worker>();
+                if (command === ParallelBackend.COMMANDS.EXIT) {
+                    return;
+                }
+                throw new Error(`Parallel worker stopped: ${failure}`);
+            }
+            Atomics.wait(this._control, control.DONE, done, ParallelBackend.WAIT_INTERVAL);
+        }
+        if (Atomics.load(this._control, control.FAILED) !== 0 && command !== ParallelBackend.COMMANDS.EXIT) {
+            const length = this._error.indexOf(0) < 0 ? this._error.length : this._error.indexOf(0);
+            const message = Buffer.from(this._error.slice(0, length)).toString('utf8');
+            this.release();
+            throw new Error(`Parallel worker failed: ${message}`);
+        }
+    }
+
+    /**
+     * Record why a running worker stopped (seen by the next dispatch). Workers which were released are ignored.
+     * @param worker    Worker which emitted an error or exit event.
+     * @param reason    Error message or exit code.
+     */
+    private reportFailure(worker: Worker, reason: string) {
+        if (this._workers.indexOf(worker) >= 0 && this._failure === null) {
+            this._failure = reason;
+        }
+    }
+}
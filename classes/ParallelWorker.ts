@@ -0,0 +1,65 @@
+﻿import { workerData, isMainThread } from "worker_threads";
+import { FloatKernel } from "./FloatKernel";
+import { ParallelBackend } from "./ParallelBackend";
+import { DistanceMetricFactory } from "./DistanceMetricFactory";
+
+/**
+ * Worker thread of ParallelBackend: wait for a command, run it on the blocks this worker owns, report completion.
+ */
+if (!isMainThread) {
+    const { n, dimension, groupNum, fromBlock, toBlock, data, memberships, centers, distances, blockSums, blockWeights, blockObjectives, parameters, control, error } = workerData;
+    const { COMMAND, GENERATION, DONE, FAILED, EXITED, PROGRESS } = ParallelBackend.CONTROL;
+    const COMMANDS = ParallelBackend.COMMANDS;
+    let generation = 0;
+    let running = true;
+    // Wake the main thread if this worker stops before it is told to exit
+    process.on('exit', () => {
+        if (running) {
+            Atomics.add(control, EXITED, 1);
+            Atomics.notify(control, DONE, 1);
+        }
+    });
+    let distance: (left: ArrayLike<number>, right: ArrayLike<number>) => number = null;
+    let dataRows: Float64Array[] = null;
+    while (running) {
+        Atomics.wait(control, GENERATION, generation);
+        generation = Atomics.load(control, GENERATION);
+        const command = Atomics.load(control, COMMAND);
+        try {
+            if (distance === null) {
+                const metric = DistanceMetricFactory.fromDescription(workerData.metric);
+                distance = (left, right) => metric.fastDistance(left, right);
+                dataRows = new Array<Float64Array>(n);
+                for (let i = 0; i < n; i++) {
+                    dataRows[i] = data.subarray(i * dimension, (i + 1) * dimension);
+                }
+            }
+            for (let b = fromBlock; b < toBlock && command !== COMMANDS.EXIT; b++) {
+                switch (command) {
+                    case COMMANDS.CENTER_SUMS:
+                        FloatKernel.centerSums(data, memberships, dimension, groupNum, parameters[0], b, n, blockSums, blockWeights);
+                        break;
+                    case COMMANDS.DISTANCES:
+                        FloatKernel.distances(dataRows, centers, dimension, groupNum, b, distance, distances);
+                        break;
+                    case COMMANDS.MEMBERSHIPS:
+                        FloatKernel.distances(dataRows, centers, dimension, groupNum, b, distance, distances);
+                        FloatKernel.memberships(distances, groupNum, parameters[0], b, n, memberships);
+                        break;
+                    case COMMANDS.OBJECTIVE:
+                        blockObjectives[b] = FloatKernel.objective(memberships, distances, groupNum, parameters[0], b, n);
+                        break;
+                }
+                Atomics.add(control, PROGRESS, 1);
+            }
+        } catch (e) {
+            if (Atomics.compareExchange(control, FAILED, 0, 1) === 0) {
+                const message = Buffer.from(String(e && e.message || e), 'utf8');
+                error.set(message.subarray(0, ParallelBackend.ERROR_LENGTH - 1));
+            }
+        }
+        running = command !== COMMANDS.EXIT;
+        Atomics.add(control, DONE, 1);
+        Atomics.notify(control, DONE, 1);
+    }
+}
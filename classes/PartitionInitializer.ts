@@ -0,0 +1,199 @@
+﻿import Decimal from "decimal.js";
+import { IDistanceMetric, IRandomGenerator } from "../interfaces";
+
+/**
+ * Build initial partition matrix U of an FCM model.
+ */
+export class PartitionInitializer {
+    /**
+     * Available initialization strategies.
+     */
+    public static STRATEGIES = ['random', 'kmeans++', 'maximin'];
+
+    private static ZERO = new Decimal(0);
+    private static ONE = new Decimal(1);
+    private static TOLERANCE = new Decimal('1e-6');
+
+    private _vectors: Decimal[][];
+    private _groupNum: number;
+    private _distanceMetric: IDistanceMetric;
+    private _random: IRandomGenerator;
+    private _mass: number;
+
+    /**
+     * Construct a new partition initializer.
+     * @param vectors           Population vectors.
+     * @param groupNum          Number of groups.
+     * @param distanceMetric    Distance metric used to seed centers and derive memberships.
+     * @param random            Random generator.
+     * @param mass              Mass (m) used to derive memberships from centers. Default to 2.
+     */
+    public constructor(vectors: Decimal[][], groupNum: number, distanceMetric: IDistanceMetric, random: IRandomGenerator, mass: number = 2) {
+        this._vectors = vectors;
+        this._groupNum = groupNum;
+        this._distanceMetric = distanceMetric;
+        this._random = random;
+        this._mass = mass;
+    }
+
+    /**
+     * Build partition matrix using a strategy.
+     * @param strategy  One of STRATEGIES.
+     * @returns         Partition matrix (one row per person).
+     * @throws          Error if strategy is unknown.
+     */
+    public create(strategy: string): Decimal[][] {
+        const centers = this.seedCenters(strategy);
+        return centers ? this.fromCenters(centers) : this.random();
+    }
+
+    /**
+     * Seed centers of a strategy, which memberships are derived from (see fromCenters).
+     * @param strategy  One of STRATEGIES.
+     * @returns         Centers (one per group), or null if the strategy draws memberships directly (random).
+     * @throws          Error if strategy is unknown.
+     */
+    public seedCenters(strategy: string): Decimal[][] {
+        switch (strategy) {
+            case 'random':
+                return null;
+            case 'kmeans++':
+                return this.kMeansPlusPlusCenters();
+            case 'maximin':
+                return this.maximinCenters();
+            default:
+                throw new Error(`Unknown initialization strategy: ${strategy} (available: ${PartitionInitializer.STRATEGIES.join(', ')})`);
+        }
+    }
+
+    /**
+     * Randomly-uniform partition matrix (sum of each row is 1.0).
+     */
+    public random(): Decimal[][] {
+        return this._vectors.map(() => {
+            let vector = new Array<Decimal>();
+            for (let i = 0; i < this._groupNum; i++) {
+                vector.push(new Decimal(this._random.next()));
+            }
+            let sum = vector.reduce((p, c) => p.plus(c), PartitionInitializer.ZERO);
+            return sum.isZero() ? vector.map(() => PartitionInitializer.ONE.div(this._groupNum)) : vector.map(v => v.div(sum));
+        });
+    }
+
+    /**
+     * Derive memberships from centers using FCM membership formula. A person sitting on a center gets crisp membership.
+     * @param centers   Centers (one per group).
+     * @returns         Partition matrix.
+     * @throws          Error if number of centers or center length does not match.
+     */
+    public fromCenters(centers: Decimal[][]): Decimal[][] {
+        this.validateCenters(centers);
+        const exponent = new Decimal(2).div(this._mass - 1);
+        return this._vectors.map(vector => {
+            let distances = centers.map(center => this._distanceMetric.distance(center, vector));
+            let zeroes = distances.filter(d => d.isZero()).length;
+            if (zeroes > 0) {
+                return distances.map(d => d.isZero() ? PartitionInitializer.ONE.div(zeroes) : PartitionInitializer.ZERO);
+            }
+            return distances.map(dj => PartitionInitializer.ONE.div(distances.map(dk => dj.div(dk).pow(exponent)).reduce((p, c) => p.plus(c))));
+        });
+    }
+
+    /**
+     * Validate given partition matrix against population size and number of groups, and normalize each row to sum 1.0.
+     * @param matrix    Partition matrix.
+     * @returns         Normalized partition matrix.
+     * @throws          Error if matrix size does not match, a value is negative, or a row sums to 0.
+     */
+    public validatePartition(matrix: Decimal[][]): Decimal[][] {
+        if (matrix.length !== this._vectors.length) {
+            throw new Error(`Initial partition matrix has ${matrix.length} rows, population has ${this._vectors.length} persons`);
+        }
+        return matrix.map((row, i) => {
+            if (row.length !== this._groupNum) {
+                throw new Error(`Initial partition matrix row ${i + 1} has ${row.length} columns, expected ${this._groupNum} (number of groups)`);
+            }
+            if (row.some(v => v.isNegative() || !v.isFinite())) {
+                throw new Error(`Initial partition matrix row ${i + 1} has negative or non-finite value`);
+            }
+            let sum = row.reduce((p, c) => p.plus(c), PartitionInitializer.ZERO);
+            if (sum.isZero()) {
+                throw new Error(`Initial partition matrix row ${i + 1} sums to 0`);
+            }
+            return sum.minus(1).abs().lessThan(PartitionInitializer.TOLERANCE) ? row : row.map(v => v.div(sum));
+        });
+    }
+
+    /**
+     * Validate given centers against number of groups and vector length.
+     * @param centers   Centers.
+     * @throws          Error if number of centers or center length does not match.
+     */
+    public validateCenters(centers: Decimal[][]) {
+        if (centers.length !== this._groupNum) {
+            throw new Error(`Got ${centers.length} initial centers, expected ${this._groupNum} (number of groups)`);
+        }
+        const vectorLength = this._vectors.length > 0 ? this._vectors[0].length : 0;
+        centers.forEach((center, i) => {
+            if (center.length !== vectorLength) {
+                throw new Error(`Initial center ${i + 1} has ${center.length} dimensions, expected ${vectorLength}`);
+            }
+        });
+    }
+
+    /**
+     * k-means++ seeding: first center is drawn uniformly, each next center is drawn with probability proportional to squared distance to its nearest chosen center.
+     */
+    public kMeansPlusPlusCenters(): Decimal[][] {
+        this.assertEnoughVectors();
+        let centers = [this._vectors[Math.floor(this._random.next() * this._vectors.length)]];
+        let nearest = this._vectors.map(vector => this._distanceMetric.distance(centers[0], vector).pow(2));
+        while (centers.length < this._groupNum) {
+            let total = nearest.reduce((p, c) => p.plus(c), PartitionInitializer.ZERO);
+            let chosen: number;
+            if (total.isZero()) {
+                // Every person sits on a chosen center, any person will do
+                chosen = Math.floor(this._random.next() * this._vectors.length);
+            } else {
+                let target = total.times(this._random.next());
+                let cumulative = PartitionInitializer.ZERO;
+                chosen = nearest.findIndex(d => {
+                    cumulative = cumulative.plus(d);
+                    return cumulative.greaterThan(target);
+                });
+                chosen = chosen < 0 ? nearest.length - 1 : chosen;
+            }
+            centers.push(this._vectors[chosen]);
+            nearest = nearest.map((d, i) => Decimal.min(d, this._distanceMetric.distance(this._vectors[chosen], this._vectors[i]).pow(2)));
+        }
+        return centers;
+    }
+
+    /**
+     * Maximin spread: first center is the person farthest from the population mean, each next center is the person farthest from its nearest chosen center.
+     */
+    public maximinCenters(): Decimal[][] {
+        this.assertEnoughVectors();
+        const mean = this._vectors
+            .reduce((p, c) => p === null ? c.slice() : p.map((v, i) => v.plus(c[i])), null)
+            .map(v => v.div(this._vectors.length));
+        let centers = [this._vectors[this.argMax(this._vectors.map(vector => this._distanceMetric.distance(mean, vector)))]];
+        let nearest = this._vectors.map(vector => this._distanceMetric.distance(centers[0], vector));
+        while (centers.length < this._groupNum) {
+            let chosen = this.argMax(nearest);
+            centers.push(this._vectors[chosen]);
+            nearest = nearest.map((d, i) => Decimal.min(d, this._distanceMetric.distance(this._vectors[chosen], this._vectors[i])));
+        }
+        return centers;
+    }
+
+    private assertEnoughVectors() {
+        if (this._vectors.length < this._groupNum) {
+            throw new Error(`Population (${this._vectors.length}) is smaller than number of groups (${this._groupNum})`);
+        }
+    }
+
+    private argMax(values: Decimal[]): number {
+        return values.reduce((best, v, i) => v.greaterThan(values[best]) ? i : best, 0);
+    }
+}
@@ -0,0 +1,32 @@
+﻿import { readFileSync } from "fs";
+import { extname } from "path";
+import Decimal from "decimal.js";
+
+/**
+ * Load initial partition matrix or initial centers from file.
+ */
+export class PartitionLoader {
+    /**
+     * Load matrix from JSON (array of arrays) or CSV (no header) file.
+     * Partition matrix has one row per person and one column per group, centers have one row per group and one column per dimension.
+     * @param path  File path. JSON is detected by .json extension, everything else is read as CSV.
+     * @returns     Matrix.
+     * @throws      Error if file contains non-numeric value.
+     */
+    public static load(path: string): Decimal[][] {
+        const content = readFileSync(path, 'utf8').replace(/^\uFEFF/, '');
+        const rows: any[][] = extname(path).toLowerCase() === '.json'
+            ? JSON.parse(content)
+            : content.split(/\r?\n/).filter(line => line.trim() !== '').map(line => line.split(','));
+        if (!Array.isArray(rows) || rows.some(row => !Array.isArray(row))) {
+            throw new Error(`Matrix in ${path} must be an array of rows`);
+        }
+        return rows.map((row, i) => row.map((value, j) => {
+            try {
+                return new Decimal(typeof value === 'string' ? value.trim() : value);
+            } catch (error) {
+                throw new Error(`Invalid value at row ${i + 1}, column ${j + 1} of ${path}: ${value}`);
+            }
+        }));
+    }
+}
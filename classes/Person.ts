@@ -1,13 +1,12 @@
 ﻿import { IPersonScore } from "../interfaces";
 import Decimal from "decimal.js";
+import { AttributeSchema } from "./AttributeSchema";
 
 export class Person {
     private _id: number;
     private _name: string;
-    private _active_reflective: number;
-    private _sensing_intuitive: number;
-    private _visual_verbal: number;
-    private _sequential_global: number;
+    private _schema: AttributeSchema;
+    private _scores: IPersonScore;
 
     get id(): number {
         return this._id;
@@ -17,45 +16,49 @@ export class Person {
         return this._name;
     }
 
-    get active_reflective(): number {
-        return this._active_reflective;
+    get schema(): AttributeSchema {
+        return this._schema;
     }
 
-    get sensing_intuitive(): number {
-        return this._sensing_intuitive;
-    }
-
-    get visual_verbal(): number {
-        return this._visual_verbal;
-    }
-
-    get sequential_global(): number {
-        return this._sequential_global;
+    get scores(): IPersonScore {
+        return { ...this._scores };
     }
 
     private tryParseToNumber(val: any): number {
-        try {
-            return (typeof val) === 'number' ? val : parseInt(val, 10);
-        } catch (error) {
+        const result = (typeof val) === 'number' ? val : (typeof val === 'string' && val.trim() !== '' ? Number(val) : NaN);
+        if (!Number.isFinite(result)) {
             throw new Error(`Unable to parse ${val} as number`);
         }
+        return result;
     }
 
-    public constructor(id: number, name: string, score: IPersonScore) {
+    /**
+     * Construct a new person.
+     * @param id        Person id.
+     * @param name      Person name. Default to an empty name if not set (e.g. dataset without name column).
+     * @param score     Score of each dimension, keyed by dimension name.
+     * @param schema    Attribute schema of the score. Default to Felder-Silverman learning styles.
+     * @throws          Error if id or a numeric score is not a number.
+     */
+    public constructor(id: number, name: string, score: IPersonScore, schema: AttributeSchema = AttributeSchema.FELDER_SILVERMAN) {
         this._id = this.tryParseToNumber(id);
-        this._name = name;
-        this._active_reflective = this.tryParseToNumber(score.active_reflective);
-        this._sensing_intuitive = this.tryParseToNumber(score.sensing_intuitive);
-        this._visual_verbal = this.tryParseToNumber(score.visual_verbal);
-        this._sequential_global = this.tryParseToNumber(score.sequential_global);
+        this._name = name !== undefined && name !== null ? String(name) : '';
+        this._schema = schema;
+        this._scores = schema.dimensions.reduce((p, d) => {
+            p[d.name] = schema.isCategorical(d) ? String(score[d.name]) : this.tryParseToNumber(score[d.name]);
+            return p;
+        }, {} as IPersonScore);
+    }
+
+    /**
+     * Get score of a dimension.
+     * @param dimension Dimension name.
+     */
+    public getScore(dimension: string): number | string {
+        return this._scores[dimension];
     }
 
     public toVector(): Decimal[] {
-        return [
-            new Decimal(this._active_reflective),
-            new Decimal(this._sensing_intuitive),
-            new Decimal(this._visual_verbal),
-            new Decimal(this._sequential_global),
-        ];
+        return this._schema.encode(this._scores);
     }
 }
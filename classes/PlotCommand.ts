@@ -0,0 +1,43 @@
+﻿import { ICommandOption, ICommandArguments } from "../interfaces";
+import { ModelCommand } from "./ModelCommand";
+import { UsageError } from "./UsageError";
+import { GroupPlotter } from "./GroupPlotter";
+
+/**
+ * Plot formed groups of a dataset.
+ */
+export class PlotCommand extends ModelCommand {
+    get name(): string {
+        return 'plot';
+    }
+
+    get description(): string {
+        return 'Build clustering model from a dataset and plot learners, centers and group profiles';
+    }
+
+    get options(): ICommandOption[] {
+        return ModelCommand.MODEL_OPTIONS.concat(ModelCommand.FORMATION_OPTIONS, [
+            { name: 'format', alias: 'f', description: 'Plot format (text: terminal, svg: scatter plot, radar: group profiles as SVG, html: page with both)', type: 'string', defaultValue: 'text' },
+            { name: 'width', description: 'Width of terminal plot in characters', type: 'number', defaultValue: 72 },
+            { name: 'height', description: 'Height of terminal plot in lines', type: 'number', defaultValue: 20 },
+        ]);
+    }
+
+    public async run(args: ICommandArguments): Promise<number> {
+        if (GroupPlotter.FORMATS.indexOf(args['format'] as string) < 0) {
+            throw new UsageError(`Unknown plot format: ${args['format']}`);
+        }
+        const width = args['width'] as number;
+        const height = args['height'] as number;
+        if (!Number.isInteger(width) || width < 10 || !Number.isInteger(height) || height < 5) {
+            throw new UsageError('--width must be an integer of at least 10 and --height of at least 5');
+        }
+        const formationOptions = await this.formationOptions(args);
+        const { model } = await this.train(args);
+        const { groups, violations } = model.formGroupsWithReport(formationOptions);
+        violations.forEach(violation => console.error(`Warning: ${violation.message}`));
+        const plotter = GroupPlotter.fromModel(model, groups);
+        this.write(args, args['format'] === 'text' ? plotter.toText(width, height) : plotter.export(args['format'] as string));
+        return 0;
+    }
+}
@@ -0,0 +1,108 @@
+﻿import Decimal from 'decimal.js';
+import { IClusteringOptions } from "../interfaces";
+import { Person } from "./Person";
+import { ClusteringModel } from "./ClusteringModel";
+import { MatrixHelper } from "./MatrixHelper";
+
+/**
+ * Possibilistic C Means (PCM, Krishnapuram and Keller) model.
+ * Membership is a typicality, u = 1 / (1 + (d² / η)^(1/(m-1))): it does not have to sum to 1 across clusters, so an outlier gets low membership
+ * everywhere instead of being shared among clusters and pulling their centers.
+ * Bandwidth η of each cluster is estimated from the partition at the start of every run, η = ∑ uᵐ d² / ∑ uᵐ (best started from an FCM partition).
+ */
+export class PossibilisticCMeans extends ClusteringModel {
+    private _eta: Decimal[]; // η of each cluster
+
+    get name(): string {
+        return 'pcm';
+    }
+
+    /**
+     * Get bandwidth (η) of each cluster, estimated from the current partition (empty before training).
+     */
+    get eta(): Decimal[] {
+        return this._eta;
+    }
+
+    /**
+     * Construct a new PCM model. See ClusteringModel for parameters.
+     * @throws  Error if a numeric backend other than decimal is set.
+     */
+    public constructor(population: Person[], groupNum: number, initialVectors: Decimal[][] = null, options: IClusteringOptions = {}) {
+        super(population, groupNum, initialVectors, options);
+        this.requireDecimalBackend();
+        this._eta = [];
+    }
+
+    protected startIterations() {
+        super.startIterations();
+        this._centers = this.weightedCenters(this.powered(this._memberships));
+        this._eta = this.bandwidths(this._memberships, this._centers);
+    }
+
+    /**
+     * Update centers from uᵐ, then typicalities from the fixed bandwidths.
+     * @returns J = ∑∑ uᵐ d² + ∑ η ∑ (1 - u)ᵐ.
+     */
+    protected iterateOnce(): Decimal {
+        this._centers = this.weightedCenters(this.powered(this._memberships));
+        const distances = this.dataMatrix.map(vector => this._centers.map(center => this.distanceMetric.distance(center, vector).pow(2)));
+        this._memberships = distances.map(row => this.typicalities(row));
+        this.constrain(this._memberships);
+        const spread = this._memberships
+            .map((row, k) => row.map((u, i) => u.pow(this.mass).times(distances[k][i])).reduce((p, c) => p.plus(c)))
+            .reduce((p, c) => p.plus(c));
+        const penalty = this._eta
+            .map((eta, i) => eta.times(this._memberships.map(row => ClusteringModel.ONE.minus(row[i]).pow(this.mass)).reduce((p, c) => p.plus(c))))
+            .reduce((p, c) => p.plus(c));
+        return spread.plus(penalty);
+    }
+
+    /**
+     * Re-estimate bandwidths from the trained partition, used on prediction.
+     */
+    protected refresh() {
+        this._eta = this.bandwidths(this.partitionMatrix.map(row => row.vector), this.clusterCenters.map(center => center.vector));
+    }
+
+    /**
+     * Typicality of a vector to each cluster.
+     * @param vector    Vector after preprocessing.
+     */
+    protected membershipOf(vector: Decimal[]): Decimal[] {
+        return this.typicalities(this.clusterCenters.map(center => this.distanceMetric.distance(center.vector, vector).pow(2)));
+    }
+
+    /**
+     * Typicality to each cluster from squared distances, u = 1 / (1 + (d² / η)^(1/(m-1))).
+     * @param squaredDistances  Squared distance to each cluster.
+     */
+    private typicalities(squaredDistances: Decimal[]): Decimal[] {
+        const exponent = ClusteringModel.ONE.div(this.mass - 1);
+        return squaredDistances.map((d, i) => ClusteringModel.ONE.div(ClusteringModel.ONE.plus(d.div(this._eta[i]).pow(exponent))));
+    }
+
+    /**
+     * Bandwidth of each cluster, η = ∑ uᵐ d² / ∑ uᵐ (at least MatrixHelper.RIDGE, so a cluster without spread keeps a usable bandwidth).
+     * @param memberships   Partition matrix.
+     * @param centers       Cluster centers.
+     */
+    private bandwidths(memberships: Decimal[][], centers: Decimal[][]): Decimal[] {
+        return centers.map((center, i) => {
+            const weights = memberships.map(row => row[i].pow(this.mass));
+            const total = weights.reduce((p, c) => p.plus(c));
+            const eta = total.isZero()
+                ? ClusteringModel.ZERO
+                : this.dataMatrix.map((vector, k) => weights[k].times(this.distanceMetric.distance(center, vector).pow(2))).reduce((p, c) => p.plus(c)).div(total);
+            return Decimal.max(eta, MatrixHelper.RIDGE);
+        });
+    }
+
+    /**
+     * Raise every membership to the mass (uᵐ).
+     * @param memberships   Partition matrix.
+     */
+    private powered(memberships: Decimal[][]): Decimal[][] {
+        return memberships.map(row => row.map(u => u.pow(this.mass)));
+    }
+}
@@ -0,0 +1,263 @@
+﻿import Decimal from "decimal.js";
+import { IPreprocessorDescription } from "../interfaces";
+import { MatrixHelper } from "./MatrixHelper";
+
+/**
+ * Feature scaling (and optional PCA whitening) applied to person vectors before clustering.
+ * Parameters are fitted once on a population, then every vector (population, newcomer, center) is mapped the same way,
+ * and model-space vectors (e.g. centers) can be mapped back into original units.
+ */
+export class Preprocessor {
+    /**
+     * Available scaling methods: none, minmax (to 0..1), zscore (zero mean, unit standard deviation) and robust (zero median, unit interquartile range).
+     */
+    public static METHODS = ['none', 'minmax', 'zscore', 'robust'];
+    /**
+     * Principal axis whose variance is below this value is dropped on whitening.
+     */
+    public static MIN_VARIANCE = new Decimal('1e-12');
+
+    private static ZERO = new Decimal(0);
+    private static ONE = new Decimal(1);
+
+    private _method: string;
+    private _whiten: boolean;
+    private _components: number; // requested number of principal axes, null to keep all
+    private _offsets: Decimal[];
+    private _scales: Decimal[];
+    private _pcaMean: Decimal[];
+    private _pcaComponents: Decimal[][];
+    private _pcaScales: Decimal[];
+
+    /**
+     * Get scaling method.
+     */
+    get method(): string {
+        return this._method;
+    }
+
+    /**
+     * Get whether scaled vectors are PCA-whitened.
+     */
+    get whiten(): boolean {
+        return this._whiten;
+    }
+
+    /**
+     * Get whether parameters have been fitted.
+     */
+    get isFitted(): boolean {
+        return this._offsets !== null;
+    }
+
+    /**
+     * Get length of original vectors (0 if not fitted).
+     */
+    get inputLength(): number {
+        return this.isFitted ? this._offsets.length : 0;
+    }
+
+    /**
+     * Get length of transformed vectors (0 if not fitted).
+     */
+    get outputLength(): number {
+        return !this.isFitted ? 0 : this._whiten ? this._pcaComponents.length : this._offsets.length;
+    }
+
+    /**
+     * Construct a new preprocessor.
+     * @param method        Scaling method (see METHODS). Default to zscore.
+     * @param whiten        Whether to PCA-whiten scaled vectors. Default to false.
+     * @param components    Number of principal axes kept on whitening (if set). Default to every axis with variance.
+     * @throws              Error if method is unknown or number of components is not a positive integer.
+     */
+    public constructor(method: string = 'zscore', whiten: boolean = false, components: number = null) {
+        if (Preprocessor.METHODS.indexOf(method) < 0) {
+            throw new Error(`Unknown scaling method: ${method} (available: ${Preprocessor.METHODS.join(', ')})`);
+        }
+        if (components !== null && (!Number.isInteger(components) || components < 1)) {
+            throw new Error(`Number of components must be a positive integer: ${components}`);
+        }
+        this._method = method;
+        this._whiten = whiten;
+        this._components = components;
+        this._offsets = null;
+        this._scales = null;
+        this._pcaMean = null;
+        this._pcaComponents = null;
+        this._pcaScales = null;
+    }
+
+    /**
+     * Rebuild fitted preprocessor from its description.
+     * @param description   Preprocessor description (see toJSON).
+     * @returns             Fitted preprocessor.
+     * @throws              Error if method is unknown, or parameters are missing or do not match each other.
+     */
+    public static fromJSON(description: IPreprocessorDescription): Preprocessor {
+        const toDecimals = (values: string[]) => values.map(v => new Decimal(v));
+        const result = new Preprocessor(description.method, !!description.whiten);
+        if (!Array.isArray(description.offsets) || !Array.isArray(description.scales) || description.offsets.length !== description.scales.length) {
+            throw new Error('Preprocessor offsets and scales must be arrays of the same length');
+        }
+        result._offsets = toDecimals(description.offsets);
+        result._scales = toDecimals(description.scales);
+        if (result._whiten) {
+            const length = result._offsets.length;
+            if (!Array.isArray(description.pcaMean) || description.pcaMean.length !== length
+                || !Array.isArray(description.pcaComponents) || description.pcaComponents.some(row => !Array.isArray(row) || row.length !== length)
+                || !Array.isArray(description.pcaScales) || description.pcaScales.length !== description.pcaComponents.length) {
+                throw new Error(`Preprocessor whitening parameters must match ${length} dimensions`);
+            }
+            result._pcaMean = toDecimals(description.pcaMean);
+            result._pcaComponents = description.pcaComponents.map(toDecimals);
+            result._pcaScales = toDecimals(description.pcaScales);
+            result._components = result._pcaComponents.length;
+        }
+        return result;
+    }
+
+    /**
+     * Fit scaling (and whitening) parameters on a set of vectors.
+     * A dimension without spread is only shifted (its scale is 1).
+     * @param vectors   Original vectors.
+     * @returns         This preprocessor.
+     * @throws          Error if there is no vector, vectors have different length, or whitening is requested on less than 2 vectors or data without variance.
+     */
+    public fit(vectors: Decimal[][]): Preprocessor {
+        if (vectors.length === 0) {
+            throw new Error('At least 1 vector is required to fit preprocessor');
+        }
+        const length = vectors[0].length;
+        if (vectors.some(vector => vector.length !== length)) {
+            throw new Error(`Vector size is not equal across population: ${Array.from(new Set(vectors.map(vector => vector.length))).join()}`);
+        }
+        const columns = vectors[0].map((_, k) => vectors.map(vector => vector[k]));
+        let offsets: Decimal[];
+        let spreads: Decimal[];
+        switch (this._method) {
+            case 'none':
+                offsets = columns.map(() => Preprocessor.ZERO);
+                spreads = columns.map(() => Preprocessor.ONE);
+                break;
+            case 'minmax':
+                offsets = columns.map(column => Decimal.min(...column));
+                spreads = columns.map((column, k) => Decimal.max(...column).minus(offsets[k]));
+                break;
+            case 'zscore':
+                offsets = MatrixHelper.mean(vectors);
+                spreads = columns.map((column, k) => column.map(v => v.minus(offsets[k]).pow(2)).reduce((p, c) => p.plus(c)).div(column.length).sqrt());
+                break;
+            case 'robust':
+                offsets = columns.map(column => Preprocessor.quantile(column, 0.5));
+                spreads = columns.map(column => Preprocessor.quantile(column, 0.75).minus(Preprocessor.quantile(column, 0.25)));
+                break;
+        }
+        this._offsets = offsets;
+        this._scales = spreads.map(spread => spread.isZero() ? Preprocessor.ONE : spread);
+        if (this._whiten) {
+            const scaled = vectors.map(vector => this.scale(vector));
+            const { values, vectors: axes } = MatrixHelper.eigenSymmetric(MatrixHelper.covariance(scaled));
+            const kept = values
+                .map((value, i) => ({ value, axis: axes[i] }))
+                .filter(entry => entry.value.greaterThan(Preprocessor.MIN_VARIANCE))
+                .slice(0, this._components !== null ? this._components : values.length);
+            if (kept.length === 0) {
+                this._offsets = null;
+                throw new Error('Population has no variance to whiten');
+            }
+            this._pcaMean = MatrixHelper.mean(scaled);
+            this._pcaComponents = kept.map(entry => entry.axis);
+            this._pcaScales = kept.map(entry => entry.value.sqrt());
+        }
+        return this;
+    }
+
+    /**
+     * Map an original vector into model space.
+     * @param vector    Original vector.
+     * @returns         Transformed vector.
+     * @throws          Error if preprocessor is not fitted or vector length does not match.
+     */
+    public transform(vector: Decimal[]): Decimal[] {
+        this.assertFitted(vector, this.inputLength);
+        const scaled = this.scale(vector);
+        if (!this._whiten) {
+            return scaled;
+        }
+        const centered = scaled.map((v, k) => v.minus(this._pcaMean[k]));
+        return this._pcaComponents.map((axis, c) => axis.map((a, k) => a.times(centered[k])).reduce((p, x) => p.plus(x)).div(this._pcaScales[c]));
+    }
+
+    /**
+     * Map a model-space vector (e.g. a cluster center) back into original units.
+     * With whitening on fewer axes than dimensions, the result is the projection on the kept axes.
+     * @param vector    Transformed vector.
+     * @returns         Vector in original units.
+     * @throws          Error if preprocessor is not fitted or vector length does not match.
+     */
+    public inverseTransform(vector: Decimal[]): Decimal[] {
+        this.assertFitted(vector, this.outputLength);
+        const scaled = !this._whiten
+            ? vector
+            : this._pcaMean.map((mean, k) => this._pcaComponents
+                .map((axis, c) => axis[k].times(vector[c]).times(this._pcaScales[c]))
+                .reduce((p, x) => p.plus(x), mean));
+        return scaled.map((v, k) => v.times(this._scales[k]).plus(this._offsets[k]));
+    }
+
+    /**
+     * Describe fitted parameters, so the preprocessor can be saved and rebuilt.
+     * @returns Preprocessor description.
+     * @throws  Error if preprocessor is not fitted.
+     */
+    public toJSON(): IPreprocessorDescription {
+        if (!this.isFitted) {
+            throw new Error('Preprocessor must be fitted before it can be described');
+        }
+        const toStrings = (values: Decimal[]) => values.map(v => v.toString());
+        const result: IPreprocessorDescription = { method: this._method, whiten: this._whiten, offsets: toStrings(this._offsets), scales: toStrings(this._scales) };
+        if (this._whiten) {
+            result.pcaMean = toStrings(this._pcaMean);
+            result.pcaComponents = this._pcaComponents.map(toStrings);
+            result.pcaScales = toStrings(this._pcaScales);
+        }
+        return result;
+    }
+
+    /**
+     * Subtract offset and divide by scale, dimension by dimension.
+     * @param vector    Original vector.
+     */
+    private scale(vector: Decimal[]): Decimal[] {
+        return vector.map((v, k) => v.minus(this._offsets[k]).div(this._scales[k]));
+    }
+
+    /**
+     * Check that preprocessor is fitted and vector has expected length.
+     * @param vector    Vector to check.
+     * @param length    Expected length.
+     * @throws          Error if preprocessor is not fitted or vector length does not match.
+     */
+    private assertFitted(vector: Decimal[], length: number) {
+        if (!this.isFitted) {
+            throw new Error('Preprocessor must be fitted before use');
+        }
+        if (vector.length !== length) {
+            throw new Error(`Vector size is ${vector.length}, preprocessor expects ${length}`);
+        }
+    }
+
+    /**
+     * Quantile with linear interpolation between closest ranks.
+     * @param values    Values (must not be empty).
+     * @param q         Quantile, between 0 and 1.
+     */
+    private static quantile(values: Decimal[], q: number): Decimal {
+        const sorted = values.slice().sort((a, b) => a.comparedTo(b));
+        const position = (sorted.length - 1) * q;
+        const lower = Math.floor(position);
+        const upper = Math.min(lower + 1, sorted.length - 1);
+        return sorted[lower].plus(sorted[upper].minus(sorted[lower]).times(position - lower));
+    }
+}
@@ -0,0 +1,76 @@
+﻿import Decimal from "decimal.js";
+import { MatrixHelper } from "./MatrixHelper";
+
+/**
+ * Principal component projection of vectors onto their axes of largest variance (e.g. onto a plane, to plot a population).
+ */
+export class Projection {
+    private _mean: Decimal[];
+    private _axes: Decimal[][];
+    private _explainedVariance: number[];
+
+    /**
+     * Get unit vector of each axis (one row per axis, zero vector when data has fewer dimensions than axes).
+     */
+    get axes(): Decimal[][] {
+        return this._axes;
+    }
+
+    /**
+     * Get share of total variance along each axis (0 to 1).
+     */
+    get explainedVariance(): number[] {
+        return this._explainedVariance;
+    }
+
+    /**
+     * Construct a new projection.
+     * @param mean              Mean vector the data is centered on.
+     * @param axes              Unit vector of each axis.
+     * @param explainedVariance Share of total variance along each axis.
+     */
+    public constructor(mean: Decimal[], axes: Decimal[][], explainedVariance: number[]) {
+        this._mean = mean;
+        this._axes = axes;
+        this._explainedVariance = explainedVariance;
+    }
+
+    /**
+     * Fit projection on a set of vectors. The sign of each axis is chosen so its largest element is positive, so the same data always gives the same picture.
+     * @param vectors       Set of vectors (same length).
+     * @param components    Number of axes. Default to 2.
+     * @returns             Fitted projection.
+     * @throws              Error if vector set is empty.
+     */
+    public static fit(vectors: Decimal[][], components: number = 2): Projection {
+        if (vectors.length === 0) {
+            throw new Error('At least 1 vector is required to fit a projection');
+        }
+        const mean = MatrixHelper.mean(vectors);
+        const zero = new Decimal(0);
+        if (vectors.length < 2) {
+            return new Projection(mean, new Array<number>(components).fill(0).map(() => mean.map(() => zero)), new Array<number>(components).fill(0));
+        }
+        const { values, vectors: axes } = MatrixHelper.eigenSymmetric(MatrixHelper.covariance(vectors));
+        const total = values.reduce((p, c) => p.plus(Decimal.max(c, zero)), zero);
+        return new Projection(
+            mean,
+            new Array<number>(components).fill(0).map((_, k) => {
+                if (k >= axes.length) {
+                    return mean.map(() => zero);
+                }
+                const largest = axes[k].reduce((best, v) => v.abs().greaterThan(best.abs()) ? v : best, zero);
+                return largest.isNegative() ? axes[k].map(v => v.negated()) : axes[k];
+            }),
+            new Array<number>(components).fill(0).map((_, k) => k < values.length && total.greaterThan(0) ? Decimal.max(values[k], zero).div(total).toNumber() : 0));
+    }
+
+    /**
+     * Project a vector.
+     * @param vector    Vector in the space the projection was fitted on.
+     * @returns         Coordinate along each axis.
+     */
+    public project(vector: Decimal[]): number[] {
+        return this._axes.map(axis => axis.reduce((p, a, i) => p.plus(a.times(vector[i].minus(this._mean[i]))), new Decimal(0)).toNumber());
+    }
+}
@@ -0,0 +1,96 @@
+﻿import { PairHistory } from "./PairHistory";
+
+/**
+ * Penalty of putting previous teammates together again, tracked while members are swapped between groups.
+ * Penalty of an assignment is weight × ∑ over pairs sharing a group of the number of sessions they already spent together.
+ */
+export class RepeatPenalty {
+    private _weight: number;
+    private _assignment: number[];
+    private _partners: [number, number][][]; // index and number of shared sessions of each previous teammate in the population
+    private _together: number[][]; // sessions shared by each person with the members of each group
+
+    /**
+     * Construct a new repeat penalty.
+     * @param history       Pair history.
+     * @param ids           Person id of each member, in assignment order.
+     * @param assignment    Group index of each member (-1 if unassigned). Read on every call, so swaps must be reported by swap() before it is updated.
+     * @param groupNum      Number of groups.
+     * @param weight        Penalty of one session already spent together.
+     * @throws              Error if weight is not a non-negative number.
+     */
+    public constructor(history: PairHistory, ids: number[], assignment: number[], groupNum: number, weight: number = 1) {
+        if (!(weight >= 0) || !isFinite(weight)) {
+            throw new Error(`History weight must be a non-negative number: ${weight}`);
+        }
+        const index = new Map<number, number>();
+        ids.forEach((id, i) => index.set(id, i));
+        this._weight = weight;
+        this._assignment = assignment;
+        this._partners = ids.map(id => {
+            const partners = new Array<[number, number]>();
+            history.partnersOf(id).forEach((count, partner) => {
+                if (index.has(partner)) {
+                    partners.push([index.get(partner), count]);
+                }
+            });
+            return partners;
+        });
+        this._together = ids.map(() => new Array<number>(groupNum).fill(0));
+        this._partners.forEach((partners, i) => partners.forEach(([j, count]) => {
+            if (assignment[j] >= 0) {
+                this._together[i][assignment[j]] += count;
+            }
+        }));
+    }
+
+    /**
+     * Get sessions a member already spent with the other members of its current group.
+     * @param index Member index.
+     */
+    public current(index: number): number {
+        return this._assignment[index] >= 0 ? this._together[index][this._assignment[index]] : 0;
+    }
+
+    /**
+     * Get penalty of the current assignment.
+     */
+    public total(): number {
+        return this._weight * this._together.reduce((p, _, i) => p + this.current(i), 0) / 2;
+    }
+
+    /**
+     * Change of penalty if two members of different groups were swapped (negative when the swap separates previous teammates).
+     * @param a First member index.
+     * @param b Second member index.
+     */
+    public swapDelta(a: number, b: number): number {
+        const ga = this._assignment[a];
+        const gb = this._assignment[b];
+        const shared = this.sharedSessions(a, b);
+        return this._weight * (this._together[a][gb] - shared - this._together[a][ga] + this._together[b][ga] - shared - this._together[b][gb]);
+    }
+
+    /**
+     * Record a swap of two members, before the assignment is updated.
+     * @param a First member index.
+     * @param b Second member index.
+     */
+    public swap(a: number, b: number) {
+        const ga = this._assignment[a];
+        const gb = this._assignment[b];
+        this._partners[a].forEach(([j, count]) => {
+            this._together[j][ga] -= count;
+            this._together[j][gb] += count;
+        });
+        this._partners[b].forEach(([j, count]) => {
+            this._together[j][gb] -= count;
+            this._together[j][ga] += count;
+        });
+    }
+
+    private sharedSessions(a: number, b: number): number {
+        const partner = this._partners[a].find(([j]) => j === b);
+        return partner ? partner[1] : 0;
+    }
+}
@@ -0,0 +1,90 @@
+﻿import { writeFileSync } from "fs";
+import { ICommandOption, ICommandArguments } from "../interfaces";
+import { ModelCommand } from "./ModelCommand";
+import { UsageError } from "./UsageError";
+import { RotationPlanner } from "./RotationPlanner";
+
+/**
+ * Plan a series of regroupings from a dataset, keeping learners who already worked together apart.
+ */
+export class RotateCommand extends ModelCommand {
+    public static FORMATS = ['text', 'csv', 'json'];
+
+    get name(): string {
+        return 'rotate';
+    }
+
+    get description(): string {
+        return 'Plan a series of sessions with new teammates each time and report repeated pairs';
+    }
+
+    get options(): ICommandOption[] {
+        return ModelCommand.MODEL_OPTIONS.concat(ModelCommand.FORMATION_OPTIONS, [
+            { name: 'sessions', description: 'Number of sessions to plan', type: 'number', defaultValue: 4 },
+            { name: 'format', alias: 'f', description: `Output format (${RotateCommand.FORMATS.join(', ')})`, type: 'string', defaultValue: 'text' },
+            { name: 'pairs', description: 'Write number of sessions of each pair grouped together into CSV file', type: 'string', valueName: 'file' },
+        ]);
+    }
+
+    public async run(args: ICommandArguments): Promise<number> {
+        if (RotateCommand.FORMATS.indexOf(args['format'] as string) < 0) {
+            throw new UsageError(`Unknown output format: ${args['format']}`);
+        }
+        const sessions = args['sessions'] as number;
+        if (!Number.isInteger(sessions) || sessions < 1) {
+            throw new UsageError('--sessions must be a positive integer');
+        }
+        const formationOptions = await this.formationOptions(args);
+        const { population, model } = await this.train(args);
+        const plan = new RotationPlanner(model, formationOptions).plan(sessions);
+        const names = new Map<number, string>();
+        population.forEach(person => names.set(person.id, person.name));
+        const escape = (value: string | number): string => {
+            const text = String(value);
+            return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+        if (args['pairs']) {
+            const rows: (string | number)[][] = [['PersonId', 'PartnerId', 'Sessions']];
+            plan.pairs.forEach(pair => rows.push([pair.left, pair.right, pair.count]));
+            writeFileSync(args['pairs'] as string, rows.map(row => row.map(escape).join(',')).join('\n') + '\n');
+        }
+        switch (args['format']) {
+            case 'json':
+                this.write(args, JSON.stringify({
+                    sessions: plan.sessions.map((groups, s) => ({
+                        session: s + 1,
+                        repeatedPairs: plan.repeatedPairs[s],
+                        groups: groups.map(group => ({
+                            id: group.id,
+                            members: group.members.map(member => ({ id: member.person.id, name: member.person.name })),
+                        })),
+                    })),
+                    pairs: plan.pairs,
+                }, null, 2));
+                break;
+            case 'csv': {
+                const rows: (string | number)[][] = [['Session', 'PersonId', 'Name', 'GroupId']];
+                plan.sessions.forEach((groups, s) => groups.forEach(group => group.members.forEach(member => {
+                    rows.push([s + 1, member.person.id, member.person.name, group.id]);
+                })));
+                this.write(args, rows.map(row => row.map(escape).join(',')).join('\n') + '\n');
+                break;
+            }
+            default: {
+                const frequencies = new Map<number, number>();
+                plan.pairs.forEach(pair => frequencies.set(pair.count, (frequencies.get(pair.count) || 0) + 1));
+                const repeated = plan.pairs.filter(pair => pair.count > 1);
+                this.write(args, [
+                    ...plan.sessions.map((groups, s) => [
+                        `Session ${s + 1} (repeated pairs: ${plan.repeatedPairs[s]})`,
+                        ...groups.map(group => `  Group ${group.id}: ${group.members.map(member => `${member.person.name} (${member.person.id})`).join(', ')}`),
+                        '',
+                    ].join('\n')),
+                    `Pairs grouped together: ${Array.from(frequencies.keys()).sort((a, b) => a - b).map(count => `${frequencies.get(count)} in ${count} ${count === 1 ? 'session' : 'sessions'}`).join(', ') || 'none'}`,
+                    ...repeated.map(pair => `  - ${pair.left.toString().padStart(4)} ${names.get(pair.left)} & ${pair.right.toString().padStart(4)} ${names.get(pair.right)}: ${pair.count} sessions`),
+                ].join('\n'));
+            }
+        }
+        return 0;
+    }
+}
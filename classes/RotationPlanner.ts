@@ -0,0 +1,44 @@
+﻿import { IClusteringModel, IFormationOptions, IRotationPlan } from "../interfaces";
+import { Group } from "./Group";
+import { PairHistory } from "./PairHistory";
+
+/**
+ * Plan a series of sessions (e.g. a semester of rotations) from a trained model: groups are formed again for every session,
+ * each session avoiding the pairs of the history and of the sessions planned before it.
+ */
+export class RotationPlanner {
+    private _model: IClusteringModel;
+    private _options: IFormationOptions;
+
+    /**
+     * Construct a new rotation planner.
+     * @param model     Trained clustering model.
+     * @param options   Formation options of every session. Its history (if set) holds the sessions before the series.
+     */
+    public constructor(model: IClusteringModel, options: IFormationOptions = {}) {
+        this._model = model;
+        this._options = options;
+    }
+
+    /**
+     * Plan sessions.
+     * @param sessions  Number of sessions.
+     * @returns         Groups of each session, repeated pairs of each session and pair counts of the series.
+     * @throws          Error if number of sessions is not a positive integer.
+     */
+    public plan(sessions: number): IRotationPlan {
+        if (!Number.isInteger(sessions) || sessions < 1) {
+            throw new Error(`Number of sessions must be a positive integer: ${sessions}`);
+        }
+        const history = this._options.history ? this._options.history.clone() : new PairHistory();
+        const rosters = new Array<Group[]>();
+        const repeatedPairs = new Array<number>();
+        for (let s = 0; s < sessions; s++) {
+            const { groups } = this._model.formGroupsWithReport({ ...this._options, history });
+            repeatedPairs.push(history.repeatedPairs(groups));
+            history.add(groups);
+            rosters.push(groups);
+        }
+        return { sessions: rosters, repeatedPairs, pairs: PairHistory.fromRosters(rosters).pairs(), history };
+    }
+}
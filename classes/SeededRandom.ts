@@ -0,0 +1,43 @@
+﻿import { randomBytes } from "crypto";
+import { IRandomGenerator } from "../interfaces";
+
+/**
+ * Seedable pseudo-random number generator (Mulberry32). Same seed always produces the same sequence.
+ */
+export class SeededRandom implements IRandomGenerator {
+    private _seed: number;
+    private _state: number;
+
+    get seed(): number {
+        return this._seed;
+    }
+
+    /**
+     * Construct a new seeded random generator.
+     * @param seed  Seed (unsigned 32-bit integer). Default to a cryptographically random seed.
+     * @throws      Error if seed is not an integer between 0 and 4294967295.
+     */
+    public constructor(seed: number = SeededRandom.randomSeed()) {
+        if (!Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF) {
+            throw new Error(`Seed must be an integer between 0 and ${0xFFFFFFFF}: ${seed}`);
+        }
+        this._seed = seed;
+        this._state = seed;
+    }
+
+    /**
+     * Draw a random seed.
+     * @returns Unsigned 32-bit integer.
+     */
+    public static randomSeed(): number {
+        return randomBytes(4).readUInt32LE(0);
+    }
+
+    public next(): number {
+        this._state = (this._state + 0x6D2B79F5) | 0;
+        let t = this._state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
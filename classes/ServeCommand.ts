@@ -0,0 +1,40 @@
+﻿import { ICommandOption, ICommandArguments } from "../interfaces";
+import { Command } from "./Command";
+import { UsageError } from "./UsageError";
+import { FormationServer } from "./FormationServer";
+
+/**
+ * Serve the group formation HTTP API until interrupted.
+ */
+export class ServeCommand extends Command {
+    get name(): string {
+        return 'serve';
+    }
+
+    get description(): string {
+        return 'Run local HTTP API for group formation jobs (stop with Ctrl+C)';
+    }
+
+    get options(): ICommandOption[] {
+        return [
+            { name: 'port', alias: 'p', description: 'Port to listen on (0 for any free port)', type: 'number', defaultValue: 8080 },
+            { name: 'host', description: 'Host to bind (use 0.0.0.0 to accept remote connections)', type: 'string', defaultValue: '127.0.0.1' },
+        ];
+    }
+
+    public async run(args: ICommandArguments): Promise<number> {
+        const port = args['port'] as number;
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+            throw new UsageError('--port must be an integer between 0 and 65535');
+        }
+        const server = new FormationServer();
+        const address = await server.listen(port, args['host'] as string);
+        console.error(`Listening on http://${address.address}:${address.port}`);
+        await new Promise(resolve => {
+            process.once('SIGINT', resolve);
+            process.once('SIGTERM', resolve);
+        });
+        await server.close();
+        return 0;
+    }
+}
@@ -0,0 +1,14 @@
+﻿import { ILogger } from "../interfaces";
+
+/**
+ * Logger discarding every message (default logger of the library).
+ */
+export class SilentLogger implements ILogger {
+    public debug(message: string, ...meta: any[]) { }
+
+    public info(message: string, ...meta: any[]) { }
+
+    public warn(message: string, ...meta: any[]) { }
+
+    public error(message: string, ...meta: any[]) { }
+}
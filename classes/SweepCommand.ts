@@ -0,0 +1,69 @@
+﻿import Decimal from "decimal.js";
+import { ICommandOption, ICommandArguments } from "../interfaces";
+import { ModelCommand } from "./ModelCommand";
+import { UsageError } from "./UsageError";
+import { ClusterSweep } from "./ClusterSweep";
+import { SeededRandom } from "./SeededRandom";
+
+/**
+ * Train models for a range of group numbers and recommend the best one.
+ */
+export class SweepCommand extends ModelCommand {
+    get name(): string {
+        return 'sweep';
+    }
+
+    get description(): string {
+        return 'Score models for a range of group numbers (or group sizes) and recommend the best one';
+    }
+
+    get options(): ICommandOption[] {
+        return ModelCommand.MODEL_OPTIONS
+            .filter(option => ['groups', 'group-size', 'init', 'init-centers', 'restarts', 'select-by', 'jobs'].indexOf(option.name) < 0)
+            .concat([
+                { name: 'min-groups', description: 'Minimum number of groups', type: 'number', valueName: 'n' },
+                { name: 'max-groups', description: 'Maximum number of groups', type: 'number', valueName: 'n' },
+                { name: 'min-size', description: 'Minimum group size (used when group range is not set)', type: 'number', valueName: 'n' },
+                { name: 'max-size', description: 'Maximum group size (used when group range is not set)', type: 'number', valueName: 'n' },
+                { name: 'format', alias: 'f', description: 'Output format (text, markdown, json)', type: 'string', defaultValue: 'text' },
+            ]);
+    }
+
+    public async run(args: ICommandArguments): Promise<number> {
+        if (['text', 'markdown', 'json'].indexOf(args['format'] as string) < 0) {
+            throw new UsageError(`Unknown output format: ${args['format']}`);
+        }
+        const byGroups = args['min-groups'] !== undefined || args['max-groups'] !== undefined;
+        const bySize = args['min-size'] !== undefined || args['max-size'] !== undefined;
+        if (byGroups === bySize) {
+            throw new UsageError('Set either --min-groups/--max-groups or --min-size/--max-size');
+        }
+        const [minKey, maxKey] = byGroups ? ['min-groups', 'max-groups'] : ['min-size', 'max-size'];
+        const min = args[minKey] as number;
+        const max = args[maxKey] as number;
+        if (!Number.isInteger(min) || !Number.isInteger(max) || min < 1 || min > max) {
+            throw new UsageError(`--${minKey} and --${maxKey} must be positive integers, --${minKey} not greater than --${maxKey}`);
+        }
+        const options = this.modelOptions(args);
+        // Every model of the sweep shares the same seed, so the whole table can be regenerated
+        options.seed = options.seed !== undefined ? options.seed : SeededRandom.randomSeed();
+        const population = await this.loadPopulation(args);
+        let groupNums = new Array<number>();
+        if (byGroups) {
+            for (let c = Math.max(2, min); c <= Math.min(max, population.length); c++) {
+                groupNums.push(c);
+            }
+        } else {
+            groupNums = ClusterSweep.groupNumsFromSizes(population.length, min, max);
+        }
+        if (groupNums.length === 0) {
+            throw new Error(`No group number between 2 and ${population.length} matches the requested range`);
+        }
+        const sweep = new ClusterSweep(population, args['max-iter'] as number, new Decimal(args['tolerance'] as number), args['fuzzifier'] as number, options, args['algorithm'] as string);
+        const rows = sweep.run(groupNums);
+        this.write(args, args['format'] === 'json'
+            ? JSON.stringify({ seed: options.seed, recommended: sweep.recommend().groupNum, rows }, null, 2)
+            : `${sweep.formatTable(args['format'] === 'markdown')}\nSeed: ${options.seed}`);
+        return 0;
+    }
+}
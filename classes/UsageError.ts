@@ -0,0 +1,9 @@
+﻿/**
+ * Error caused by invalid command-line usage (unknown command/option, missing or malformed value).
+ */
+export class UsageError extends Error {
+    public constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
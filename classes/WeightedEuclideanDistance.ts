@@ -0,0 +1,48 @@
+﻿import Decimal from "decimal.js";
+import { DistanceMetric } from "./DistanceMetric";
+
+/**
+ * Euclidean distance with per-dimension weight.
+ */
+export class WeightedEuclideanDistance extends DistanceMetric {
+    private _weights: Decimal[];
+    private _fastWeights: number[];
+
+    get name(): string {
+        return 'weighted-euclidean';
+    }
+
+    get weights(): Decimal[] {
+        return this._weights;
+    }
+
+    /**
+     * Construct a new weighted euclidean distance.
+     * @param weights   Weight of each dimension.
+     * @throws          Error if any weight is negative.
+     */
+    public constructor(weights: (number | Decimal)[]) {
+        super();
+        this._weights = weights.map(w => new Decimal(w));
+        if (this._weights.some(w => w.isNegative())) {
+            throw new Error('Weight must be greater than or equal to 0');
+        }
+        this._fastWeights = this._weights.map(w => w.toNumber());
+    }
+
+    public distance(leftVector: Decimal[], rightVector: Decimal[]): Decimal {
+        this.assertSameLength(leftVector, rightVector);
+        this.assertSameLength(leftVector, this._weights);
+        return Decimal.sqrt(leftVector.map((v, i) => Decimal.pow(v.minus(rightVector[i]), 2).times(this._weights[i])).reduce((p, c) => p.plus(c)));
+    }
+
+    public fastDistance(leftVector: ArrayLike<number>, rightVector: ArrayLike<number>): number {
+        this.assertSameLength(leftVector, rightVector);
+        this.assertSameLength(leftVector, this._fastWeights);
+        let sum = 0;
+        for (let i = 0; i < leftVector.length; i++) {
+            sum += (leftVector[i] - rightVector[i]) * (leftVector[i] - rightVector[i]) * this._fastWeights[i];
+        }
+        return Math.sqrt(sum);
+    }
+}
@@ -1,2 +1,66 @@
 ﻿export { Person } from './Person';
 export { FuzzyCMeans } from './FuzzyCMeans';
+export { Group } from './Group';
+export { ClusterCenter } from './ClusterCenter';
+export { DistanceMetric } from './DistanceMetric';
+export { EuclideanDistance } from './EuclideanDistance';
+export { ManhattanDistance } from './ManhattanDistance';
+export { ChebyshevDistance } from './ChebyshevDistance';
+export { CosineDistance } from './CosineDistance';
+export { WeightedEuclideanDistance } from './WeightedEuclideanDistance';
+export { MahalanobisDistance } from './MahalanobisDistance';
+export { MatrixHelper } from './MatrixHelper';
+export { AttributeSchema } from './AttributeSchema';
+export { DatasetLoader } from './DatasetLoader';
+export { DistanceMetricFactory } from './DistanceMetricFactory';
+export { PartitionLoader } from './PartitionLoader';
+export { UsageError } from './UsageError';
+export { ArgumentParser } from './ArgumentParser';
+export { Command } from './Command';
+export { ModelCommand } from './ModelCommand';
+export { FormCommand } from './FormCommand';
+export { EvaluateCommand } from './EvaluateCommand';
+export { GenerateCommand } from './GenerateCommand';
+export { CommandLine } from './CommandLine';
+export { GroupExporter } from './GroupExporter';
+export { ClusterValidity } from './ClusterValidity';
+export { ClusterSweep } from './ClusterSweep';
+export { SweepCommand } from './SweepCommand';
+export { SeededRandom } from './SeededRandom';
+export { PartitionInitializer } from './PartitionInitializer';
+export { HeterogeneousFormation } from './HeterogeneousFormation';
+export { ConstraintSet } from './ConstraintSet';
+export { AssignmentSolver } from './AssignmentSolver';
+export { GroupSizing } from './GroupSizing';
+export { DecimalBackend } from './DecimalBackend';
+export { FloatBackend } from './FloatBackend';
+export { NumericBackendFactory } from './NumericBackendFactory';
+export { FloatKernel } from './FloatKernel';
+export { ParallelBackend } from './ParallelBackend';
+export { ModelSerializer } from './ModelSerializer';
+export { AssignCommand } from './AssignCommand';
+export { AbortError } from './AbortError';
+export { SilentLogger } from './SilentLogger';
+export { ConsoleLogger } from './ConsoleLogger';
+export { DatasetError } from './DatasetError';
+export { Preprocessor } from './Preprocessor';
+export { HttpError } from './HttpError';
+export { FormationJob } from './FormationJob';
+export { FormationServer } from './FormationServer';
+export { ServeCommand } from './ServeCommand';
+export { ClusteringModel } from './ClusteringModel';
+export { KMeans } from './KMeans';
+export { PossibilisticCMeans } from './PossibilisticCMeans';
+export { GustafsonKessel } from './GustafsonKessel';
+export { GathGeva } from './GathGeva';
+export { ClusteringModelFactory } from './ClusteringModelFactory';
+export { ModelInputError } from './ModelInputError';
+export { MultiStart } from './MultiStart';
+export { ConsensusCommand } from './ConsensusCommand';
+export { PairHistory } from './PairHistory';
+export { RepeatPenalty } from './RepeatPenalty';
+export { RotationPlanner } from './RotationPlanner';
+export { RotateCommand } from './RotateCommand';
+export { Projection } from './Projection';
+export { GroupPlotter } from './GroupPlotter';
+export { PlotCommand } from './PlotCommand';
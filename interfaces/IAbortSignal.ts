@@ -0,0 +1,14 @@
+﻿/**
+ * Minimal abort signal (compatible with AbortController().signal), used to cancel a long-running operation.
+ */
+export interface IAbortSignal {
+    /**
+     * Whether the operation should stop.
+     */
+    readonly aborted: boolean;
+
+    /**
+     * Reason given on abort (if any).
+     */
+    readonly reason?: any;
+}
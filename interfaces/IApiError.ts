@@ -0,0 +1,16 @@
+﻿export interface IApiError {
+    /**
+     * Machine-readable error code (e.g. invalid_request, job_not_found).
+     */
+    code: string;
+
+    /**
+     * Human-readable message.
+     */
+    message: string;
+
+    /**
+     * Individual problems (e.g. one per invalid field or dataset row), if any.
+     */
+    details?: { field?: string, line?: number, message: string }[];
+}
@@ -0,0 +1,41 @@
+﻿export interface IAttributeDimension {
+    /**
+     * Dimension key, used to look up the score of a person.
+     */
+    name: string;
+
+    /**
+     * Readable dimension name for reports. Default to name.
+     */
+    label?: string;
+
+    /**
+     * Dataset column holding this dimension. Default to name.
+     */
+    column?: string;
+
+    /**
+     * Dimension type. Numeric dimension is used as is, categorical dimension is one-hot encoded. Default to numeric.
+     */
+    type?: 'numeric' | 'categorical';
+
+    /**
+     * Allowed categories (categorical dimension only), in encoding order.
+     */
+    categories?: string[];
+
+    /**
+     * Lowest allowed score (numeric dimension only). Default to no bound.
+     */
+    min?: number;
+
+    /**
+     * Highest allowed score (numeric dimension only). Default to no bound.
+     */
+    max?: number;
+
+    /**
+     * Distance between allowed scores, counted from min (or 0), e.g. 2 for odd scores from -11 (numeric dimension only). Default to any value.
+     */
+    step?: number;
+}
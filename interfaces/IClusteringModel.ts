@@ -0,0 +1,137 @@
+﻿import Decimal from "decimal.js";
+import { IMember } from "./IMember";
+import { IDistanceMetric } from "./IDistanceMetric";
+import { INumericBackend } from "./INumericBackend";
+import { ILogger } from "./ILogger";
+import { IAbortSignal } from "./IAbortSignal";
+import { ITrainingResult } from "./ITrainingResult";
+import { IFormationOptions } from "./IFormationOptions";
+import { IFormationResult } from "./IFormationResult";
+import { ILateJoinerAssignment } from "./ILateJoinerAssignment";
+import { ClusterCenter, ConstraintSet, Group, Person, Preprocessor } from "../classes";
+
+/**
+ * Clustering model: a partition matrix of the population against a number of cluster centers, built iteratively and turned into groups.
+ * Group formation, validity scoring, reporting and saving only rely on this interface, so any algorithm can be used for them.
+ */
+export interface IClusteringModel {
+    /**
+     * Algorithm name (see ClusteringModelFactory.NAMES).
+     */
+    readonly name: string;
+
+    /**
+     * Current partition matrix (membership of each person to each cluster).
+     */
+    readonly partitionMatrix: IMember[];
+
+    /**
+     * Data matrix (vector of each person after preprocessing, in population order).
+     */
+    readonly dataMatrix: Decimal[][];
+
+    /**
+     * Number of clusters (and groups).
+     */
+    readonly groupNum: number;
+
+    /**
+     * Objective value (J) of last iteration.
+     */
+    readonly objectiveValue: Decimal;
+
+    /**
+     * Objective value (J) of every iteration run so far.
+     */
+    readonly history: Decimal[];
+
+    /**
+     * Fuzzifier (mass) m.
+     */
+    readonly mass: number;
+
+    /**
+     * Distance metric comparing a person with a cluster center.
+     */
+    readonly distanceMetric: IDistanceMetric;
+
+    /**
+     * Cluster centers from last iteration (in model space).
+     */
+    readonly clusterCenters: ClusterCenter[];
+
+    /**
+     * Seed of the random generator used on initialization.
+     */
+    readonly seed: number;
+
+    /**
+     * Constraints applied to the model (null if there is none).
+     */
+    readonly constraints: ConstraintSet;
+
+    /**
+     * Numeric backend running the iterations.
+     */
+    readonly backend: INumericBackend;
+
+    /**
+     * Preprocessor mapping person vectors into model space (null if vectors are used as is).
+     */
+    readonly preprocessor: Preprocessor;
+
+    /**
+     * Logger receiving iteration progress and formation warnings.
+     */
+    readonly logger: ILogger;
+
+    /**
+     * Stopping rule of buildModel (see ClusteringModel.STOP_RULES).
+     */
+    readonly stopRule: string;
+
+    /**
+     * Build the model (see FuzzyCMeans.buildModel).
+     */
+    buildModel(maxIteration: number, minImprovement: Decimal, mass?: number, distanceMetric?: IDistanceMetric, signal?: IAbortSignal): ITrainingResult;
+
+    /**
+     * Build the model, yielding to the event loop between iterations.
+     */
+    buildModelAsync(maxIteration: number, minImprovement: Decimal, mass?: number, distanceMetric?: IDistanceMetric, signal?: IAbortSignal): Promise<ITrainingResult>;
+
+    /**
+     * Restore trained state from saved mass, centers and objective values. Partition matrix is given on construction (or as is, if set).
+     */
+    restore(mass: number, centers: Decimal[][], objectiveValue: Decimal, history?: Decimal[], memberships?: Decimal[][]): void;
+
+    /**
+     * Predict membership vector of a person against the trained cluster centers, without retraining.
+     */
+    predict(person: Person): Decimal[];
+
+    /**
+     * Place a newcomer into already formed groups without moving existing members.
+     */
+    assignLateJoiner(person: Person, groups: Group[], maxSizes?: number[]): ILateJoinerAssignment;
+
+    /**
+     * Form groups from the model.
+     */
+    formGroups(options?: IFormationOptions): Group[];
+
+    /**
+     * Form groups from the model, reporting constraint violations and membership given up to balance group sizes.
+     */
+    formGroupsWithReport(options?: IFormationOptions): IFormationResult;
+
+    /**
+     * Get a cluster center in original units (before preprocessing).
+     */
+    originalCenter(center: ClusterCenter): Decimal[];
+
+    /**
+     * Listen to a model event (see ClusteringModel.EVENTS).
+     */
+    on(event: string, listener: (...args: any[]) => void): this;
+}
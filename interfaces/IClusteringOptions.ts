@@ -0,0 +1,62 @@
+﻿import Decimal from "decimal.js";
+import { IDistanceMetric } from "./IDistanceMetric";
+import { IRandomGenerator } from "./IRandomGenerator";
+import { IGroupConstraints } from "./IGroupConstraints";
+import { INumericBackend } from "./INumericBackend";
+import { ILogger } from "./ILogger";
+import { Preprocessor } from "../classes";
+
+export interface IClusteringOptions {
+    /**
+     * Distance metric used to compare a person with a cluster center. Default to euclidean distance.
+     */
+    distanceMetric?: IDistanceMetric;
+
+    /**
+     * Random generator used to initialize partition matrix. Default to a SeededRandom seeded by seed option.
+     */
+    random?: IRandomGenerator;
+
+    /**
+     * Seed of the default random generator (ignored when random is set). Default to a random seed, which is still recorded on the model.
+     */
+    seed?: number;
+
+    /**
+     * Initialization strategy of partition matrix (random, kmeans++ or maximin), used when neither initial vectors nor initial centers are given. Default to random.
+     */
+    initialization?: string;
+
+    /**
+     * Stopping rule of buildModel (see ClusteringModel.STOP_RULES): absolute (objective) or relative change of objective value,
+     * largest change of a membership (partition) or largest center movement (centers), compared with minimum improvement. Default to objective.
+     */
+    stopRule?: string;
+
+    /**
+     * Initial centers (one per group). Initial partition matrix is derived from them.
+     */
+    initialCenters?: Decimal[][];
+
+    /**
+     * Logger receiving iteration progress and formation warnings. Default to SilentLogger.
+     */
+    logger?: ILogger;
+
+    /**
+     * Must-link, cannot-link and pinned-assignment constraints, keyed by person id. Applied on every membership update and on group formation.
+     */
+    constraints?: IGroupConstraints;
+
+    /**
+     * Numeric backend running the iterations. Default to DecimalBackend (high precision), FloatBackend is much faster on large population.
+     * Only FuzzyCMeans runs on other backends, every other model requires DecimalBackend.
+     */
+    backend?: INumericBackend;
+
+    /**
+     * Feature scaling (and optional whitening) applied to person vectors before clustering, fitted on the population unless already fitted.
+     * Initial centers are given in original units. Default to none (vectors are used as is).
+     */
+    preprocessor?: Preprocessor;
+}
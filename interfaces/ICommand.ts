@@ -0,0 +1,26 @@
+﻿import { ICommandOption } from "./ICommandOption";
+import { ICommandArguments } from "./ICommandArguments";
+
+export interface ICommand {
+    /**
+     * Sub-command name.
+     */
+    readonly name: string;
+
+    /**
+     * One-line description shown on help.
+     */
+    readonly description: string;
+
+    /**
+     * Options accepted by this command.
+     */
+    readonly options: ICommandOption[];
+
+    /**
+     * Run the command.
+     * @param args  Parsed arguments.
+     * @returns     Promise of exit code.
+     */
+    run(args: ICommandArguments): Promise<number>;
+}
@@ -0,0 +1,3 @@
+﻿export interface ICommandArguments {
+    [option: string]: string | number | boolean;
+}
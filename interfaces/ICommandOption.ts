@@ -0,0 +1,36 @@
+﻿export interface ICommandOption {
+    /**
+     * Long option name, used as --name.
+     */
+    name: string;
+
+    /**
+     * Single-letter alias, used as -a.
+     */
+    alias?: string;
+
+    /**
+     * Option description shown on help.
+     */
+    description: string;
+
+    /**
+     * Value type. Boolean option does not take a value.
+     */
+    type: 'string' | 'number' | 'boolean';
+
+    /**
+     * Value placeholder shown on help. Default to option type.
+     */
+    valueName?: string;
+
+    /**
+     * Value used when option is not given.
+     */
+    defaultValue?: string | number | boolean;
+
+    /**
+     * Whether the option must be given.
+     */
+    required?: boolean;
+}
@@ -0,0 +1,16 @@
+﻿export interface IConstraintViolation {
+    /**
+     * Violated constraint type.
+     */
+    type: 'must-link' | 'cannot-link' | 'pin';
+
+    /**
+     * Id of persons involved.
+     */
+    personIds: number[];
+
+    /**
+     * Human-readable explanation.
+     */
+    message: string;
+}
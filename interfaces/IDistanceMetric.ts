@@ -0,0 +1,30 @@
+﻿import Decimal from "decimal.js";
+
+export interface IDistanceMetric {
+    /**
+     * Human-readable metric name.
+     */
+    readonly name: string;
+
+    /**
+     * Estimate metric parameters from the population (optional, e.g. covariance for Mahalanobis).
+     * @param vectors   Population vectors.
+     */
+    fit?(vectors: Decimal[][]): void;
+
+    /**
+     * Calculate distance between two vector.
+     * @param leftVector    Left Vector.
+     * @param rightVector   Right Vector.
+     * @returns             Distance in decimal.
+     */
+    distance(leftVector: Decimal[], rightVector: Decimal[]): Decimal;
+
+    /**
+     * Calculate distance between two vector of floating-point numbers (optional, used by the float numeric backend).
+     * @param leftVector    Left Vector.
+     * @param rightVector   Right Vector.
+     * @returns             Distance.
+     */
+    fastDistance?(leftVector: ArrayLike<number>, rightVector: ArrayLike<number>): number;
+}
@@ -0,0 +1,16 @@
+﻿export interface IDistanceMetricDescription {
+    /**
+     * Metric name.
+     */
+    name: string;
+
+    /**
+     * Per-dimension weights, as exact decimal strings (weighted-euclidean only).
+     */
+    weights?: string[];
+
+    /**
+     * Covariance matrix, as exact decimal strings (mahalanobis only).
+     */
+    covariance?: string[][];
+}
@@ -0,0 +1,120 @@
+﻿import { IAttributeDimension } from "./IAttributeDimension";
+import { IGroupSizeSpec } from "./IGroupSizeSpec";
+import { IGroupConstraints } from "./IGroupConstraints";
+
+export interface IFormationJobRequest {
+    /**
+     * Population as rows keyed by dataset column (e.g. Num, Name, Active_Reflective, ...). Either population or csv must be set.
+     */
+    population?: { [column: string]: string | number }[];
+
+    /**
+     * Population as CSV content with header row. Either population or csv must be set.
+     */
+    csv?: string;
+
+    /**
+     * Attribute schema. Default to Felder-Silverman learning styles.
+     */
+    schema?: { dimensions: IAttributeDimension[] };
+
+    /**
+     * Mode for invalid rows (strict, skip or impute). Default to strict.
+     */
+    onInvalid?: string;
+
+    /**
+     * Number of groups. Either groups or sizes must be set.
+     */
+    groups?: number;
+
+    /**
+     * Group sizes. Either groups or sizes must be set.
+     */
+    sizes?: IGroupSizeSpec;
+
+    /**
+     * Formation mode (homogeneous or heterogeneous). Default to homogeneous.
+     */
+    mode?: string;
+
+    /**
+     * Clustering algorithm (fcm, kmeans, pcm, gk or gg). Default to fcm.
+     */
+    algorithm?: string;
+
+    /**
+     * Fuzzifier (mass) m, greater than 1. Default to 2.
+     */
+    fuzzifier?: number;
+
+    /**
+     * Maximum iteration. Default to 100.
+     */
+    maxIteration?: number;
+
+    /**
+     * Minimum improvement to keep iterating, greater than 0, in the unit of the stopping rule. Default to 0.001.
+     */
+    tolerance?: number;
+
+    /**
+     * Stopping rule (objective, relative, partition or centers). Default to objective.
+     */
+    stopRule?: string;
+
+    /**
+     * Seed of the random initial partition. Default to a random seed, reported with the result.
+     */
+    seed?: number;
+
+    /**
+     * Initialization strategy (random, kmeans++ or maximin). Default to random.
+     */
+    initialization?: string;
+
+    /**
+     * Distance metric name. Default to euclidean.
+     */
+    metric?: string;
+
+    /**
+     * Dimension weights (weighted-euclidean metric only).
+     */
+    weights?: number[];
+
+    /**
+     * Numeric backend name. Default to decimal.
+     */
+    backend?: string;
+
+    /**
+     * Must-link, cannot-link and pinned-assignment constraints, keyed by person id.
+     */
+    constraints?: IGroupConstraints;
+
+    /**
+     * Feature scaling method. Default to none.
+     */
+    scaling?: string;
+
+    /**
+     * Whether to PCA-whiten scaled vectors. Default to false.
+     */
+    whiten?: boolean;
+
+    /**
+     * Number of principal axes kept by whitening. Default to all.
+     */
+    components?: number;
+
+    /**
+     * Groups of previous sessions, given as person ids, e.g. [[[1, 2], [3, 4]], [[1, 3], [2, 4]]]. Pairs which already worked together are kept apart.
+     */
+    history?: number[][][];
+
+    /**
+     * Penalty of each session a pair already spent together. Default to 1.
+     */
+    historyWeight?: number;
+}
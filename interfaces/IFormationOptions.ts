@@ -0,0 +1,24 @@
+﻿import { IGroupSizeSpec } from "./IGroupSizeSpec";
+import { PairHistory } from "../classes";
+
+export interface IFormationOptions {
+    /**
+     * Formation mode. Homogeneous puts learners sharing the same dominant cluster together, heterogeneous mixes learners of every cluster in each group. Default to homogeneous.
+     */
+    mode?: 'homogeneous' | 'heterogeneous';
+
+    /**
+     * Requested group sizes (it must yield the number of groups of the model). Default to balanced groups of floor(n / groupNum) or ceil(n / groupNum) members.
+     */
+    sizes?: IGroupSizeSpec;
+
+    /**
+     * Groups of previous sessions (if set). Pairs which already worked together are penalised, so formation rather separates them.
+     */
+    history?: PairHistory;
+
+    /**
+     * Penalty of one session a pair already spent together, traded against the formation criterion (membership given up on homogeneous mode, diversity on heterogeneous mode). Default to 1.
+     */
+    historyWeight?: number;
+}
@@ -0,0 +1,24 @@
+﻿import { Group } from "../classes";
+import { IConstraintViolation } from "./IConstraintViolation";
+
+export interface IFormationResult {
+    /**
+     * Formed groups.
+     */
+    groups: Group[];
+
+    /**
+     * Constraints which could not be satisfied (empty if every constraint holds).
+     */
+    violations: IConstraintViolation[];
+
+    /**
+     * Total membership given up to balance group sizes, compared to putting every member in its highest-membership cluster (0 when groups are not tied to clusters).
+     */
+    membershipLoss: number;
+
+    /**
+     * Number of pairs of the formed groups which already worked together according to the formation history (0 without history).
+     */
+    repeatedPairs: number;
+}
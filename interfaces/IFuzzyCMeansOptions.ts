@@ -0,0 +1,7 @@
+﻿import { IClusteringOptions } from "./IClusteringOptions";
+
+/**
+ * Options of FCM model (the options shared by every clustering model).
+ */
+export interface IFuzzyCMeansOptions extends IClusteringOptions {
+}
@@ -0,0 +1,16 @@
+﻿export interface IGroupConstraints {
+    /**
+     * Pairs of person id which must be in the same group.
+     */
+    mustLink?: [number, number][];
+
+    /**
+     * Pairs of person id which must not be in the same group.
+     */
+    cannotLink?: [number, number][];
+
+    /**
+     * Fixed group id, keyed by person id.
+     */
+    pins?: { [personId: number]: number };
+}
@@ -0,0 +1,21 @@
+﻿export interface IGroupDocument {
+    /**
+     * Group id.
+     */
+    id: number;
+
+    /**
+     * Id of the cluster this group is formed from (null if group mixes several clusters).
+     */
+    clusterId: number;
+
+    /**
+     * Center (profile) of the group, as exact decimal strings.
+     */
+    center: string[];
+
+    /**
+     * Group members: person id and membership degree to each cluster, as exact decimal strings.
+     */
+    members: { personId: number, membership: string[] }[];
+}
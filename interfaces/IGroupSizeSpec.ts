@@ -0,0 +1,22 @@
+﻿export interface IGroupSizeSpec {
+    /**
+     * Target number of members per group. Number of groups is derived from it.
+     */
+    size?: number;
+
+    /**
+     * Minimum number of members per group. Default to size when maxSize is set, otherwise groups are balanced around size.
+     */
+    minSize?: number;
+
+    /**
+     * Maximum number of members per group. Default to size when minSize is set, otherwise groups are balanced around size.
+     */
+    maxSize?: number;
+
+    /**
+     * Explicit capacity of each group (overrides size). Number of groups is the number of capacities.
+     * If capacities add up to more than the population, groups may be left below their capacity.
+     */
+    capacities?: number[];
+}
@@ -0,0 +1,26 @@
+﻿export interface IImportIssue {
+    /**
+     * Line number in the dataset (header is line 1).
+     */
+    line: number;
+
+    /**
+     * Column holding the invalid value (null if the whole row is invalid).
+     */
+    column: string;
+
+    /**
+     * Invalid raw value (null if the whole row is invalid).
+     */
+    value: string;
+
+    /**
+     * What is wrong.
+     */
+    message: string;
+
+    /**
+     * How the issue was resolved: rejected (strict mode), skipped (row dropped) or imputed (value replaced).
+     */
+    action: 'rejected' | 'skipped' | 'imputed';
+}
@@ -0,0 +1,29 @@
+﻿import { Person } from "../classes";
+import { IImportIssue } from "./IImportIssue";
+
+export interface IImportResult {
+    /**
+     * Imported population.
+     */
+    population: Person[];
+
+    /**
+     * Line number of each imported person, in population order.
+     */
+    lines: number[];
+
+    /**
+     * Problems found in the dataset, in line order.
+     */
+    issues: IImportIssue[];
+
+    /**
+     * Number of rows dropped.
+     */
+    skipped: number;
+
+    /**
+     * Number of values replaced by an imputed value.
+     */
+    imputed: number;
+}
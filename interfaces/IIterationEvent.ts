@@ -0,0 +1,29 @@
+﻿import Decimal from "decimal.js";
+
+export interface IIterationEvent {
+    /**
+     * Iteration number (starting from 1).
+     */
+    iteration: number;
+
+    /**
+     * Maximum iteration of the run.
+     */
+    maxIteration: number;
+
+    /**
+     * Objective value (J) reached by the iteration (not set on iteration start).
+     */
+    objectiveValue?: Decimal;
+
+    /**
+     * Absolute change of objective value against previous iteration (not set on iteration start, nor on the first iteration of a run).
+     */
+    improvement?: Decimal;
+
+    /**
+     * Change measured by the stopping rule of the model (see ClusteringModel.STOP_RULES), compared with minimum improvement.
+     * Not set on iteration start, nor on the first iteration of a run when the rule compares objective values or centers of two iterations.
+     */
+    change?: Decimal;
+}
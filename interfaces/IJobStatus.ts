@@ -0,0 +1,38 @@
+﻿import { IApiError } from "./IApiError";
+
+export interface IJobStatus {
+    /**
+     * Job id.
+     */
+    id: string;
+
+    /**
+     * Job state: queued, running, succeeded, failed or cancelled.
+     */
+    status: string;
+
+    /**
+     * Time the job was submitted (ISO 8601).
+     */
+    createdAt: string;
+
+    /**
+     * Time the job started running (ISO 8601), null while queued.
+     */
+    startedAt: string;
+
+    /**
+     * Time the job ended (ISO 8601), null until then.
+     */
+    finishedAt: string;
+
+    /**
+     * Last finished iteration (null before the first one).
+     */
+    progress: { iteration: number, maxIteration: number, objectiveValue: number };
+
+    /**
+     * Why the job failed or was cancelled (null otherwise).
+     */
+    error: IApiError;
+}
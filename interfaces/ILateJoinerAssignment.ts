@@ -0,0 +1,19 @@
+﻿import { Group } from "../classes";
+import { IMember } from "./IMember";
+
+export interface ILateJoinerAssignment {
+    /**
+     * The newcomer with its predicted membership vector.
+     */
+    member: IMember;
+
+    /**
+     * Group the newcomer was added to, or (if every group is full) the group which should be allowed to exceed its size.
+     */
+    group: Group;
+
+    /**
+     * Whether every group was full. The newcomer is then not added, the caller decides whether group may exceed its size.
+     */
+    overCapacity: boolean;
+}
@@ -0,0 +1,24 @@
+﻿/**
+ * Logger receiving diagnostic messages of the library (iteration progress, formation warnings).
+ */
+export interface ILogger {
+    /**
+     * Detailed progress (e.g. every iteration).
+     */
+    debug(message: string, ...meta: any[]): void;
+
+    /**
+     * Noteworthy progress (e.g. end of training).
+     */
+    info(message: string, ...meta: any[]): void;
+
+    /**
+     * Recoverable problem (e.g. orphan member).
+     */
+    warn(message: string, ...meta: any[]): void;
+
+    /**
+     * Failure.
+     */
+    error(message: string, ...meta: any[]): void;
+}
@@ -0,0 +1,66 @@
+﻿import { IAttributeDimension } from "./IAttributeDimension";
+import { IDistanceMetricDescription } from "./IDistanceMetricDescription";
+import { IGroupDocument } from "./IGroupDocument";
+import { IPreprocessorDescription } from "./IPreprocessorDescription";
+
+export interface IModelDocument {
+    /**
+     * Document format marker.
+     */
+    format: string;
+
+    /**
+     * Schema version of the document.
+     */
+    version: number;
+
+    /**
+     * Time the document was written (ISO 8601).
+     */
+    createdAt: string;
+
+    /**
+     * Model parameters (algorithm is missing before version 3, i.e. fcm; preprocessing is null or missing when person vectors are used as is).
+     */
+    parameters: {
+        algorithm?: string,
+        groupNum: number,
+        mass: number,
+        seed: number,
+        backend: string,
+        distanceMetric: IDistanceMetricDescription,
+        schema: { dimensions: IAttributeDimension[] },
+        vectorLength: number,
+        preprocessing?: IPreprocessorDescription,
+    };
+
+    /**
+     * Objective value (J) of last iteration, as exact decimal string.
+     */
+    objectiveValue: string;
+
+    /**
+     * Objective value (J) of every iteration, as exact decimal strings.
+     */
+    history: string[];
+
+    /**
+     * Cluster centers, one row per group, as exact decimal strings (in model space, i.e. after preprocessing).
+     */
+    centers: string[][];
+
+    /**
+     * Id of each person, in partition matrix order.
+     */
+    personIds: number[];
+
+    /**
+     * Partition matrix, one row per person and one column per group, as exact decimal strings.
+     */
+    partitionMatrix: string[][];
+
+    /**
+     * Formed groups (if saved with the model).
+     */
+    groups?: IGroupDocument[];
+}
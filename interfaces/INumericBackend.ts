@@ -0,0 +1,59 @@
+﻿import Decimal from "decimal.js";
+import { IDistanceMetric } from "./IDistanceMetric";
+
+/**
+ * Numeric backend running the FCM iteration steps on its own representation of the data matrix, partition matrix and centers.
+ */
+export interface INumericBackend {
+    /**
+     * Human-readable backend name.
+     */
+    readonly name: string;
+
+    /**
+     * Load data matrix and current partition matrix. Called before iterating.
+     * @param data              Data matrix (one row per person).
+     * @param memberships       Partition matrix (one row per person, one column per group).
+     * @param distanceMetric    Distance metric.
+     */
+    load(data: Decimal[][], memberships: Decimal[][], distanceMetric: IDistanceMetric): void;
+
+    /**
+     * Update cluster centers from current partition matrix.
+     * @param mass  Mass (m).
+     */
+    updateCenters(mass: number): void;
+
+    /**
+     * Update partition matrix from current centers (each row is normalized to sum 1.0).
+     * @param mass  Mass (m).
+     */
+    updateMemberships(mass: number): void;
+
+    /**
+     * Calculate objective value (J) of current partition matrix and centers.
+     * @param mass  Mass (m).
+     */
+    objectiveValue(mass: number): Decimal;
+
+    /**
+     * Get current partition matrix.
+     */
+    getMemberships(): Decimal[][];
+
+    /**
+     * Replace current partition matrix.
+     * @param memberships   Partition matrix.
+     */
+    setMemberships(memberships: Decimal[][]): void;
+
+    /**
+     * Get current cluster centers.
+     */
+    getCenters(): Decimal[][];
+
+    /**
+     * Release resources held since load (optional, e.g. worker threads). Called once iterating is over.
+     */
+    release?(): void;
+}
@@ -0,0 +1,13 @@
+﻿import { IMember } from "./IMember";
+
+export interface IOrphanEvent {
+    /**
+     * Member which could not be put into any group.
+     */
+    member: IMember;
+
+    /**
+     * Why the member was left out.
+     */
+    message: string;
+}
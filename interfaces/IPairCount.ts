@@ -0,0 +1,16 @@
+﻿export interface IPairCount {
+    /**
+     * Id of first person (the lower one).
+     */
+    left: number;
+
+    /**
+     * Id of second person.
+     */
+    right: number;
+
+    /**
+     * Number of sessions in which both persons were in the same group.
+     */
+    count: number;
+}
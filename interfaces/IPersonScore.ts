@@ -1,6 +1,3 @@
 ﻿export interface IPersonScore {
-    active_reflective: number;
-    sensing_intuitive: number;
-    visual_verbal: number;
-    sequential_global: number;
+    [dimension: string]: number | string;
 }
@@ -0,0 +1,19 @@
+﻿import { Person } from "../classes";
+
+export interface IPersonStability {
+    /**
+     * The person.
+     */
+    person: Person;
+
+    /**
+     * Group of the person in the grouping under review (0 if the person was left out of every group).
+     */
+    groupId: number;
+
+    /**
+     * Average co-association with the other members of the group: share of runs which put them together. Range [0, 1],
+     * 1 is a robust placement, a low value means the person lands with other learners from one run to another.
+     */
+    stability: number;
+}
@@ -0,0 +1,36 @@
+﻿export interface IPreprocessorDescription {
+    /**
+     * Scaling method (none, minmax, zscore or robust).
+     */
+    method: string;
+
+    /**
+     * Whether scaled vectors are PCA-whitened.
+     */
+    whiten: boolean;
+
+    /**
+     * Value subtracted from each dimension, as exact decimal strings.
+     */
+    offsets: string[];
+
+    /**
+     * Value each dimension is divided by after subtracting its offset, as exact decimal strings.
+     */
+    scales: string[];
+
+    /**
+     * Mean of scaled vectors, as exact decimal strings (whitening only).
+     */
+    pcaMean?: string[];
+
+    /**
+     * Principal axes kept, one row per component, as exact decimal strings (whitening only).
+     */
+    pcaComponents?: string[][];
+
+    /**
+     * Standard deviation along each principal axis, as exact decimal strings (whitening only).
+     */
+    pcaScales?: string[];
+}
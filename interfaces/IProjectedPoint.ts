@@ -0,0 +1,28 @@
+﻿import { Person } from "../classes";
+
+export interface IProjectedPoint {
+    /**
+     * Projected person.
+     */
+    person: Person;
+
+    /**
+     * Id of the group the person was put into (0 if the person is not in any group).
+     */
+    groupId: number;
+
+    /**
+     * Membership degree of the person to its group (0 if the person is not in any group).
+     */
+    membership: number;
+
+    /**
+     * Coordinate along the first principal axis.
+     */
+    x: number;
+
+    /**
+     * Coordinate along the second principal axis.
+     */
+    y: number;
+}
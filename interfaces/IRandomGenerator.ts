@@ -0,0 +1,12 @@
+﻿export interface IRandomGenerator {
+    /**
+     * Seed of the generator (if any), recorded so the sequence can be regenerated.
+     */
+    readonly seed?: number;
+
+    /**
+     * Get next random number.
+     * @returns Number in range [0, 1).
+     */
+    next(): number;
+}
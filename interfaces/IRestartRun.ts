@@ -0,0 +1,30 @@
+﻿import { Group } from "../classes";
+import { IClusteringModel } from "./IClusteringModel";
+import { ITrainingResult } from "./ITrainingResult";
+
+export interface IRestartRun {
+    /**
+     * Run number (starting from 1).
+     */
+    run: number;
+
+    /**
+     * Seed of the random generator used to initialize the model of the run.
+     */
+    seed: number;
+
+    /**
+     * Trained model.
+     */
+    model: IClusteringModel;
+
+    /**
+     * Training result of the model.
+     */
+    training: ITrainingResult;
+
+    /**
+     * Groups formed from the model.
+     */
+    groups: Group[];
+}
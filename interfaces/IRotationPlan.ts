@@ -0,0 +1,24 @@
+﻿import { Group, PairHistory } from "../classes";
+import { IPairCount } from "./IPairCount";
+
+export interface IRotationPlan {
+    /**
+     * Groups of each planned session, in session order.
+     */
+    sessions: Group[][];
+
+    /**
+     * Number of pairs of each session which had already been grouped together before it (in the given history or an earlier planned session).
+     */
+    repeatedPairs: number[];
+
+    /**
+     * Number of planned sessions in which each pair was grouped together (pairs never grouped together are not listed).
+     */
+    pairs: IPairCount[];
+
+    /**
+     * Given history followed by the planned sessions, e.g. to plan the next series from.
+     */
+    history: PairHistory;
+}
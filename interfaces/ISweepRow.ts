@@ -0,0 +1,10 @@
+﻿export interface ISweepRow {
+    groupNum: number;
+    averageGroupSize: number;
+    objectiveValue: number;
+    partitionCoefficient: number;
+    partitionEntropy: number;
+    xieBeni: number;
+    fukuyamaSugeno: number;
+    fuzzySilhouette: number;
+}
@@ -0,0 +1,29 @@
+﻿import Decimal from "decimal.js";
+import { IIterationEvent } from "./IIterationEvent";
+
+export interface ITrainingResult {
+    /**
+     * Number of iterations run by the call.
+     */
+    iterations: number;
+
+    /**
+     * Why iterating stopped: converged (change measured by the stopping rule fell below minimum improvement) or maxIterationReached.
+     */
+    stopReason: 'converged' | 'maxIterationReached';
+
+    /**
+     * Stopping rule used (see ClusteringModel.STOP_RULES).
+     */
+    stopRule: string;
+
+    /**
+     * Objective value (J) of the final partition matrix.
+     */
+    objectiveValue: Decimal;
+
+    /**
+     * Objective value, its improvement and the change measured by the stopping rule on every iteration of the call.
+     */
+    history: IIterationEvent[];
+}
@@ -1,2 +1,38 @@
 ﻿export { IPersonScore } from './IPersonScore';
 export { IMember } from './IMember';
+export { IDistanceMetric } from './IDistanceMetric';
+export { IFuzzyCMeansOptions } from './IFuzzyCMeansOptions';
+export { IAttributeDimension } from './IAttributeDimension';
+export { ICommandOption } from './ICommandOption';
+export { ICommandArguments } from './ICommandArguments';
+export { ICommand } from './ICommand';
+export { ISweepRow } from './ISweepRow';
+export { IRandomGenerator } from './IRandomGenerator';
+export { IFormationOptions } from './IFormationOptions';
+export { IGroupConstraints } from './IGroupConstraints';
+export { IConstraintViolation } from './IConstraintViolation';
+export { IFormationResult } from './IFormationResult';
+export { IGroupSizeSpec } from './IGroupSizeSpec';
+export { INumericBackend } from './INumericBackend';
+export { ILateJoinerAssignment } from './ILateJoinerAssignment';
+export { IDistanceMetricDescription } from './IDistanceMetricDescription';
+export { IGroupDocument } from './IGroupDocument';
+export { IModelDocument } from './IModelDocument';
+export { ILogger } from './ILogger';
+export { IAbortSignal } from './IAbortSignal';
+export { IIterationEvent } from './IIterationEvent';
+export { IOrphanEvent } from './IOrphanEvent';
+export { IImportIssue } from './IImportIssue';
+export { IImportResult } from './IImportResult';
+export { IPreprocessorDescription } from './IPreprocessorDescription';
+export { IFormationJobRequest } from './IFormationJobRequest';
+export { IApiError } from './IApiError';
+export { IJobStatus } from './IJobStatus';
+export { IClusteringOptions } from './IClusteringOptions';
+export { IClusteringModel } from './IClusteringModel';
+export { ITrainingResult } from './ITrainingResult';
+export { IRestartRun } from './IRestartRun';
+export { IPersonStability } from './IPersonStability';
+export { IPairCount } from './IPairCount';
+export { IRotationPlan } from './IRotationPlan';
+export { IProjectedPoint } from './IProjectedPoint';
@@ -0,0 +1,560 @@
+﻿import { join } from "path";
+import { existsSync, mkdtempSync, readFileSync, rmdirSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { request as httpRequest } from "http";
+import { strict as assert } from "assert";
+import Decimal from 'decimal.js';
+import { AssignmentSolver, AttributeSchema, ClusteringModel, ClusteringModelFactory, ClusterValidity, DatasetLoader, EuclideanDistance, FormationServer, FuzzyCMeans, GathGeva, Group, GroupExporter, GroupPlotter, GustafsonKessel, HeterogeneousFormation, MatrixHelper, ModelInputError, MultiStart, ModelSerializer, NumericBackendFactory, PairHistory, PartitionInitializer, PartitionLoader, Person, Preprocessor, RotationPlanner, SeededRandom } from "./classes";
+import { IDistanceMetric, IGroupConstraints, IPersonScore } from "./interfaces";
+
+/**
+ * Regression checks on the sample dataset and on degenerate inputs (fixtures/degenerate), run with `npm test` after build.
+ * Every degenerate input check runs on each clustering algorithm (and on each numeric backend for FCM).
+ */
+const fixture = (name: string) => join(__dirname, 'fixtures', 'degenerate', name);
+const load = (name: string): Promise<Person[]> => new DatasetLoader().load(fixture(name));
+const loadDataset = (): Promise<Person[]> => new DatasetLoader().load(join(__dirname, 'dataset.csv'));
+
+/**
+ * Run a check against a file in a temporary directory, removed afterwards.
+ * @param name      File name.
+ * @param content   File content (null if the check writes the file).
+ * @param use       Check of the file path.
+ */
+const withTemporaryFile = async <T>(name: string, content: string, use: (path: string) => T | Promise<T>): Promise<T> => {
+    const directory = mkdtempSync(join(tmpdir(), 'endah-'));
+    const path = join(directory, name);
+    if (content !== null) {
+        writeFileSync(path, content);
+    }
+    try {
+        return await use(path);
+    } finally {
+        if (existsSync(path)) {
+            unlinkSync(path);
+        }
+        rmdirSync(directory);
+    }
+};
+
+/**
+ * Load the sample dataset without its name column.
+ */
+const loadNamelessDataset = (): Promise<Person[]> => {
+    const content = readFileSync(join(__dirname, 'dataset.csv'), 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.split(',').filter((_, k) => k !== 1).join(','))
+        .join('\n');
+    return withTemporaryFile('nameless.csv', content, path => new DatasetLoader().load(path));
+};
+
+/**
+ * Generate a seeded population of Felder-Silverman learners (odd scores from -11 to 11).
+ * @param count Number of persons.
+ * @param seed  Random seed.
+ */
+const randomPopulation = (count: number, seed: number): Person[] => {
+    const random = new SeededRandom(seed);
+    const score = () => Math.floor(random.next() * 12) * 2 - 11;
+    return new Array<number>(count).fill(0).map((_, i) => new Person(i + 1, `Person ${i + 1}`, AttributeSchema.FELDER_SILVERMAN.dimensions.reduce((p, d) => {
+        p[d.name] = score();
+        return p;
+    }, {} as IPersonScore)));
+};
+
+/**
+ * Send a request to a local formation server.
+ * @param port      Server port.
+ * @param method    HTTP method.
+ * @param path      Path and query.
+ * @param body      CSV body (if any).
+ * @returns         Promise of response status and parsed body.
+ */
+const call = (port: number, method: string, path: string, body: string = null): Promise<{ status: number, body: any }> => new Promise((resolve, reject) => {
+    const request = httpRequest({ host: '127.0.0.1', port, method, path, headers: body !== null ? { 'Content-Type': 'text/csv' } : {} }, response => {
+        const chunks = new Array<Buffer>();
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => resolve({ status: response.statusCode, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) }));
+        response.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(body !== null ? body : undefined);
+});
+
+// Algorithm and numeric backend of every model under check
+const variants = [
+    ...ClusteringModelFactory.NAMES.map(algorithm => ({ algorithm, backend: 'decimal' })),
+    { algorithm: 'fcm', backend: 'float' },
+    { algorithm: 'fcm', backend: 'parallel' },
+];
+
+/**
+ * Build a model on every variant and check it stays finite.
+ * @param population        Population.
+ * @param groupNum          Number of groups.
+ * @param initialVectors    Initial partition matrix (if set).
+ * @param initialCenters    Initial centers (if set).
+ * @param check             Further check of each trained model.
+ */
+const eachVariant = (population: Person[], groupNum: number, initialVectors: Decimal[][], initialCenters: Decimal[][], check: (model: ClusteringModel, label: string) => void) => {
+    variants.forEach(({ algorithm, backend }) => {
+        const label = `${algorithm}/${backend}`;
+        const model = ClusteringModelFactory.create(algorithm, population, groupNum, initialVectors, { seed: 7, initialCenters, backend: NumericBackendFactory.create(backend, 2) });
+        model.buildModel(50, new Decimal(0.001));
+        model.partitionMatrix.forEach(row => assert.ok(row.vector.every(u => u.isFinite()), `${label}: membership of person ${row.person.id} is not finite`));
+        model.clusterCenters.forEach(center => assert.ok(center.vector.every(v => v.isFinite()), `${label}: center ${center.id} is not finite`));
+        assert.ok(model.objectiveValue.isFinite(), `${label}: objective value is not finite`);
+        const groups = model.formGroups();
+        assert.deepEqual(groups.map(group => group.members.length).reduce((p, c) => p + c, 0), population.length, `${label}: not every person was grouped`);
+        check(model, label);
+    });
+};
+
+/**
+ * Expect model construction to fail with a typed error.
+ * @param population    Population.
+ * @param groupNum      Number of groups.
+ * @param code          Expected ModelInputError code.
+ */
+const expectInputError = (population: Person[], groupNum: number, code: string) => {
+    assert.throws(() => ClusteringModelFactory.create('fcm', population, groupNum), (error: Error) => error instanceof ModelInputError && error.code === code, `expected ModelInputError ${code}`);
+};
+
+// Person ids of each group
+const ids = (groups: Group[]) => groups.map(group => group.members.map(member => member.person.id));
+
+const checks: { name: string, run: () => Promise<void> }[] = [
+    {
+        name: 'untrained model refuses to form groups',
+        run: async () => {
+            const model = new FuzzyCMeans(await loadDataset(), 2);
+            assert.throws(() => model.formGroups(), /must be trained/);
+            model.buildModel(0, new Decimal(0.001));
+            assert.throws(() => model.formGroups({ mode: 'heterogeneous' }), /must be trained/);
+        },
+    },
+    {
+        name: 'groups of a dataset without names are exported in every format',
+        run: async () => {
+            const population = await loadNamelessDataset();
+            assert.ok(population.every(person => person.name === ''), 'missing name is not empty');
+            const model = new FuzzyCMeans(population, 3, null, { seed: 7 });
+            model.buildModel(50, new Decimal(0.001));
+            const groups = model.formGroups();
+            const exporter = GroupExporter.fromModel(model, groups);
+            GroupExporter.FORMATS.forEach(format => assert.ok(!/undefined/.test(exporter.export(format)), `${format}: export shows undefined`));
+            const document = JSON.parse(exporter.toJson());
+            assert.ok(document.groups.every((group: { members: { name: string }[] }) => group.members.every(member => member.name === '')), 'json: name is not empty');
+        },
+    },
+    {
+        name: 'memberships seeded from centers follow the fuzzifier of the run',
+        run: async () => {
+            const population = await loadDataset();
+            const centers = [0, 10, 20].map(i => population[i].toVector());
+            const seeded = new FuzzyCMeans(population, 3, null, { initialCenters: centers });
+            const explicit = new FuzzyCMeans(population, 3, new PartitionInitializer(population.map(person => person.toVector()), 3, new EuclideanDistance(), new SeededRandom(1), 3).fromCenters(centers));
+            [seeded, explicit].forEach(model => model.buildModel(1, new Decimal(0.001), 3));
+            assert.ok(seeded.objectiveValue.equals(explicit.objectiveValue), `objective value ${seeded.objectiveValue} differs from ${explicit.objectiveValue}`);
+        },
+    },
+    {
+        name: 'groups of a large population are formed again the same way',
+        run: async () => {
+            const population = randomPopulation(HeterogeneousFormation.FULL_SEARCH_LIMIT + 100, 5);
+            const model = new FuzzyCMeans(population, 4, null, { seed: 7 });
+            model.buildModel(5, new Decimal(0.001));
+            const heterogeneous = model.formGroups({ mode: 'heterogeneous' });
+            assert.deepEqual(ids(model.formGroups({ mode: 'heterogeneous' })), ids(heterogeneous), 'heterogeneous groups differ');
+            const history = PairHistory.fromRosters([heterogeneous]);
+            assert.deepEqual(ids(model.formGroups({ history })), ids(model.formGroups({ history })), 'groups avoiding repeats differ');
+        },
+    },
+    {
+        name: 'constraints are satisfied by the formed groups',
+        run: async () => {
+            const population = await loadDataset();
+            const groupOf = (groups: Group[], id: number) => groups.find(group => group.members.some(member => member.person.id === id)).id;
+            const cases: IGroupConstraints[] = [{ mustLink: [[1, 2], [2, 3]], cannotLink: [[4, 5], [1, 6]], pins: { 7: 2, 1: 4 } }, { cannotLink: [[8, 9], [9, 10], [8, 10]] }];
+            cases.forEach(constraints => {
+                const model = new FuzzyCMeans(population, 4, null, { seed: 7, constraints });
+                model.buildModel(50, new Decimal(0.001));
+                ['homogeneous', 'heterogeneous'].forEach((mode: 'homogeneous' | 'heterogeneous') => {
+                    const { groups, violations } = model.formGroupsWithReport({ mode });
+                    assert.deepEqual(violations, [], `${mode}: ${violations.map(violation => violation.message).join('; ')}`);
+                    (constraints.mustLink || []).forEach(([a, b]) => assert.equal(groupOf(groups, a), groupOf(groups, b), `${mode}: ${a} and ${b} are apart`));
+                    (constraints.cannotLink || []).forEach(([a, b]) => assert.notEqual(groupOf(groups, a), groupOf(groups, b), `${mode}: ${a} and ${b} are together`));
+                    Object.entries(constraints.pins || {}).forEach(([id, groupId]) => assert.equal(groupOf(groups, Number(id)), groupId, `${mode}: ${id} is not in its pinned group`));
+                });
+            });
+        },
+    },
+    {
+        name: 'assignment solver reaches the brute-force optimum',
+        run: async () => {
+            const random = new SeededRandom(3);
+            let solvedCount = 0;
+            for (let instance = 0; instance < 60; instance++) {
+                const n = 2 + instance % 6;
+                const groupNum = 2 + instance % 3;
+                const memberships = new Array<number>(n).fill(0).map(() => new Array<number>(groupNum).fill(0).map(() => random.next()));
+                const minSizes = new Array<number>(groupNum).fill(0).map(() => Math.floor(random.next() * (n / groupNum + 1)));
+                const maxSizes = minSizes.map(min => Math.max(min, 1) + Math.floor(random.next() * 3));
+                if (maxSizes.reduce((p, c) => p + c, 0) < n || minSizes.reduce((p, c) => p + c, 0) > n) {
+                    continue;
+                }
+                const total = (assignment: number[]) => assignment.reduce((p, g, i) => p + memberships[i][g], 0);
+                let best = -Infinity;
+                for (let code = 0; code < Math.pow(groupNum, n); code++) {
+                    const assignment = new Array<number>(n).fill(0).map((_, i) => Math.floor(code / Math.pow(groupNum, i)) % groupNum);
+                    const sizes = minSizes.map((_, g) => assignment.filter(a => a === g).length);
+                    if (sizes.every((size, g) => size >= minSizes[g] && size <= maxSizes[g])) {
+                        best = Math.max(best, total(assignment));
+                    }
+                }
+                const solved = new AssignmentSolver(memberships, minSizes, maxSizes).solve();
+                const sizes = minSizes.map((_, g) => solved.filter(a => a === g).length);
+                assert.ok(sizes.every((size, g) => size >= minSizes[g] && size <= maxSizes[g]), `instance ${instance}: sizes ${sizes} out of bounds ${minSizes}..${maxSizes}`);
+                assert.ok(Math.abs(total(solved) - best) < 1e-9, `instance ${instance}: total ${total(solved)}, brute force ${best}`);
+                solvedCount += 1;
+            }
+            assert.ok(solvedCount >= 30, `only ${solvedCount} feasible instances`);
+        },
+    },
+    {
+        name: 'floating-point fuzzy silhouette matches the decimal one',
+        run: async () => {
+            const model = new FuzzyCMeans(await loadDataset(), 4, null, { seed: 7 });
+            model.buildModel(50, new Decimal(0.001));
+            const validity = new ClusterValidity(model);
+            [1, 2].forEach(alpha => {
+                const exact = validity.fuzzySilhouette(alpha, false);
+                const fast = validity.fuzzySilhouette(alpha, true);
+                assert.ok(exact.minus(fast).abs().lessThan(1e-9), `alpha ${alpha}: ${fast} differs from ${exact}`);
+            });
+        },
+    },
+    {
+        name: 'float backend forms the same groups as the decimal backend',
+        run: async () => {
+            const population = await loadDataset();
+            const [decimal, float] = ['decimal', 'float'].map(backend => {
+                const model = new FuzzyCMeans(population, 4, null, { seed: 7, backend: NumericBackendFactory.create(backend) });
+                model.buildModel(100, new Decimal(0.0001));
+                return model;
+            });
+            assert.ok(float.objectiveValue.minus(decimal.objectiveValue).abs().lessThan(decimal.objectiveValue.times(1e-9)), `objective value ${float.objectiveValue} differs from ${decimal.objectiveValue}`);
+            float.partitionMatrix.forEach((row, i) => assert.ok(row.vector.every((u, k) => u.minus(decimal.partitionMatrix[i].vector[k]).abs().lessThan(1e-9)), `memberships of person ${row.person.id} differ`));
+            assert.deepEqual(ids(float.formGroups()), ids(decimal.formGroups()));
+        },
+    },
+    {
+        name: 'parallel backend forms the same groups as the float backend',
+        run: async () => {
+            const population = randomPopulation(700, 11);
+            const [float, parallel] = ['float', 'parallel'].map(backend => {
+                const model = new FuzzyCMeans(population, 5, null, { seed: 7, backend: NumericBackendFactory.create(backend, 3) });
+                model.buildModel(100, new Decimal(0.0001));
+                return model;
+            });
+            assert.ok(float.objectiveValue.equals(parallel.objectiveValue), `objective value ${parallel.objectiveValue} differs from ${float.objectiveValue}`);
+            assert.deepEqual(ids(parallel.formGroups()), ids(float.formGroups()));
+        },
+    },
+    {
+        name: 'saved model predicts and forms groups as the trained one',
+        run: async () => {
+            const population = await loadDataset();
+            const newcomers = randomPopulation(5, 13).map(person => new Person(person.id + 1000, person.name, person.scores));
+            const model = ClusteringModelFactory.create('gk', population, 3, null, { seed: 7, preprocessor: new Preprocessor('zscore') });
+            model.buildModel(50, new Decimal(0.001));
+            const groups = model.formGroups();
+            const loaded = await withTemporaryFile('model.json', null, path => {
+                ModelSerializer.save(path, model, groups);
+                return ModelSerializer.load(path, population);
+            });
+            assert.deepEqual(ids(loaded.groups), ids(groups));
+            assert.deepEqual(ids(loaded.model.formGroups()), ids(groups));
+            newcomers.forEach(person => assert.deepEqual(loaded.model.predict(person).map(u => u.toString()), model.predict(person).map(u => u.toString()), `prediction of person ${person.id} differs`));
+
+            const document = ModelSerializer.toJSON(model, groups);
+            assert.throws(() => ModelSerializer.fromJSON({ ...document, version: ModelSerializer.VERSION + 1 }, population), /Unsupported model document version/);
+        },
+    },
+    {
+        name: 'failing run leaves the model as it was',
+        run: async () => {
+            const model = new FuzzyCMeans(await loadDataset(), 4, null, { seed: 7 });
+            model.buildModel(5, new Decimal(0.001));
+            const before = { objectiveValue: model.objectiveValue, history: model.history.length, memberships: JSON.stringify(model.partitionMatrix.map(row => row.vector)), centers: JSON.stringify(model.clusterCenters), metric: model.distanceMetric };
+            const euclidean = new EuclideanDistance();
+            let calls = 0;
+            const failing: IDistanceMetric = {
+                name: 'failing',
+                distance: (left, right) => {
+                    if (++calls > 500) {
+                        throw new Error('distance failed');
+                    }
+                    return euclidean.distance(left, right);
+                },
+            };
+            assert.throws(() => model.buildModel(50, new Decimal(0.000001), 2, failing), /distance failed/);
+            assert.ok(model.objectiveValue.equals(before.objectiveValue), 'objective value changed');
+            assert.equal(model.history.length, before.history, 'history changed');
+            assert.equal(JSON.stringify(model.partitionMatrix.map(row => row.vector)), before.memberships, 'partition matrix changed');
+            assert.equal(JSON.stringify(model.clusterCenters), before.centers, 'centers changed');
+            assert.equal(model.distanceMetric, before.metric, 'distance metric changed');
+        },
+    },
+    {
+        name: 'invalid rows are reported on their line after multi-line quoted values',
+        run: async () => {
+            const content = 'Num,Name,Active_Reflective,Sensing_Intuitive,Visual_Verbal,Sequential_Global\n1,"Multi\nline\nname",1,3,5,7\n2,B,1,3,5,7\n\n3,"C\r\nD",1,3,5,99\n4,E,x,3,5,7\n';
+            const { issues } = await withTemporaryFile('dataset.csv', content, path => new DatasetLoader(AttributeSchema.FELDER_SILVERMAN, 'Num', 'Name', 'skip').loadWithReport(path));
+            assert.deepEqual(issues.map(issue => issue.line), [7, 9]);
+        },
+    },
+    {
+        name: 'row with a duplicated id still has its values checked',
+        run: async () => {
+            const content = 'Num,Name,Active_Reflective,Sensing_Intuitive,Visual_Verbal,Sequential_Global\n1,A,1,3,5,7\n1,B,1,3,99,7\n2,C,1,3,5,7\n';
+            const { population, issues } = await withTemporaryFile('dataset.csv', content, path => new DatasetLoader(AttributeSchema.FELDER_SILVERMAN, 'Num', 'Name', 'impute').loadWithReport(path));
+            assert.deepEqual(issues.map(issue => [issue.line, issue.column, issue.action]), [[3, 'Num', 'skipped'], [3, 'Visual_Verbal', 'skipped']]);
+            assert.deepEqual(population.map(person => person.name), ['A', 'C']);
+        },
+    },
+    {
+        name: 'preprocessor scales, whitens and maps back to original units',
+        run: async () => {
+            const vectors = (await loadDataset()).map(person => person.toVector());
+            const close = (left: Decimal[], right: Decimal[]) => left.every((v, k) => v.minus(right[k]).abs().lessThan(1e-9));
+            const column = (rows: Decimal[][], k: number) => rows.map(row => row[k]);
+            const minmax = new Preprocessor('minmax').fit(vectors);
+            const scaled = vectors.map(vector => minmax.transform(vector));
+            scaled[0].forEach((_, k) => {
+                assert.ok(Decimal.min(...column(scaled, k)).isZero() && Decimal.max(...column(scaled, k)).equals(1), `minmax: dimension ${k} is not scaled to 0..1`);
+            });
+            const zscore = new Preprocessor('zscore').fit(vectors);
+            const standardized = vectors.map(vector => zscore.transform(vector));
+            standardized[0].forEach((_, k) => {
+                const values = column(standardized, k);
+                const mean = values.reduce((p, c) => p.plus(c)).div(values.length);
+                const variance = values.reduce((p, c) => p.plus(c.minus(mean).pow(2)), new Decimal(0)).div(values.length);
+                assert.ok(mean.abs().lessThan(1e-9) && variance.minus(1).abs().lessThan(1e-9), `zscore: dimension ${k} has mean ${mean} and variance ${variance}`);
+            });
+            const whitened = new Preprocessor('zscore', true).fit(vectors);
+            assert.equal(whitened.outputLength, vectors[0].length);
+            const covariance = MatrixHelper.covariance(vectors.map(vector => whitened.transform(vector)));
+            covariance.forEach((row, i) => row.forEach((v, j) => assert.ok(v.minus(i === j ? 1 : 0).abs().lessThan(1e-6), `whiten: covariance [${i}][${j}] is ${v}`)));
+            Preprocessor.METHODS.forEach(method => [false, true].forEach(whiten => {
+                const preprocessor = new Preprocessor(method, whiten).fit(vectors);
+                const restored = Preprocessor.fromJSON(preprocessor.toJSON());
+                vectors.forEach(vector => {
+                    assert.ok(close(preprocessor.inverseTransform(preprocessor.transform(vector)), vector), `${method}${whiten ? '+whiten' : ''}: vector is not mapped back`);
+                    assert.ok(close(restored.transform(vector), preprocessor.transform(vector)), `${method}${whiten ? '+whiten' : ''}: restored preprocessor differs`);
+                });
+            }));
+        },
+    },
+    {
+        name: 'HTTP API runs a CSV job and rejects repeated query parameters',
+        run: async () => {
+            const csv = readFileSync(join(__dirname, 'dataset.csv'), 'utf8');
+            const server = new FormationServer();
+            const { port } = await server.listen(0);
+            try {
+                const repeated = await call(port, 'POST', '/jobs?capacities=10,10&capacities=15&weights=1,1,1,1&weights=2,2,2,2', csv);
+                assert.equal(repeated.status, 400);
+                assert.equal(repeated.body.error.code, 'invalid_request');
+                assert.deepEqual(repeated.body.error.details.map((detail: { field: string }) => detail.field), ['capacities', 'weights']);
+
+                let status = (await call(port, 'POST', '/jobs?groups=4&seed=7', csv)).body;
+                while (status.status === 'queued' || status.status === 'running') {
+                    await new Promise(resolve => setTimeout(resolve, 50));
+                    status = (await call(port, 'GET', `/jobs/${status.id}`)).body;
+                }
+                assert.equal(status.status, 'succeeded', status.error ? status.error.message : undefined);
+                const result = await call(port, 'GET', `/jobs/${status.id}/result`);
+                assert.equal(result.status, 200);
+                assert.equal(result.body.groups.length, 4);
+                assert.equal(result.body.groups.reduce((p: number, group: { size: number }) => p + group.size, 0), csv.trim().split('\n').length - 1);
+            } finally {
+                await server.close();
+            }
+        },
+    },
+    {
+        name: 'possibilistic model gives an outlier low typicality everywhere',
+        run: async () => {
+            const population = (await loadDataset()).concat([new Person(999, 'Outlier', { active_reflective: 11, sensing_intuitive: 11, visual_verbal: 11, sequential_global: -11 })]);
+            const [fcm, pcm] = ['fcm', 'pcm'].map(algorithm => {
+                const model = ClusteringModelFactory.create(algorithm, population, 3, null, { seed: 7 });
+                model.buildModel(100, new Decimal(0.0001));
+                return model;
+            });
+            const top = (row: { vector: Decimal[] }) => Decimal.max(...row.vector);
+            const outlier = (model: ClusteringModel) => top(model.partitionMatrix.find(row => row.person.id === 999));
+            assert.ok(outlier(fcm).greaterThanOrEqualTo(1 / 3), 'fcm: outlier membership does not sum to 1');
+            const typical = Decimal.min(...pcm.partitionMatrix.filter(row => row.person.id !== 999).map(top));
+            assert.ok(outlier(pcm).lessThan(typical), `pcm: outlier typicality ${outlier(pcm)} is not below every other person (${typical})`);
+        },
+    },
+    {
+        name: 'Gustafson-Kessel and Gath-Geva models fit elongated clusters',
+        run: async () => {
+            // Two parallel clusters stretched along the first dimension, started from a weak partition of their true split
+            const population = new Array<Person>();
+            [-1, 1].forEach(side => [-11, -9, -7, -5, -3, -1, 1, 3, 5, 7, 9, 11].forEach(x => [1, 3].forEach(dy => [-1, 1].forEach(z => population.push(new Person(population.length + 1, `Person ${population.length + 1}`, {
+                active_reflective: x, sensing_intuitive: side * (dy + 2), visual_verbal: z, sequential_global: (x + dy) % 4 === 0 ? 1 : -1,
+            }))))));
+            const initialVectors = population.map(person => person.scores.sensing_intuitive < 0 ? [new Decimal(0.6), new Decimal(0.4)] : [new Decimal(0.4), new Decimal(0.6)]);
+            [GustafsonKessel, GathGeva].forEach(Algorithm => {
+                const model = new Algorithm(population, 2, initialVectors);
+                model.buildModel(200, new Decimal(0.00001));
+                model.formGroups().forEach(group => assert.equal(new Set(group.members.map(member => Math.sign(member.person.scores.sensing_intuitive as number))).size, 1, `${model.name}: group ${group.id} mixes both clusters`));
+                model.covariances.forEach((covariance, c) => assert.ok(covariance.every((row, k) => k === 0 || covariance[0][0].greaterThan(row[k].times(10))), `${model.name}: covariance of cluster ${c + 1} is not stretched along the first dimension`));
+                if (model instanceof GathGeva) {
+                    assert.ok(model.priors.reduce((p, c) => p.plus(c)).minus(1).abs().lessThan(1e-9), 'gg: priors do not sum to 1');
+                }
+            });
+        },
+    },
+    {
+        name: 'identical persons keep valid memberships and balanced groups',
+        run: async () => eachVariant(await load('identical.csv'), 3, null, null, (model, label) => {
+            if (model.name !== 'pcm') {
+                model.partitionMatrix.forEach(row => assert.ok(row.vector.reduce((p, c) => p.plus(c)).minus(1).abs().lessThan(1e-6), `${label}: memberships of person ${row.person.id} do not sum to 1`));
+            }
+            assert.deepEqual(model.formGroups().map(group => group.members.length), [2, 2, 2], `${label}: groups are not balanced`);
+        }),
+    },
+    {
+        name: 'duplicated persons seeded by kmeans++ end in their own cluster',
+        run: async () => {
+            const population = await load('duplicates.csv');
+            variants.forEach(({ algorithm, backend }) => {
+                const model = ClusteringModelFactory.create(algorithm, population, 3, null, { seed: 7, initialization: 'kmeans++', backend: NumericBackendFactory.create(backend, 2) });
+                model.buildModel(50, new Decimal(0.001));
+                assert.ok(model.partitionMatrix.every(row => row.vector.every(u => u.isFinite())), `${algorithm}/${backend}: membership is not finite`);
+                const groups = model.formGroups();
+                groups.forEach(group => assert.equal(new Set(group.members.map(member => member.person.toVector().join())).size, 1, `${algorithm}/${backend}: group ${group.id} mixes persons of different profiles`));
+            });
+        },
+    },
+    {
+        name: 'cluster whose memberships collapsed to zero is re-seeded',
+        run: async () => eachVariant(await load('duplicates.csv'), 3, PartitionLoader.load(fixture('collapsed-partition.csv')), null, (model, label) => {
+            const weight = model.partitionMatrix.map(row => row.vector[2]).reduce((p, c) => p.plus(c));
+            assert.ok(weight.greaterThan(0), `${label}: collapsed cluster got no membership back`);
+        }),
+    },
+    {
+        name: 'person sitting exactly on a center gets crisp membership',
+        run: async () => eachVariant(await load('duplicates.csv'), 3, null, PartitionLoader.load(fixture('on-center-centers.csv')), (model, label) => {
+            model.partitionMatrix.forEach(row => assert.ok(row.vector.some(u => u.minus(1).abs().lessThan(1e-6)), `${label}: person ${row.person.id} has no crisp membership`));
+            const prediction = model.predict(model.partitionMatrix[0].person);
+            assert.ok(prediction.every(u => u.isFinite()) && prediction.some(u => u.minus(1).abs().lessThan(1e-6)), `${label}: prediction on a center is not crisp`);
+        }),
+    },
+    {
+        name: 'more groups than persons is rejected',
+        run: async () => expectInputError(await load('small.csv'), 5, ModelInputError.CODES.TOO_MANY_GROUPS),
+    },
+    {
+        name: 'empty population is rejected',
+        run: async () => expectInputError(await load('empty.csv'), 2, ModelInputError.CODES.EMPTY_POPULATION),
+    },
+    {
+        name: 'invalid number of groups is rejected',
+        run: async () => {
+            const population = await load('small.csv');
+            [0, -1, 1.5, NaN].forEach(groupNum => expectInputError(population, groupNum, ModelInputError.CODES.INVALID_GROUP_NUM));
+        },
+    },
+    {
+        name: 'duplicated person id is rejected',
+        run: async () => {
+            const population = await load('small.csv');
+            expectInputError(population.concat([population[0]]), 2, ModelInputError.CODES.DUPLICATED_PERSON);
+        },
+    },
+    {
+        name: 'multi-start keeps the best of reproducible runs',
+        run: async () => {
+            const population = await loadDataset();
+            const multiStart = new MultiStart(population, 4, 100, new Decimal(0.001), 2, { seed: 7 });
+            const runs = multiStart.run(4);
+            assert.deepEqual(runs.map(run => run.seed), MultiStart.seeds(7, 4));
+            const plain = new FuzzyCMeans(population, 4, null, { seed: 7 });
+            plain.buildModel(100, new Decimal(0.001));
+            assert.ok(runs[0].model.objectiveValue.equals(plain.objectiveValue), 'first run is not the plain model of the seed');
+            const objectives = runs.map(run => run.model.objectiveValue.toNumber());
+            assert.equal(multiStart.select('objective').model.objectiveValue.toNumber(), Math.min(...objectives));
+            const parallel = await new MultiStart(population, 4, 100, new Decimal(0.001), 2, { seed: 7 }).runParallel(4, 2);
+            assert.deepEqual(parallel.map(run => run.model.objectiveValue.toNumber()), objectives, 'parallel runs differ');
+            const stability = multiStart.stability();
+            assert.equal(stability.length, population.length);
+            assert.ok(stability.every(entry => entry.stability >= 0 && entry.stability <= 1), 'stability out of 0..1');
+            assert.ok(multiStart.scores('consensus').every(score => score >= 0 && score <= 1), 'consensus out of 0..1');
+        },
+    },
+    {
+        name: 'rotation planner avoids pairs of earlier sessions',
+        run: async () => {
+            const model = new FuzzyCMeans(await loadDataset(), 5, null, { seed: 7 });
+            model.buildModel(100, new Decimal(0.001));
+            ['homogeneous', 'heterogeneous'].forEach((mode: 'homogeneous' | 'heterogeneous') => {
+                const plan = new RotationPlanner(model, { mode }).plan(4);
+                const unweighted = new RotationPlanner(model, { mode, historyWeight: 0 }).plan(4);
+                const total = (repeated: number[]) => repeated.reduce((p, c) => p + c, 0);
+                assert.equal(plan.history.sessions, 4);
+                assert.equal(plan.repeatedPairs[0], 0, `${mode}: first session repeats pairs of an empty history`);
+                assert.deepEqual(ids(plan.sessions[0]), ids(model.formGroups({ mode })), `${mode}: first session differs from plain formation`);
+                assert.ok(total(plan.repeatedPairs) < total(unweighted.repeatedPairs), `${mode}: ${total(plan.repeatedPairs)} repeated pairs, ${total(unweighted.repeatedPairs)} without history weight`);
+                assert.deepEqual(new RotationPlanner(model, { mode }).plan(4).sessions.map(ids), plan.sessions.map(ids), `${mode}: plan is not reproducible`);
+            });
+        },
+    },
+    {
+        name: 'roster CSV is read across multi-line names, short rows are reported on their line',
+        run: async () => {
+            const population = randomPopulation(4, 3).map((person, i) => new Person(person.id, i === 0 ? 'Multi\nline "name"' : person.name, person.scores));
+            const model = new FuzzyCMeans(population, 2, null, { seed: 7 });
+            model.buildModel(50, new Decimal(0.001));
+            const groups = model.formGroups();
+            const sessions = await withTemporaryFile('roster.csv', GroupExporter.fromModel(model, groups).toCsv(), path => PairHistory.fromFile(path));
+            assert.deepEqual(sessions, [ids(groups)]);
+            await withTemporaryFile('short.csv', 'PersonId,Name,GroupId\n1,"A\nB",1\n2,C\n', path => assert.rejects(PairHistory.fromFile(path), /at line 4 of/));
+        },
+    },
+    {
+        name: 'plots of a small population are drawn in every format',
+        run: async () => {
+            const population = await loadNamelessDataset();
+            const model = new FuzzyCMeans(population, 3, null, { seed: 7 });
+            model.buildModel(50, new Decimal(0.001));
+            const plotter = GroupPlotter.fromModel(model, model.formGroups());
+            GroupPlotter.FORMATS.forEach(format => assert.ok(!/undefined|NaN/.test(plotter.export(format)), `${format}: plot shows undefined or NaN`));
+            ['svg', 'radar'].forEach(format => assert.ok(/^<svg[^]*<\/svg>\s*$/.test(plotter.export(format)), `${format}: not a standalone SVG`));
+            assert.ok(population.every(person => plotter.toScatterSvg().indexOf(`(${person.id}): group `) >= 0), 'svg: a person has no tooltip');
+            assert.ok(/^<!DOCTYPE html>[^]*<svg[^]*<\/html>\s*$/.test(plotter.toHtml()), 'html: not a page with plots');
+            const rows = plotter.toText(40, 10).split('\n').filter(line => line.startsWith('|'));
+            assert.ok(rows.length === 10 && rows.every(line => line.length === 42), 'text: plot does not have the requested size');
+        },
+    },
+];
+
+(async () => {
+    let failed = 0;
+    for (const check of checks) {
+        try {
+            await check.run();
+            console.log(`ok - ${check.name}`);
+        } catch (error) {
+            failed += 1;
+            console.log(`not ok - ${check.name}\n  ${error.message}`);
+        }
+    }
+    console.log(`${checks.length - failed} of ${checks.length} checks passed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+})();